@@ -26,6 +26,7 @@ export interface Agent {
   // Detection
   canHandle(context: PageContext): boolean;
   detect(context: PageContext): Promise<Detection[]>;
+  detectIncremental?(context: PageContext): Promise<Detection[]>;  // Partial context of newly added content
   analyze(detections: Detection[]): AnalysisResult;
   
   // UI
@@ -12,11 +12,13 @@ export interface PageContext {
   
   // Content
   content: {
-    text: string;                       // Visible text
+    text: string;                       // Visible text, one block per line
+    blocks: TextBlock[];                // Visible text grouped by source element
     headings: string[];                 // H1-H6
     links: LinkInfo[];
     images: ImageInfo[];
     forms: FormInfo[];
+    roots?: HTMLElement[];              // Subtrees an incremental build covers, absent for the whole page
   };
   
   // Metadata
@@ -42,6 +44,19 @@ export interface PageContext {
 
 export type PageType = 'product' | 'article' | 'social' | 'video' | 'unknown';
 
+export interface TextBlock {
+  text: string;                         // Whitespace-collapsed text of the block
+  element: HTMLElement;                 // Source element for highlighting
+  bounds: {                             // Document coordinates at build time
+    top: number;
+    left: number;
+    width: number;
+    height: number;
+  };
+  visible: boolean;                     // Rendered with a non-zero box
+  heading?: string;                     // Nearest preceding H1-H6
+}
+
 export interface LinkInfo {
   text: string;
   href: string;
@@ -56,6 +71,18 @@ export interface FormInfo {
   action: string;
   method: string;
   inputs: number;
+  element: HTMLFormElement;
+  fields: FormFieldInfo[];              // Checkable, selectable and quantity-like inputs
+}
+
+export interface FormFieldInfo {
+  element: HTMLInputElement | HTMLSelectElement;
+  type: string;                         // Input type, or 'select'
+  name: string;
+  label: string;                        // Visible label text, collapsed
+  value: string;
+  checked?: boolean;                    // Checkboxes and radios
+  defaultChecked?: boolean;             // Checked in the served HTML
 }
 
 export interface Detection {
@@ -92,6 +119,9 @@ export interface Detection {
     onClick: () => void;
   }>;
   
+  // Structured values for the panel, e.g. { friction: 72 }
+  metrics?: Record<string, number>;
+  
   // Metadata
   confidence: number;                   // 0-1
   timestamp: Date;
@@ -0,0 +1,71 @@
+/**
+ * ArticleExtractor - Locates the headline and body of a news article
+ */
+
+import { PageContext, TextBlock } from '../base/types';
+
+export class ArticleExtractor {
+  private static readonly BODY_SELECTOR =
+    'article, [itemprop="articleBody"], [class*="article-body"], [class*="story-body"], main, [role="main"]';
+
+  private static readonly OPINION_LABELS =
+    /\b(opinion|editorial|op-ed|commentary|column|analysis|perspective|viewpoint|letters?)\b/i;
+
+  /**
+   * Article headline: first H1 inside the article, then Open Graph, then title
+   */
+  static getHeadline(context: PageContext): string {
+    const body = this.getBodyRoot();
+    const h1 = body?.querySelector('h1') || document.querySelector('h1');
+    const headline = h1?.textContent?.trim();
+    if (headline) return headline;
+
+    const ogTitle = context.metadata.structured?.openGraph?.title;
+    return ogTitle || context.title;
+  }
+
+  /**
+   * Visible paragraph-sized blocks that belong to the article body
+   */
+  static getBodyBlocks(context: PageContext, minLength = 40): TextBlock[] {
+    const body = this.getBodyRoot();
+
+    return context.content.blocks.filter(block =>
+      block.visible &&
+      block.text.length >= minLength &&
+      !/^H[1-6]$/.test(block.element.tagName) &&
+      (!body || body.contains(block.element))
+    );
+  }
+
+  static getBodyText(context: PageContext): string {
+    return this.getBodyBlocks(context).map(block => block.text).join('\n');
+  }
+
+  /**
+   * Whether the publisher labels this piece as opinion rather than news
+   */
+  static isLabelledOpinion(context: PageContext): boolean {
+    if (this.OPINION_LABELS.test(context.path)) return true;
+
+    const section = document.querySelector('meta[property="article:section"]')?.getAttribute('content') || '';
+    if (this.OPINION_LABELS.test(section)) return true;
+
+    const jsonLd: any[] = context.metadata.structured?.jsonLd || [];
+    const isOpinionSchema = jsonLd.some(item =>
+      /OpinionNewsArticle|AnalysisNewsArticle|ReviewNewsArticle/.test(JSON.stringify(item['@type'] || ''))
+    );
+    if (isOpinionSchema) return true;
+
+    const labels = Array.from(document.querySelectorAll('[class*="kicker"], [class*="label"], [class*="section"], [class*="eyebrow"]'))
+      .slice(0, 20)
+      .map(el => el.textContent?.trim() || '')
+      .filter(text => text.length > 0 && text.length < 40);
+
+    return labels.some(text => this.OPINION_LABELS.test(text));
+  }
+
+  private static getBodyRoot(): HTMLElement | null {
+    return document.querySelector(this.BODY_SELECTOR) as HTMLElement | null;
+  }
+}
@@ -0,0 +1,271 @@
+/**
+ * News Bias Agent - Detects slanted framing and weak sourcing in news articles
+ */
+
+import { BaseAgent } from '../base/Agent';
+import {
+  AgentKey,
+  AgentConfig,
+  PageContext,
+  Detection,
+  AnalysisResult,
+  OverlaySpec
+} from '../base/types';
+import { AIEngineManager } from '../../ai/AIEngineManager';
+
+// Import detectors
+import { LoadedLanguageDetector } from './detectors/LoadedLanguageDetector';
+import { OneSidedSourcingDetector } from './detectors/OneSidedSourcingDetector';
+import { HeadlineMismatchDetector } from './detectors/HeadlineMismatchDetector';
+import { MissingAttributionDetector } from './detectors/MissingAttributionDetector';
+import { OpinionAsNewsDetector } from './detectors/OpinionAsNewsDetector';
+
+export interface NewsDetector {
+  name: string;
+  incremental?: boolean;                // Works block by block, so can rerun on added content alone
+  detect(context: PageContext, aiManager: AIEngineManager): Promise<Detection[]>;
+}
+
+export class NewsBiasAgent extends BaseAgent {
+  key: AgentKey = 'news_bias';
+  name = 'News Bias Agent';
+  description = 'Detects loaded framing, one-sided sourcing and opinion presented as news';
+  icon = '📰';
+  version = '1.0.0';
+
+  private aiManager: AIEngineManager;
+  private detectors: NewsDetector[] = [];
+
+  constructor() {
+    super();
+    this.aiManager = AIEngineManager.getInstance();
+  }
+
+  protected async onInitialize(): Promise<void> {
+    console.log('Initializing News Bias Agent...');
+
+    this.detectors = [
+      new LoadedLanguageDetector(),
+      new OneSidedSourcingDetector(),
+      new HeadlineMismatchDetector(),
+      new MissingAttributionDetector(),
+      new OpinionAsNewsDetector()
+    ];
+
+    console.log(`News Agent initialized with ${this.detectors.length} detectors`);
+  }
+
+  protected async onShutdown(): Promise<void> {
+    this.detectors = [];
+  }
+
+  /**
+   * Only run on pages the context builder classified as articles
+   */
+  canHandle(context: PageContext): boolean {
+    console.log('News Agent canHandle check:', {
+      domain: context.domain,
+      type: context.metadata.type
+    });
+
+    return context.metadata.type === 'article';
+  }
+
+  /**
+   * Run all detectors and return found bias indicators
+   */
+  async detect(context: PageContext): Promise<Detection[]> {
+    if (!this.isEnabled()) {
+      return [];
+    }
+
+    console.log(`Running news bias detection on ${context.url.href}`);
+
+    return this.runDetectors(this.detectors, context);
+  }
+
+  /**
+   * Rerun only block-level detectors on content added after the page was analyzed
+   */
+  async detectIncremental(context: PageContext): Promise<Detection[]> {
+    if (!this.isEnabled()) {
+      return [];
+    }
+
+    return this.runDetectors(this.detectors.filter(detector => detector.incremental), context);
+  }
+
+  private async runDetectors(detectors: NewsDetector[], context: PageContext): Promise<Detection[]> {
+    try {
+      const detectionPromises = detectors.map(async (detector) => {
+        try {
+          const detections = await detector.detect(context, this.aiManager);
+          console.log(`${detector.name}: ${detections.length} detections`);
+          return detections;
+        } catch (error) {
+          console.error(`${detector.name} failed:`, error);
+          return [];
+        }
+      });
+
+      const detectionResults = await Promise.all(detectionPromises);
+      const allDetections = detectionResults.flat();
+
+      // Filter by sensitivity threshold
+      const sensitivity = this.getSensitivity();
+      const filteredDetections = allDetections.filter(detection => {
+        const threshold = this.getThreshold(detection.type);
+        return detection.score >= threshold * sensitivity;
+      });
+
+      console.log(`News Agent found ${filteredDetections.length} detections (${allDetections.length} before filtering)`);
+
+      return filteredDetections;
+    } catch (error) {
+      console.error('News bias detection failed:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Analyze detections and calculate overall bias risk
+   */
+  analyze(detections: Detection[]): AnalysisResult {
+    if (detections.length === 0) {
+      return {
+        detections,
+        overallScore: 0,
+        riskLevel: 'safe',
+        breakdown: {},
+        recommendations: {
+          primary: 'No framing or sourcing problems detected in this article.',
+          actions: []
+        }
+      };
+    }
+
+    const breakdown: Record<string, number> = {};
+    const categoryScores: Record<string, number[]> = {};
+
+    detections.forEach(detection => {
+      if (!categoryScores[detection.type]) {
+        categoryScores[detection.type] = [];
+      }
+      categoryScores[detection.type].push(detection.score);
+    });
+
+    Object.entries(categoryScores).forEach(([category, scores]) => {
+      breakdown[category] = Math.round(
+        scores.reduce((sum, score) => sum + score, 0) / scores.length
+      );
+    });
+
+    const overallScore = this.calculateOverallScore(detections);
+    const riskLevel = this.getRiskLevel(overallScore);
+
+    return {
+      detections,
+      overallScore,
+      riskLevel,
+      breakdown,
+      recommendations: this.generateRecommendations(breakdown, riskLevel)
+    };
+  }
+
+  /**
+   * Render overlay for a specific detection
+   */
+  render(detection: Detection): OverlaySpec {
+    const anchorElement = detection.element ||
+      document.querySelector('article, main, [role="main"]') as HTMLElement ||
+      document.body;
+
+    return {
+      type: detection.severity === 'high' ? 'tooltip' : 'badge',
+      severity: detection.severity,
+      anchor: {
+        element: anchorElement,
+        position: 'top',
+        offset: 8
+      },
+      content: {
+        title: detection.title,
+        description: detection.description,
+        details: detection.details,
+        actions: detection.actions
+      },
+      autoHide: detection.severity === 'low',
+      autoHideDelay: 5000
+    };
+  }
+
+  getSidebarComponent(): any {
+    return null; // Handled by Panel.tsx
+  }
+
+  getDefaultConfig(): AgentConfig {
+    return {
+      enabled: true,
+      sensitivity: 0.7,
+      thresholds: {
+        loaded_language: 5,
+        one_sided_sourcing: 6,
+        headline_mismatch: 6,
+        missing_attribution: 5,
+        opinion_as_news: 6
+      },
+      domains: {},
+      ui: {
+        showOverlays: true,
+        overlayPosition: 'top',
+        autoHideDelay: 5000
+      }
+    };
+  }
+
+  private generateRecommendations(
+    breakdown: Record<string, number>,
+    riskLevel: string
+  ): AnalysisResult['recommendations'] {
+    const tips: Record<string, string> = {
+      loaded_language: 'Watch for emotionally charged words doing the arguing.',
+      one_sided_sourcing: 'Look for coverage that quotes the other side.',
+      headline_mismatch: 'Read past the headline before sharing.',
+      missing_attribution: 'Ask who exactly is making each claim.',
+      opinion_as_news: 'Treat this as commentary rather than reporting.'
+    };
+
+    const topCategory = Object.entries(breakdown).sort((a, b) => b[1] - a[1])[0]?.[0];
+    const tip = topCategory ? tips[topCategory] : '';
+
+    let primary: string;
+    switch (riskLevel) {
+      case 'danger':
+        primary = `📰 Strong signs of slanted coverage. ${tip}`;
+        break;
+      case 'warning':
+        primary = `📰 Several bias indicators found. ${tip}`;
+        break;
+      case 'caution':
+        primary = `📰 Some framing issues detected. ${tip}`;
+        break;
+      default:
+        primary = 'Low bias risk. This article appears balanced.';
+    }
+
+    const actions = riskLevel === 'safe' ? [] : [
+      {
+        label: 'Compare Coverage',
+        icon: '🔍',
+        onClick: () => this.compareCoverage()
+      }
+    ];
+
+    return { primary: primary.trim(), actions };
+  }
+
+  private compareCoverage(): void {
+    const query = encodeURIComponent(document.title);
+    window.open(`https://news.google.com/search?q=${query}`, '_blank');
+  }
+}
@@ -0,0 +1,150 @@
+/**
+ * HeadlineMismatchDetector - Detects headlines that overstate or contradict the article body
+ */
+
+import { PageContext, Detection } from '../../base/types';
+import { AIEngineManager } from '../../../ai/AIEngineManager';
+import { scoredSchema, ScoredResponse } from '../../../ai/ResponseSchema';
+import { Debug } from '../../../utils/Debug';
+import { NewsDetector } from '../NewsBiasAgent';
+import { ArticleExtractor } from '../ArticleExtractor';
+
+export class HeadlineMismatchDetector implements NewsDetector {
+  name = 'HeadlineMismatchDetector';
+
+  private static readonly RESPONSE_SCHEMA = scoredSchema();
+
+  private static readonly STOP_WORDS = new Set([
+    'the', 'a', 'an', 'and', 'or', 'but', 'of', 'to', 'in', 'on', 'for', 'with', 'at', 'by',
+    'from', 'as', 'is', 'are', 'was', 'were', 'be', 'this', 'that', 'it', 'its', 'after',
+    'over', 'into', 'about', 'new', 'says', 'said', 'how', 'why', 'what', 'who', 'will'
+  ]);
+
+  async detect(context: PageContext, aiManager: AIEngineManager): Promise<Detection[]> {
+    const detections: Detection[] = [];
+
+    try {
+      Debug.debug('🔍 HeadlineMismatchDetector: Starting detection...');
+
+      const headline = ArticleExtractor.getHeadline(context);
+      const body = ArticleExtractor.getBodyText(context);
+
+      // Need a real headline and enough body to compare against
+      if (headline.length < 15 || body.length < 300) {
+        return detections;
+      }
+
+      const detection = await this.analyzeHeadline(headline, body, context, aiManager);
+      if (detection) {
+        detections.push(detection);
+        Debug.success(`✅ HeadlineMismatchDetector: Found headline mismatch`);
+      }
+
+      return detections;
+    } catch (error) {
+      Debug.error('HeadlineMismatchDetector failed', error);
+      return detections;
+    }
+  }
+
+  private async analyzeHeadline(
+    headline: string,
+    body: string,
+    context: PageContext,
+    aiManager: AIEngineManager
+  ): Promise<Detection | null> {
+    try {
+      const h1 = document.querySelector('h1') as HTMLElement | null;
+      const priority = aiManager.priorityFor(h1 || undefined);
+
+      // Compress the body so the comparison prompt stays small
+      Debug.apiCall('Summarizer', 'start');
+      const summary = await aiManager.scheduler.schedule(
+        () => aiManager.summarizer.summarize({
+          content: body.substring(0, 4000),
+          type: 'tl-dr',
+          length: 'short'
+        }),
+        { priority, label: 'Summarizer' }
+      );
+      Debug.apiCall('Summarizer', 'success');
+
+      Debug.apiCall('Prompt', 'start');
+
+      const prompt = `Compare this news headline with a summary of the article body.
+Headline: "${headline}"
+Article summary: "${summary.summary.substring(0, 800)}"
+
+Does the headline overstate, sensationalize or contradict what the article actually reports?
+
+Rate the mismatch (0-10):
+- 0-3: Headline fairly reflects the article
+- 4-6: Headline exaggerates or omits key qualifiers
+- 7-10: Headline misrepresents the article`;
+
+      const result = await aiManager.runPrompt<ScoredResponse>({
+        prompt,
+        schema: HeadlineMismatchDetector.RESPONSE_SCHEMA
+      }, { priority, label: this.name });
+
+      if (result.ok) {
+        Debug.apiCall('Prompt', 'success');
+      } else {
+        Debug.apiCall('Prompt', 'error', result.error);
+      }
+
+      const overlap = this.keywordOverlap(headline, body);
+      const score = result.ok ? result.data.score : this.heuristicScore(headline, overlap);
+
+      if (score < 4) return null;
+
+      const severity = score >= 7 ? 'high' : score >= 5 ? 'medium' : 'low';
+
+      return {
+        id: `headline_mismatch_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        agentKey: 'news_bias',
+        type: 'headline_mismatch',
+        score: Math.round(score),
+        severity,
+        title: `📰 Headline Doesn't Match Story (${severity.toUpperCase()})`,
+        description: `The headline may promise more than the article delivers: "${headline.substring(0, 100)}"`,
+        reasoning: result.ok ? result.data.reasoning : `Heuristic estimate (AI unavailable: ${result.error})`,
+        element: h1 || undefined,
+        details: [
+          { label: 'Headline', value: headline.substring(0, 120) },
+          { label: 'Article Summary', value: summary.summary.substring(0, 200) },
+          { label: 'Headline Words Found In Body', value: `${Math.round(overlap * 100)}%` }
+        ],
+        actions: [],
+        confidence: result.ok ? 0.75 : 0.5,
+        timestamp: new Date(),
+        pageUrl: context.url.href
+      };
+    } catch (error) {
+      Debug.error('Failed to analyze headline', error);
+      return null;
+    }
+  }
+
+  /**
+   * Share of meaningful headline words that appear anywhere in the body
+   */
+  private keywordOverlap(headline: string, body: string): number {
+    const words = headline.toLowerCase()
+      .split(/[^\p{L}\p{N}]+/u)
+      .filter(word => word.length > 2 && !HeadlineMismatchDetector.STOP_WORDS.has(word));
+
+    if (words.length === 0) return 1;
+
+    const lowerBody = body.toLowerCase();
+    return words.filter(word => lowerBody.includes(word)).length / words.length;
+  }
+
+  private heuristicScore(headline: string, overlap: number): number {
+    let score = 0;
+    if (overlap < 0.5) score += 4;
+    if (/[!?]$/.test(headline.trim())) score += 2;
+    if (/\b(shocking|you won't believe|destroys|slams|bombshell|everything)\b/i.test(headline)) score += 3;
+    return Math.min(10, score);
+  }
+}
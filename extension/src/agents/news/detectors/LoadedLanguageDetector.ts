@@ -0,0 +1,137 @@
+/**
+ * LoadedLanguageDetector - Detects emotionally charged wording in news reporting
+ */
+
+import { PageContext, Detection, TextBlock } from '../../base/types';
+import { AIEngineManager } from '../../../ai/AIEngineManager';
+import { scoredSchema, ScoredResponse } from '../../../ai/ResponseSchema';
+import { Debug } from '../../../utils/Debug';
+import { NewsDetector } from '../NewsBiasAgent';
+import { ArticleExtractor } from '../ArticleExtractor';
+
+export class LoadedLanguageDetector implements NewsDetector {
+  name = 'LoadedLanguageDetector';
+  incremental = true;
+
+  private static readonly RESPONSE_SCHEMA = scoredSchema();
+
+  private static readonly LOADED_TERMS = [
+    'slammed', 'blasted', 'destroyed', 'eviscerated', 'ripped', 'torched', 'shredded',
+    'radical', 'extremist', 'regime', 'thugs', 'mob', 'cronies', 'elites',
+    'disastrous', 'catastrophic', 'shocking', 'outrageous', 'disgraceful', 'scandalous',
+    'bombshell', 'explosive', 'chaos', 'meltdown', 'crisis', 'war on',
+    'so-called', 'admitted', 'claimed', 'conceded', 'refused to', 'failed to',
+    'heroic', 'brave', 'stunning', 'devastating', 'horrific', 'unprecedented'
+  ];
+
+  async detect(context: PageContext, aiManager: AIEngineManager): Promise<Detection[]> {
+    const detections: Detection[] = [];
+
+    try {
+      Debug.debug('🔍 LoadedLanguageDetector: Starting detection...');
+
+      const candidates = this.findLoadedParagraphs(ArticleExtractor.getBodyBlocks(context));
+
+      Debug.debug(`📊 Found ${candidates.length} paragraphs with loaded language`);
+
+      for (const candidate of candidates.slice(0, 3)) {
+        try {
+          const detection = await this.analyzeLoadedLanguage(candidate, context, aiManager);
+          if (detection) {
+            detections.push(detection);
+            Debug.success(`✅ LoadedLanguageDetector: Found loaded language`);
+          }
+        } catch (error) {
+          Debug.warning(`⚠️ Failed to analyze loaded language: ${error}`);
+        }
+      }
+
+      return detections;
+    } catch (error) {
+      Debug.error('LoadedLanguageDetector failed', error);
+      return detections;
+    }
+  }
+
+  private findLoadedParagraphs(blocks: TextBlock[]): Array<{ block: TextBlock; terms: string[] }> {
+    const candidates: Array<{ block: TextBlock; terms: string[] }> = [];
+
+    for (const block of blocks) {
+      // Quoted speech is the source's wording, not the reporter's
+      const unquoted = block.text.replace(/["“][^"”]*["”]/g, ' ').toLowerCase();
+      const terms = LoadedLanguageDetector.LOADED_TERMS.filter(term =>
+        new RegExp(`\\b${term}\\b`).test(unquoted)
+      );
+
+      if (terms.length >= 2) {
+        candidates.push({ block, terms });
+      }
+    }
+
+    return candidates.sort((a, b) => b.terms.length - a.terms.length);
+  }
+
+  private async analyzeLoadedLanguage(
+    candidate: { block: TextBlock; terms: string[] },
+    context: PageContext,
+    aiManager: AIEngineManager
+  ): Promise<Detection | null> {
+    const { block, terms } = candidate;
+    const content = block.text;
+
+    try {
+      Debug.apiCall('Prompt', 'start');
+
+      const prompt = `Analyze this news paragraph for loaded or emotionally charged language used by the reporter (ignore direct quotes):
+"${content.substring(0, 600)}"
+
+Flagged words: ${terms.join(', ')}
+
+Rate the loaded language severity (0-10):
+- 0-3: Neutral reporting
+- 4-6: Some charged word choices
+- 7-10: Wording clearly steers the reader's opinion`;
+
+      const result = await aiManager.runPrompt<ScoredResponse>({
+        prompt,
+        schema: LoadedLanguageDetector.RESPONSE_SCHEMA
+      }, { priority: aiManager.priorityFor(block.element), label: this.name });
+
+      if (result.ok) {
+        Debug.apiCall('Prompt', 'success');
+      } else {
+        Debug.apiCall('Prompt', 'error', result.error);
+      }
+
+      const score = result.ok ? result.data.score : Math.min(10, 2 + terms.length * 1.5);
+
+      if (score < 4) return null;
+
+      const severity = score >= 7 ? 'high' : score >= 5 ? 'medium' : 'low';
+
+      return {
+        id: `loaded_language_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        agentKey: 'news_bias',
+        type: 'loaded_language',
+        score: Math.round(score),
+        severity,
+        title: `📰 Loaded Language (${severity.toUpperCase()})`,
+        description: `Charged wording may be shaping how you read this: ${content.substring(0, 100)}...`,
+        reasoning: result.ok ? result.data.reasoning : `Heuristic estimate (AI unavailable: ${result.error})`,
+        element: block.element,
+        details: [
+          { label: 'Charged Words', value: terms.join(', ') },
+          { label: 'Section', value: block.heading || 'Article body' },
+          { label: 'Content', value: content.substring(0, 80) + (content.length > 80 ? '...' : '') }
+        ],
+        actions: [],
+        confidence: result.ok ? 0.8 : 0.6,
+        timestamp: new Date(),
+        pageUrl: context.url.href
+      };
+    } catch (error) {
+      Debug.error('Failed to analyze loaded language', error);
+      return null;
+    }
+  }
+}
@@ -0,0 +1,137 @@
+/**
+ * MissingAttributionDetector - Detects claims credited to vague or anonymous sources
+ */
+
+import { PageContext, Detection, TextBlock } from '../../base/types';
+import { AIEngineManager } from '../../../ai/AIEngineManager';
+import { scoredSchema, ScoredResponse } from '../../../ai/ResponseSchema';
+import { Debug } from '../../../utils/Debug';
+import { NewsDetector } from '../NewsBiasAgent';
+import { ArticleExtractor } from '../ArticleExtractor';
+
+export class MissingAttributionDetector implements NewsDetector {
+  name = 'MissingAttributionDetector';
+  incremental = true;
+
+  private static readonly RESPONSE_SCHEMA = scoredSchema();
+
+  private static readonly VAGUE_ATTRIBUTION = [
+    /\b(?:some|many|several|a number of)\s+(?:people|experts|critics|observers|analysts|officials|sources)\s+(?:say|said|believe|argue|claim|think|fear)/i,
+    /\b(?:sources|insiders|officials)\s+(?:say|said|claim|suggest)/i,
+    /\bexperts\s+(?:say|warn|believe|agree)/i,
+    /\b(?:it is|it's|it has been)\s+(?:widely\s+)?(?:reported|believed|said|claimed|rumored|alleged)/i,
+    /\b(?:people are saying|reportedly|allegedly|rumou?rs?\s+(?:say|suggest))\b/i,
+    /\bstudies\s+(?:show|suggest|have shown)\b/i,
+    /\b(?:critics|opponents|supporters)\s+(?:say|argue|claim|point out)/i
+  ];
+
+  async detect(context: PageContext, aiManager: AIEngineManager): Promise<Detection[]> {
+    const detections: Detection[] = [];
+
+    try {
+      Debug.debug('🔍 MissingAttributionDetector: Starting detection...');
+
+      const claims = this.findVagueClaims(ArticleExtractor.getBodyBlocks(context));
+
+      Debug.debug(`📊 Found ${claims.length} vaguely attributed claims`);
+
+      for (const claim of claims.slice(0, 3)) {
+        try {
+          const detection = await this.analyzeAttribution(claim, context, aiManager);
+          if (detection) {
+            detections.push(detection);
+            Debug.success(`✅ MissingAttributionDetector: Found unattributed claim`);
+          }
+        } catch (error) {
+          Debug.warning(`⚠️ Failed to analyze attribution: ${error}`);
+        }
+      }
+
+      return detections;
+    } catch (error) {
+      Debug.error('MissingAttributionDetector failed', error);
+      return detections;
+    }
+  }
+
+  private findVagueClaims(blocks: TextBlock[]): Array<{ block: TextBlock; phrase: string }> {
+    const claims: Array<{ block: TextBlock; phrase: string }> = [];
+
+    for (const block of blocks) {
+      for (const pattern of MissingAttributionDetector.VAGUE_ATTRIBUTION) {
+        const match = block.text.match(pattern);
+        if (match) {
+          claims.push({ block, phrase: match[0] });
+          break;
+        }
+      }
+    }
+
+    return claims;
+  }
+
+  private async analyzeAttribution(
+    claim: { block: TextBlock; phrase: string },
+    context: PageContext,
+    aiManager: AIEngineManager
+  ): Promise<Detection | null> {
+    const { block, phrase } = claim;
+    const content = block.text;
+
+    try {
+      Debug.apiCall('Prompt', 'start');
+
+      const prompt = `Analyze this news paragraph for claims that are not attributed to a named, verifiable source:
+"${content.substring(0, 600)}"
+
+Vague attribution found: "${phrase}"
+
+Rate the attribution problem (0-10):
+- 0-3: Source is named or the claim is common knowledge
+- 4-6: Important claim rests on vague sourcing
+- 7-10: Key claim has no verifiable source`;
+
+      const result = await aiManager.runPrompt<ScoredResponse>({
+        prompt,
+        schema: MissingAttributionDetector.RESPONSE_SCHEMA
+      }, { priority: aiManager.priorityFor(block.element), label: this.name });
+
+      // A vague phrase alone is too weak a signal to report without the model
+      if (!result.ok) {
+        Debug.apiCall('Prompt', 'error', result.error);
+        return null;
+      }
+
+      Debug.apiCall('Prompt', 'success');
+
+      const score = result.data.score;
+
+      if (score < 4) return null;
+
+      const severity = score >= 7 ? 'high' : score >= 5 ? 'medium' : 'low';
+
+      return {
+        id: `missing_attribution_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        agentKey: 'news_bias',
+        type: 'missing_attribution',
+        score: Math.round(score),
+        severity,
+        title: `📰 Unattributed Claim (${severity.toUpperCase()})`,
+        description: `This claim relies on "${phrase}" rather than a named source.`,
+        reasoning: result.data.reasoning,
+        element: block.element,
+        details: [
+          { label: 'Vague Attribution', value: phrase },
+          { label: 'Content', value: content.substring(0, 80) + (content.length > 80 ? '...' : '') }
+        ],
+        actions: [],
+        confidence: 0.75,
+        timestamp: new Date(),
+        pageUrl: context.url.href
+      };
+    } catch (error) {
+      Debug.error('Failed to analyze attribution', error);
+      return null;
+    }
+  }
+}
@@ -0,0 +1,149 @@
+/**
+ * OneSidedSourcingDetector - Detects articles that quote only one side of a story
+ */
+
+import { PageContext, Detection, TextBlock } from '../../base/types';
+import { AIEngineManager } from '../../../ai/AIEngineManager';
+import { scoredSchema, ScoredResponse } from '../../../ai/ResponseSchema';
+import { Debug } from '../../../utils/Debug';
+import { NewsDetector } from '../NewsBiasAgent';
+import { ArticleExtractor } from '../ArticleExtractor';
+
+interface SourceQuote {
+  source: string;
+  text: string;
+  block: TextBlock;
+}
+
+export class OneSidedSourcingDetector implements NewsDetector {
+  name = 'OneSidedSourcingDetector';
+
+  private static readonly RESPONSE_SCHEMA = scoredSchema();
+
+  private static readonly NAME = `([A-Z][\\w.'-]+(?:\\s+[A-Z][\\w.'-]+){0,3})`;
+  private static readonly VERBS = `(?:said|says|told|argued|stated|added|explained|warned|claimed)`;
+
+  async detect(context: PageContext, aiManager: AIEngineManager): Promise<Detection[]> {
+    const detections: Detection[] = [];
+
+    try {
+      Debug.debug('🔍 OneSidedSourcingDetector: Starting detection...');
+
+      const quotes = this.extractSourceQuotes(ArticleExtractor.getBodyBlocks(context, 20));
+      const sources = [...new Set(quotes.map(q => q.source))];
+
+      Debug.debug(`📊 Found ${quotes.length} attributed statements from ${sources.length} sources`);
+
+      // Too few quotes to judge balance either way
+      if (quotes.length < 3) {
+        return detections;
+      }
+
+      const detection = await this.analyzeSourcing(quotes, sources, context, aiManager);
+      if (detection) {
+        detections.push(detection);
+        Debug.success(`✅ OneSidedSourcingDetector: Found one-sided sourcing`);
+      }
+
+      return detections;
+    } catch (error) {
+      Debug.error('OneSidedSourcingDetector failed', error);
+      return detections;
+    }
+  }
+
+  private extractSourceQuotes(blocks: TextBlock[]): SourceQuote[] {
+    const { NAME, VERBS } = OneSidedSourcingDetector;
+    const patterns = [
+      new RegExp(`${NAME},?\\s+${VERBS}\\b`, 'g'),           // "Jane Doe said"
+      new RegExp(`${VERBS}\\s+${NAME}`, 'g'),                 // "said Jane Doe"
+      new RegExp(`[Aa]ccording to\\s+${NAME}`, 'g')          // "according to Jane Doe"
+    ];
+    const ignored = /^(The|This|That|It|He|She|They|We|I|A|An|In|On|But|And)$/;
+
+    const quotes: SourceQuote[] = [];
+
+    for (const block of blocks) {
+      for (const pattern of patterns) {
+        for (const match of block.text.matchAll(pattern)) {
+          const source = match[1].trim();
+          if (ignored.test(source)) continue;
+          quotes.push({ source, text: block.text, block });
+        }
+      }
+    }
+
+    return quotes;
+  }
+
+  private async analyzeSourcing(
+    quotes: SourceQuote[],
+    sources: string[],
+    context: PageContext,
+    aiManager: AIEngineManager
+  ): Promise<Detection | null> {
+    try {
+      Debug.apiCall('Prompt', 'start');
+
+      const statements = quotes.slice(0, 8)
+        .map(q => `- ${q.source}: "${q.text.substring(0, 160)}"`)
+        .join('\n');
+
+      const prompt = `These are the attributed statements in a news article:
+${statements}
+
+Do the quoted sources represent more than one side or perspective on the story?
+
+Rate the one-sidedness (0-10):
+- 0-3: Multiple perspectives represented
+- 4-6: Sourcing leans toward one side
+- 7-10: Only one side is quoted`;
+
+      const result = await aiManager.runPrompt<ScoredResponse>({
+        prompt,
+        schema: OneSidedSourcingDetector.RESPONSE_SCHEMA
+      }, { priority: aiManager.priorityFor(quotes[0].block.element), label: this.name });
+
+      if (result.ok) {
+        Debug.apiCall('Prompt', 'success');
+      } else {
+        Debug.apiCall('Prompt', 'error', result.error);
+      }
+
+      const score = result.ok ? result.data.score : this.heuristicScore(quotes, sources);
+
+      if (score < 4) return null;
+
+      const severity = score >= 7 ? 'high' : score >= 5 ? 'medium' : 'low';
+
+      return {
+        id: `one_sided_sourcing_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        agentKey: 'news_bias',
+        type: 'one_sided_sourcing',
+        score: Math.round(score),
+        severity,
+        title: `📰 One-Sided Sourcing (${severity.toUpperCase()})`,
+        description: `${quotes.length} attributed statements come from ${sources.length} source${sources.length === 1 ? '' : 's'}. Other perspectives may be missing.`,
+        reasoning: result.ok ? result.data.reasoning : `Heuristic estimate (AI unavailable: ${result.error})`,
+        element: quotes[0].block.element,
+        details: [
+          { label: 'Sources Quoted', value: sources.slice(0, 6).join(', ') },
+          { label: 'Attributed Statements', value: String(quotes.length) }
+        ],
+        actions: [],
+        confidence: result.ok ? 0.75 : 0.55,
+        timestamp: new Date(),
+        pageUrl: context.url.href
+      };
+    } catch (error) {
+      Debug.error('Failed to analyze sourcing', error);
+      return null;
+    }
+  }
+
+  private heuristicScore(quotes: SourceQuote[], sources: string[]): number {
+    if (sources.length <= 1) return 7;
+    if (sources.length === 2 && quotes.length >= 4) return 5;
+    return 2;
+  }
+}
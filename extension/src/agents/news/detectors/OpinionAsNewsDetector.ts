@@ -0,0 +1,124 @@
+/**
+ * OpinionAsNewsDetector - Detects commentary presented as straight news reporting
+ */
+
+import { PageContext, Detection, TextBlock } from '../../base/types';
+import { AIEngineManager } from '../../../ai/AIEngineManager';
+import { scoredSchema, ScoredResponse } from '../../../ai/ResponseSchema';
+import { Debug } from '../../../utils/Debug';
+import { NewsDetector } from '../NewsBiasAgent';
+import { ArticleExtractor } from '../ArticleExtractor';
+
+export class OpinionAsNewsDetector implements NewsDetector {
+  name = 'OpinionAsNewsDetector';
+
+  private static readonly RESPONSE_SCHEMA = scoredSchema();
+
+  private static readonly OPINION_MARKERS =
+    /\b(?:I think|I believe|in my (?:view|opinion)|we must|we should|should be|must be|clearly|obviously|undeniably|of course|frankly|shameful|it is time to|needs to stop)\b/i;
+
+  async detect(context: PageContext, aiManager: AIEngineManager): Promise<Detection[]> {
+    const detections: Detection[] = [];
+
+    try {
+      Debug.debug('🔍 OpinionAsNewsDetector: Starting detection...');
+
+      // Labelled opinion pieces are allowed to argue a position
+      if (ArticleExtractor.isLabelledOpinion(context)) {
+        Debug.debug('📊 Article is labelled as opinion - skipping');
+        return detections;
+      }
+
+      const paragraphs = ArticleExtractor.getBodyBlocks(context);
+      const opinionated = paragraphs.filter(block => OpinionAsNewsDetector.OPINION_MARKERS.test(this.unquoted(block)));
+
+      Debug.debug(`📊 ${opinionated.length}/${paragraphs.length} paragraphs contain opinion markers`);
+
+      if (paragraphs.length < 4 || opinionated.length < 2) {
+        return detections;
+      }
+
+      const detection = await this.analyzeOpinion(opinionated, paragraphs.length, context, aiManager);
+      if (detection) {
+        detections.push(detection);
+        Debug.success(`✅ OpinionAsNewsDetector: Found opinion presented as news`);
+      }
+
+      return detections;
+    } catch (error) {
+      Debug.error('OpinionAsNewsDetector failed', error);
+      return detections;
+    }
+  }
+
+  private unquoted(block: TextBlock): string {
+    return block.text.replace(/["“][^"”]*["”]/g, ' ');
+  }
+
+  private async analyzeOpinion(
+    opinionated: TextBlock[],
+    totalParagraphs: number,
+    context: PageContext,
+    aiManager: AIEngineManager
+  ): Promise<Detection | null> {
+    const ratio = opinionated.length / totalParagraphs;
+
+    try {
+      Debug.apiCall('Prompt', 'start');
+
+      const excerpts = opinionated.slice(0, 4)
+        .map(block => `- "${block.text.substring(0, 200)}"`)
+        .join('\n');
+
+      const prompt = `These paragraphs come from an article presented as news (not labelled opinion or analysis):
+${excerpts}
+
+Is the writer arguing a position rather than reporting facts?
+
+Rate how much opinion is presented as news (0-10):
+- 0-3: Neutral reporting
+- 4-6: Noticeable editorializing
+- 7-10: Opinion piece presented as news`;
+
+      const result = await aiManager.runPrompt<ScoredResponse>({
+        prompt,
+        schema: OpinionAsNewsDetector.RESPONSE_SCHEMA
+      }, { priority: aiManager.priorityFor(opinionated[0].element), label: this.name });
+
+      if (result.ok) {
+        Debug.apiCall('Prompt', 'success');
+      } else {
+        Debug.apiCall('Prompt', 'error', result.error);
+      }
+
+      const score = result.ok ? result.data.score : Math.min(10, Math.round(ratio * 15));
+
+      if (score < 4) return null;
+
+      const severity = score >= 7 ? 'high' : score >= 5 ? 'medium' : 'low';
+
+      return {
+        id: `opinion_as_news_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        agentKey: 'news_bias',
+        type: 'opinion_as_news',
+        score: Math.round(score),
+        severity,
+        title: `📰 Opinion Presented as News (${severity.toUpperCase()})`,
+        description: `${opinionated.length} of ${totalParagraphs} paragraphs argue a position, but the article is not labelled as opinion.`,
+        reasoning: result.ok ? result.data.reasoning : `Heuristic estimate (AI unavailable: ${result.error})`,
+        element: opinionated[0].element,
+        details: [
+          { label: 'Opinionated Paragraphs', value: `${opinionated.length}/${totalParagraphs}` },
+          { label: 'Example', value: opinionated[0].text.substring(0, 80) + (opinionated[0].text.length > 80 ? '...' : '') }
+        ],
+        actions: [],
+        confidence: result.ok ? 0.7 : 0.5,
+        timestamp: new Date(),
+        pageUrl: context.url.href
+      };
+    } catch (error) {
+      Debug.error('Failed to analyze opinion framing', error);
+      return null;
+    }
+  }
+}
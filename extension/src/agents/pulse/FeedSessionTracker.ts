@@ -0,0 +1,158 @@
+/**
+ * FeedSessionTracker - Records how a social feed changes over a browsing session
+ */
+
+import { PageContext, TextBlock } from '../base/types';
+
+export interface FeedSnapshot {
+  timestamp: number;
+  scrollDepth: number;
+  newPosts: number;
+  outragePosts: number;
+  topics: string[];                     // Most frequent terms in the newly seen posts
+}
+
+export interface FeedSessionMetrics {
+  sessionMinutes: number;
+  postsSeen: number;
+  outrageShare: number;                 // 0-1 share of seen posts with outrage markers
+  topicDrift: number;                   // 0-1 distance between early and recent topics
+  startTopics: string[];
+  currentTopics: string[];
+  snapshots: number;
+}
+
+export class FeedSessionTracker {
+  // A gap this long between snapshots starts a new session
+  private static readonly SESSION_GAP_MS = 10 * 60 * 1000;
+  private static readonly MAX_SNAPSHOTS = 200;
+  private static readonly TOPIC_COUNT = 8;
+
+  private static readonly OUTRAGE_MARKERS =
+    /\b(outrage\w*|disgust\w*|furious|disgrace\w*|shameful|unbelievable|insane|destroy\w*|evil|traitor\w*|idiot\w*|pathetic|sick of|how dare|wake up|can't believe|enemy|enemies|attack\w*|slam\w*|rage)\b|!{2,}/i;
+
+  private static readonly STOP_WORDS = new Set([
+    'the', 'and', 'for', 'that', 'this', 'with', 'you', 'your', 'are', 'was', 'have', 'has',
+    'not', 'but', 'all', 'from', 'they', 'will', 'just', 'like', 'what', 'about', 'more',
+    'can', 'out', 'one', 'who', 'get', 'now', 'how', 'when', 'our', 'their', 'his', 'her',
+    'its', 'been', 'were', 'would', 'there', 'than', 'them', 'then', 'some', 'also', 'into',
+    'reply', 'replies', 'share', 'shares', 'like', 'likes', 'comment', 'comments', 'follow',
+    'repost', 'reposts', 'views', 'ago', 'show', 'more', 'see', 'translate', 'post', 'posts'
+  ]);
+
+  private snapshots: FeedSnapshot[] = [];
+  private seenPosts = new Set<string>();
+  private sessionStart = 0;
+
+  /**
+   * Record the posts that appeared since the last snapshot
+   */
+  record(context: PageContext): FeedSnapshot {
+    const now = Date.now();
+    const last = this.snapshots[this.snapshots.length - 1];
+
+    if (!last || now - last.timestamp > FeedSessionTracker.SESSION_GAP_MS) {
+      this.reset();
+      this.sessionStart = now;
+    }
+
+    const newPosts = this.collectNewPosts(context.content.blocks);
+    const snapshot: FeedSnapshot = {
+      timestamp: now,
+      scrollDepth: context.userState.scrollDepth,
+      newPosts: newPosts.length,
+      outragePosts: newPosts.filter(post => FeedSessionTracker.OUTRAGE_MARKERS.test(post.text)).length,
+      topics: this.extractTopics(newPosts)
+    };
+
+    this.snapshots.push(snapshot);
+    if (this.snapshots.length > FeedSessionTracker.MAX_SNAPSHOTS) {
+      this.snapshots.shift();
+    }
+
+    return snapshot;
+  }
+
+  getMetrics(): FeedSessionMetrics {
+    const postsSeen = this.snapshots.reduce((sum, s) => sum + s.newPosts, 0);
+    const outragePosts = this.snapshots.reduce((sum, s) => sum + s.outragePosts, 0);
+
+    // Compare the first and last quarter of the session
+    const windowSize = Math.max(1, Math.floor(this.snapshots.length / 4));
+    const startTopics = this.mergeTopics(this.snapshots.slice(0, windowSize));
+    const currentTopics = this.mergeTopics(this.snapshots.slice(-windowSize));
+
+    return {
+      sessionMinutes: this.sessionStart ? (Date.now() - this.sessionStart) / 60000 : 0,
+      postsSeen,
+      outrageShare: postsSeen > 0 ? outragePosts / postsSeen : 0,
+      topicDrift: this.snapshots.length >= 2 ? 1 - this.jaccard(startTopics, currentTopics) : 0,
+      startTopics,
+      currentTopics,
+      snapshots: this.snapshots.length
+    };
+  }
+
+  reset(): void {
+    this.snapshots = [];
+    this.seenPosts.clear();
+    this.sessionStart = 0;
+  }
+
+  private collectNewPosts(blocks: TextBlock[]): TextBlock[] {
+    const posts: TextBlock[] = [];
+
+    for (const block of blocks) {
+      if (!block.visible || block.text.length < 30) continue;
+
+      const key = block.text.substring(0, 120);
+      if (this.seenPosts.has(key)) continue;
+
+      this.seenPosts.add(key);
+      posts.push(block);
+    }
+
+    return posts;
+  }
+
+  private extractTopics(posts: TextBlock[]): string[] {
+    const counts = new Map<string, number>();
+
+    posts.forEach(post => {
+      const words = new Set(
+        post.text.toLowerCase()
+          .split(/[^\p{L}\p{N}#]+/u)
+          .filter(word => word.length > 3 && !FeedSessionTracker.STOP_WORDS.has(word) && !/^\d+$/.test(word))
+      );
+      words.forEach(word => counts.set(word, (counts.get(word) || 0) + 1));
+    });
+
+    return Array.from(counts.entries())
+      .filter(([, count]) => count >= 2)
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, FeedSessionTracker.TOPIC_COUNT)
+      .map(([word]) => word);
+  }
+
+  private mergeTopics(snapshots: FeedSnapshot[]): string[] {
+    const counts = new Map<string, number>();
+    snapshots.forEach(snapshot => {
+      snapshot.topics.forEach(topic => counts.set(topic, (counts.get(topic) || 0) + 1));
+    });
+
+    return Array.from(counts.entries())
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, FeedSessionTracker.TOPIC_COUNT)
+      .map(([topic]) => topic);
+  }
+
+  private jaccard(a: string[], b: string[]): number {
+    if (a.length === 0 && b.length === 0) return 1;
+
+    const setA = new Set(a);
+    const intersection = b.filter(item => setA.has(item)).length;
+    const union = new Set([...a, ...b]).size;
+
+    return union === 0 ? 1 : intersection / union;
+  }
+}
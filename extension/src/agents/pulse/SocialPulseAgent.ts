@@ -0,0 +1,284 @@
+/**
+ * Social Pulse Agent - Tracks how a social feed shapes the session as the user scrolls
+ */
+
+import { BaseAgent } from '../base/Agent';
+import {
+  AgentKey,
+  AgentConfig,
+  PageContext,
+  Detection,
+  AnalysisResult,
+  OverlaySpec
+} from '../base/types';
+import { FeedSessionTracker, FeedSessionMetrics } from './FeedSessionTracker';
+
+export class SocialPulseAgent extends BaseAgent {
+  key: AgentKey = 'social_pulse';
+  name = 'Social Pulse Agent';
+  description = 'Tracks topic drift, outrage dominance and doom-scrolling across a feed session';
+  icon = '💓';
+  version = '1.0.0';
+
+  // Minimum evidence before session-level claims are made
+  private static readonly MIN_POSTS = 10;
+  private static readonly MIN_SNAPSHOTS = 3;
+
+  private tracker = new FeedSessionTracker();
+  private metrics: FeedSessionMetrics | null = null;
+
+  protected async onInitialize(): Promise<void> {
+    console.log('Initializing Social Pulse Agent...');
+  }
+
+  protected async onShutdown(): Promise<void> {
+    this.tracker.reset();
+    this.metrics = null;
+  }
+
+  canHandle(context: PageContext): boolean {
+    const domain = context.domain.toLowerCase();
+
+    const feedPlatforms = [
+      'facebook.com',
+      'twitter.com',
+      'x.com',
+      'instagram.com',
+      'tiktok.com',
+      'linkedin.com',
+      'reddit.com',
+      'threads.net',
+      'mastodon.social',
+      'bluesky.social',
+      'youtube.com'
+    ];
+
+    return feedPlatforms.some(platform => domain === platform || domain.endsWith('.' + platform));
+  }
+
+  /**
+   * Record the newly scrolled-in posts and report session-level patterns
+   */
+  async detect(context: PageContext): Promise<Detection[]> {
+    if (!this.isEnabled()) {
+      return [];
+    }
+
+    try {
+      const snapshot = this.tracker.record(context);
+      const metrics = this.tracker.getMetrics();
+      this.metrics = metrics;
+
+      console.log(`Social Pulse: ${snapshot.newPosts} new posts, ${metrics.postsSeen} this session over ${metrics.sessionMinutes.toFixed(1)} min`);
+
+      const detections = [
+        this.checkDoomScrolling(metrics, context),
+        this.checkOutrageDominance(metrics, context),
+        this.checkTopicDrift(metrics, context)
+      ].filter((detection): detection is Detection => detection !== null);
+
+      const sensitivity = this.getSensitivity();
+      return detections.filter(detection => detection.score >= this.getThreshold(detection.type) * sensitivity);
+    } catch (error) {
+      console.error('Social Pulse detection failed:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Newly added posts are exactly what the tracker records, so partial contexts go through the same path
+   */
+  async detectIncremental(context: PageContext): Promise<Detection[]> {
+    return this.detect(context);
+  }
+
+  analyze(detections: Detection[]): AnalysisResult {
+    const metrics = this.metrics;
+    const breakdown: Record<string, number> = {};
+
+    detections.forEach(detection => {
+      breakdown[detection.type] = detection.score;
+    });
+
+    if (metrics) {
+      breakdown.session_minutes = Math.round(metrics.sessionMinutes);
+      breakdown.posts_seen = metrics.postsSeen;
+      breakdown.outrage_share = Math.round(metrics.outrageShare * 100);
+      breakdown.topic_drift = Math.round(metrics.topicDrift * 100);
+    }
+
+    if (detections.length === 0) {
+      return {
+        detections,
+        overallScore: 0,
+        riskLevel: 'safe',
+        breakdown,
+        recommendations: {
+          primary: 'Your feed session looks healthy.',
+          actions: []
+        }
+      };
+    }
+
+    const overallScore = this.calculateOverallScore(detections);
+    const riskLevel = this.getRiskLevel(overallScore);
+
+    return {
+      detections,
+      overallScore,
+      riskLevel,
+      breakdown,
+      recommendations: this.generateRecommendations(detections)
+    };
+  }
+
+  render(detection: Detection): OverlaySpec {
+    return {
+      type: 'badge',
+      severity: detection.severity,
+      anchor: {
+        element: document.body,
+        position: 'top',
+        offset: 10
+      },
+      content: {
+        title: detection.title,
+        description: detection.description,
+        details: detection.details,
+        actions: detection.actions
+      },
+      autoHide: true,
+      autoHideDelay: 8000
+    };
+  }
+
+  getSidebarComponent(): any {
+    return null; // Handled by Panel.tsx
+  }
+
+  getDefaultConfig(): AgentConfig {
+    return {
+      enabled: true,
+      sensitivity: 0.7,
+      thresholds: {
+        doom_scrolling: 5,
+        outrage_dominance: 5,
+        topic_drift: 6
+      },
+      domains: {},
+      ui: {
+        showOverlays: true,
+        overlayPosition: 'top',
+        autoHideDelay: 8000
+      }
+    };
+  }
+
+  private checkDoomScrolling(metrics: FeedSessionMetrics, context: PageContext): Detection | null {
+    if (metrics.sessionMinutes < 20 || metrics.snapshots < SocialPulseAgent.MIN_SNAPSHOTS) {
+      return null;
+    }
+
+    const minutes = Math.round(metrics.sessionMinutes);
+    const score = Math.min(10, 5 + Math.floor((metrics.sessionMinutes - 20) / 10));
+
+    return this.createDetection('doom_scrolling', score, context, {
+      title: `⏳ Long Scrolling Session`,
+      description: `You have been scrolling this feed for ${minutes} minutes and seen ${metrics.postsSeen} posts.`,
+      reasoning: 'Infinite feeds are designed to keep you scrolling past the point you meant to stop.',
+      details: [
+        { label: 'Session Length', value: `${minutes} min` },
+        { label: 'Posts Seen', value: String(metrics.postsSeen) }
+      ],
+      confidence: 0.9
+    });
+  }
+
+  private checkOutrageDominance(metrics: FeedSessionMetrics, context: PageContext): Detection | null {
+    if (metrics.postsSeen < SocialPulseAgent.MIN_POSTS || metrics.outrageShare < 0.25) {
+      return null;
+    }
+
+    const percent = Math.round(metrics.outrageShare * 100);
+    const score = Math.min(10, Math.round(metrics.outrageShare * 10) + 3);
+
+    return this.createDetection('outrage_dominance', score, context, {
+      title: `😡 Outrage-Heavy Feed`,
+      description: `${percent}% of the posts you have seen this session use outrage or anger cues.`,
+      reasoning: 'Feeds that reward engagement tend to surface content that provokes anger.',
+      details: [
+        { label: 'Outrage Share', value: `${percent}%` },
+        { label: 'Posts Seen', value: String(metrics.postsSeen) }
+      ],
+      confidence: 0.6
+    });
+  }
+
+  private checkTopicDrift(metrics: FeedSessionMetrics, context: PageContext): Detection | null {
+    if (
+      metrics.snapshots < SocialPulseAgent.MIN_SNAPSHOTS + 1 ||
+      metrics.sessionMinutes < 5 ||
+      metrics.startTopics.length === 0 ||
+      metrics.topicDrift < 0.7
+    ) {
+      return null;
+    }
+
+    const score = Math.min(10, Math.round(metrics.topicDrift * 10) - 1);
+
+    return this.createDetection('topic_drift', score, context, {
+      title: `🧭 Feed Has Drifted`,
+      description: `Your feed has moved away from what you started with this session.`,
+      reasoning: 'Recommendation feeds gradually steer attention toward whatever keeps you engaged.',
+      details: [
+        { label: 'Started With', value: metrics.startTopics.slice(0, 4).join(', ') },
+        { label: 'Now Seeing', value: metrics.currentTopics.slice(0, 4).join(', ') || 'Unclear' },
+        { label: 'Drift', value: `${Math.round(metrics.topicDrift * 100)}%` }
+      ],
+      confidence: 0.5
+    });
+  }
+
+  private createDetection(
+    type: string,
+    score: number,
+    context: PageContext,
+    content: Pick<Detection, 'title' | 'description' | 'reasoning' | 'details' | 'confidence'>
+  ): Detection {
+    const severity = score >= 7 ? 'high' : score >= 5 ? 'medium' : 'low';
+
+    return {
+      id: `${type}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      agentKey: 'social_pulse',
+      type,
+      score,
+      severity,
+      ...content,
+      title: `${content.title} (${severity.toUpperCase()})`,
+      actions: [],
+      timestamp: new Date(),
+      pageUrl: context.url.href
+    };
+  }
+
+  private generateRecommendations(detections: Detection[]): AnalysisResult['recommendations'] {
+    const tips: Record<string, string> = {
+      doom_scrolling: 'Consider taking a break.',
+      outrage_dominance: 'Your feed is leaning on anger - step back before reacting.',
+      topic_drift: 'Check whether this is still what you came here for.'
+    };
+
+    const top = [...detections].sort((a, b) => b.score - a.score)[0];
+
+    return {
+      primary: `💓 ${top.title.replace(/\s*\(.*\)$/, '')}. ${tips[top.type] || ''}`.trim(),
+      actions: [
+        {
+          label: 'Start Fresh Session',
+          icon: '🔄',
+          onClick: () => this.tracker.reset()
+        }
+      ]
+    };
+  }
+}
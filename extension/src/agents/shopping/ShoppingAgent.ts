@@ -12,6 +12,11 @@ import {
   OverlaySpec 
 } from '../base/types';
 import { AIEngineManager } from '../../ai/AIEngineManager';
+import { PageContextBuilder } from '../../core/PageContext';
+import { PriceExtractor } from '../../core/PriceExtractor';
+import { QuantityExtractor } from '../../core/QuantityExtractor';
+import { ReviewAnalyzer } from '../../core/ReviewAnalyzer';
+import { PriceHistory, PriceHistoryStore } from '../../storage/PriceHistoryStore';
 
 // Import detectors
 import { UrgencyDetector } from './detectors/UrgencyDetector';
@@ -20,9 +25,20 @@ import { SocialProofDetector } from './detectors/SocialProofDetector';
 import { FOMODetector } from './detectors/FOMODetector';
 import { BundlingDetector } from './detectors/BundlingDetector';
 import { DarkPatternDetector } from './detectors/DarkPatternDetector';
+import { ScarcityClaimDetector } from './detectors/ScarcityClaimDetector';
+import { DripPricingDetector } from './detectors/DripPricingDetector';
+import { PreselectionDetector } from './detectors/PreselectionDetector';
+import { CancellationFrictionDetector } from './detectors/CancellationFrictionDetector';
+import { ConsentBannerDetector } from './detectors/ConsentBannerDetector';
+import { ReviewTrustDetector } from './detectors/ReviewTrustDetector';
+import { SubscriptionTermsDetector } from './detectors/SubscriptionTermsDetector';
+import { FinePrintDetector } from './detectors/FinePrintDetector';
+import { UnitPriceDetector } from './detectors/UnitPriceDetector';
 
 export interface ShoppingDetector {
   name: string;
+  incremental?: boolean;                // Works block by block, so can rerun on added content alone
+  sitewide?: boolean;                   // Applies to every page, not only shopping pages
   detect(context: PageContext, aiManager: AIEngineManager): Promise<Detection[]>;
 }
 
@@ -35,6 +51,7 @@ export class ShoppingPersuasionAgent extends BaseAgent {
 
   private aiManager: AIEngineManager;
   private detectors: ShoppingDetector[] = [];
+  private shoppingPage = false;         // From the last full pass, for incremental ones
 
   constructor() {
     super();
@@ -54,7 +71,16 @@ export class ShoppingPersuasionAgent extends BaseAgent {
       new SocialProofDetector(),
       new FOMODetector(),
       new BundlingDetector(),
-      new DarkPatternDetector()
+      new DarkPatternDetector(),
+      new ScarcityClaimDetector(),
+      new DripPricingDetector(),
+      new PreselectionDetector(),
+      new CancellationFrictionDetector(),
+      new ConsentBannerDetector(),
+      new ReviewTrustDetector(),
+      new SubscriptionTermsDetector(),
+      new FinePrintDetector(),
+      new UnitPriceDetector()
     ];
 
     console.log(`Shopping Agent initialized with ${this.detectors.length} detectors`);
@@ -66,10 +92,18 @@ export class ShoppingPersuasionAgent extends BaseAgent {
   }
 
   /**
-   * Check if this agent should run on the given page
+   * Check if this agent should run on the given page: shopping pages, and any
+   * page showing a cookie banner, where only the sitewide detectors run
    */
   canHandle(context: PageContext): boolean {
-    console.log('Shopping Agent canHandle check:', {
+    return this.isShoppingPage(context) || ConsentBannerDetector.findBanner() !== null;
+  }
+
+  /**
+   * Check if the page is a product, checkout, subscription or signup page
+   */
+  private isShoppingPage(context: PageContext): boolean {
+    console.log('Shopping Agent page check:', {
       domain: context.domain,
       type: context.metadata.type,
       url: context.url.href
@@ -95,6 +129,30 @@ export class ShoppingPersuasionAgent extends BaseAgent {
       return true;
     }
 
+    // Cart and checkout pages rarely look like product pages
+    if (DripPricingDetector.isCheckoutPage(context)) {
+      console.log('✅ Detected as checkout page');
+      return true;
+    }
+
+    // Account and subscription pages, for how hard cancelling is
+    if (CancellationFrictionDetector.isSubscriptionPage(context)) {
+      console.log('✅ Detected as subscription page');
+      return true;
+    }
+
+    // Sign-up pages offering a trial or intro price
+    if (SubscriptionTermsDetector.hasOffer(context)) {
+      console.log('✅ Detected as subscription offer');
+      return true;
+    }
+
+    // Signup pages, for the terms the user is about to accept
+    if (FinePrintDetector.isSignupPage(context)) {
+      console.log('✅ Detected as signup page');
+      return true;
+    }
+
     // Check content patterns
     const content = context.content.text.toLowerCase();
     const hasShoppingIndicators = [
@@ -124,9 +182,40 @@ export class ShoppingPersuasionAgent extends BaseAgent {
 
     console.log(`Running shopping detection on ${context.url.href}`);
     
+    this.shoppingPage = this.isShoppingPage(context);
+    if (!this.shoppingPage) {
+      return this.runDetectors(this.detectors.filter(detector => detector.sitewide), context);
+    }
+
+    // Record before detecting so AnchoringDetector sees this visit's price
+    await this.recordPriceObservation(context);
+    
+    return this.runDetectors(this.detectors, context);
+  }
+
+  /**
+   * Rerun only block-level detectors on content added after the page was analyzed
+   */
+  async detectIncremental(context: PageContext): Promise<Detection[]> {
+    if (!this.isEnabled()) {
+      return [];
+    }
+
+    // Content loaded after a banner-only pass can still turn the page into a shopping page
+    if (!this.shoppingPage) {
+      this.shoppingPage = this.isShoppingPage(context);
+    }
+
+    return this.runDetectors(
+      this.detectors.filter(detector => detector.incremental && (this.shoppingPage || detector.sitewide)),
+      context
+    );
+  }
+
+  private async runDetectors(detectors: ShoppingDetector[], context: PageContext): Promise<Detection[]> {
     try {
       // Run all detectors in parallel
-      const detectionPromises = this.detectors.map(async (detector) => {
+      const detectionPromises = detectors.map(async (detector) => {
         try {
           const detections = await detector.detect(context, this.aiManager);
           console.log(`${detector.name}: ${detections.length} detections`);
@@ -251,7 +340,7 @@ export class ShoppingPersuasionAgent extends BaseAgent {
       case 'alternatives':
         return this.getAlternatives(detection);
       case 'verify_reviews':
-        return this.verifyReviews(detection);
+        return this.verifyReviews();
       default:
         throw new Error(`Unknown hybrid action: ${action}`);
     }
@@ -270,7 +359,15 @@ export class ShoppingPersuasionAgent extends BaseAgent {
         social_proof: 6,
         fomo: 7,
         bundling: 5,
-        dark_patterns: 8
+        dark_patterns: 8,
+        scarcity_claim: 6,
+        drip_pricing: 5,
+        cancellation_friction: 4,
+        consent_audit: 5,
+        review_trust: 5,
+        subscription_terms: 5,
+        fine_print: 5,
+        unit_price: 5
       },
       domains: {
         whitelist: [], // Run on all domains by default
@@ -285,6 +382,11 @@ export class ShoppingPersuasionAgent extends BaseAgent {
   }
 
   private findAnchorElement(detection: Detection): HTMLElement {
+    // Prefer the element the detector found the text in
+    if (detection.element) {
+      return detection.element;
+    }
+
     // Try to find the most relevant element based on detection type
     let selector = '';
     
@@ -307,6 +409,30 @@ export class ShoppingPersuasionAgent extends BaseAgent {
       case 'dark_patterns':
         selector = 'button, [role="button"], input[type="submit"], [class*="btn"]';
         break;
+      case 'scarcity_claim':
+        selector = '[class*="stock"], [class*="inventory"], [class*="viewing"], [class*="availability"]';
+        break;
+      case 'drip_pricing':
+        selector = '[class*="total"], [class*="summary"], [class*="fee"]';
+        break;
+      case 'cancellation_friction':
+        selector = '[class*="cancel"], [class*="subscription"], [class*="membership"], [class*="plan"]';
+        break;
+      case 'consent_audit':
+        selector = '[id*="cookie" i], [class*="cookie" i], [id*="consent" i], [class*="consent" i]';
+        break;
+      case 'review_trust':
+        selector = '[data-hook="review"], [itemprop="review"], [class*="review"]';
+        break;
+      case 'subscription_terms':
+        selector = '[class*="trial"], [class*="plan"], [class*="pricing"], [class*="subscription"]';
+        break;
+      case 'fine_print':
+        selector = 'a[href*="terms" i], a[href*="return" i], a[href*="refund" i], a[href*="privacy" i]';
+        break;
+      case 'unit_price':
+        selector = '[class*="variant"], [class*="size"], [class*="pack"], [class*="price"]';
+        break;
     }
 
     // Try to find specific element
@@ -376,10 +502,56 @@ export class ShoppingPersuasionAgent extends BaseAgent {
     return { primary, actions };
   }
 
+  /**
+   * Store the product's current price in the local price history
+   */
+  private async recordPriceObservation(context: PageContext): Promise<void> {
+    try {
+      const product = PriceHistoryStore.identify(context);
+      const offer = product && PriceExtractor.extract(context)[0];
+      if (!product || !offer) return;
+
+      const quantity = QuantityExtractor.fromProduct(context);
+      await chrome.runtime.sendMessage({
+        type: 'RECORD_PRICE_OBSERVATION',
+        data: {
+          productId: product.productId,
+          page: PriceHistoryStore.pageKey(context.url.href),
+          name: product.name,
+          amount: offer.current.amount,
+          wasAmount: offer.was?.amount,
+          currency: offer.current.currency,
+          quantity: quantity ? QuantityExtractor.measure(quantity) : undefined,
+          quantityDimension: quantity?.dimension,
+          observedAt: Date.now()
+        }
+      });
+    } catch (error) {
+      console.warn('Failed to record price observation:', error);
+    }
+  }
+
   // Hybrid action implementations
-  private async getPriceHistory(_detection: Detection): Promise<any> {
-    // TODO: Implement in Day 5
-    return { message: 'Price history feature coming soon' };
+  private async getPriceHistory(detection: Detection): Promise<any> {
+    try {
+      const response = await chrome.runtime.sendMessage({
+        type: 'GET_PRICE_HISTORY',
+        data: { url: detection.pageUrl }
+      });
+      const history: PriceHistory | null = response?.history || null;
+
+      if (!history) {
+        return { success: false, error: 'No price history recorded for this product yet' };
+      }
+
+      const latest = history.observations[history.observations.length - 1];
+      return {
+        success: true,
+        data: { history, assessment: PriceHistoryStore.assess(latest, history) }
+      };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
   }
 
   private async getAlternatives(_detection: Detection): Promise<any> {
@@ -387,9 +559,23 @@ export class ShoppingPersuasionAgent extends BaseAgent {
     return { message: 'Alternative products feature coming soon' };
   }
 
-  private async verifyReviews(_detection: Detection): Promise<any> {
-    // TODO: Implement in Day 5
-    return { message: 'Review verification feature coming soon' };
+  private async verifyReviews(): Promise<any> {
+    try {
+      // Computed on the page from its own reviews - nothing is sent anywhere
+      const context = await new PageContextBuilder().build();
+      const corpus = ReviewAnalyzer.extract(context);
+
+      if (corpus.reviews.length === 0) {
+        return { success: false, error: 'No individual reviews found on this page' };
+      }
+
+      return {
+        success: true,
+        data: { report: ReviewAnalyzer.analyze(corpus), aggregate: corpus.aggregate }
+      };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
   }
 
   private findAlternatives(): void {
@@ -400,8 +586,11 @@ export class ShoppingPersuasionAgent extends BaseAgent {
     console.log('Checking price history...');
   }
 
-  private verifyReviewsAction(): void {
-    console.log('Verifying reviews...');
+  private async verifyReviewsAction(): Promise<void> {
+    const result = await this.verifyReviews();
+    alert(result.success
+      ? `⭐ Review Check:\n\n${ReviewAnalyzer.describe(result.data.report)}`
+      : `⭐ Review Check:\n\n${result.error}. Open the full review list and try again.`);
   }
 
   private showEducation(): void {
@@ -5,6 +5,14 @@
 import { PageContext, Detection } from '../../base/types';
 import { AIEngineManager } from '../../../ai/AIEngineManager';
 import { PromptEngine } from '../../../ai/PromptEngine';
+import { PriceExtractor, PriceOffer } from '../../../core/PriceExtractor';
+import { scoredSchema, ScoredResponse } from '../../../ai/ResponseSchema';
+import {
+  PriceHistory,
+  PriceHistoryAssessment,
+  PriceHistoryStore,
+  ReferencePriceCheck
+} from '../../../storage/PriceHistoryStore';
 import { ShoppingDetector } from '../ShoppingAgent';
 
 interface PriceInfo {
@@ -12,13 +20,24 @@ interface PriceInfo {
   original?: number;
   discount?: number;
   discountPercent?: number;
-  currency: string;
+  currency: string;                     // ISO 4217
   text: string;
   element?: HTMLElement;
 }
 
+interface AnchoringResponse extends ScoredResponse {
+  inflated_reference: boolean;
+}
+
 export class AnchoringDetector implements ShoppingDetector {
   name = 'AnchoringDetector';
+  incremental = true;
+
+  private static readonly PROMPT_VERSION = 2;
+  private static readonly DAY_MS = 24 * 60 * 60 * 1000;
+  private static readonly RESPONSE_SCHEMA = scoredSchema({
+    inflated_reference: { type: 'boolean', description: 'Whether the original/reference price looks inflated' }
+  });
 
   async detect(context: PageContext, aiManager: AIEngineManager): Promise<Detection[]> {
     const detections: Detection[] = [];
@@ -31,13 +50,22 @@ export class AnchoringDetector implements ShoppingDetector {
         return detections;
       }
 
-      // Analyze each price for anchoring tactics
-      for (const price of priceInfo) {
-        const detection = await this.analyzePriceAnchoring(price, context, aiManager);
-        if (detection) {
-          detections.push(detection);
-        }
-      }
+      // The stored history belongs to the product the page is about, so only its own offer is checked against it
+      const recorded = this.recordedOffer(context);
+      const history = recorded ? await this.loadPriceHistory(context) : null;
+
+      // Analyze each price for anchoring tactics - the AI scheduler limits concurrency
+      const results = await Promise.all(
+        priceInfo.map(price => this.analyzePriceAnchoring(
+          price,
+          recorded && this.isRecordedOffer(price, recorded) ? history : null,
+          context,
+          aiManager
+        ))
+      );
+      results.forEach(detection => {
+        if (detection) detections.push(detection);
+      });
 
       return detections;
     } catch (error) {
@@ -46,169 +74,48 @@ export class AnchoringDetector implements ShoppingDetector {
     }
   }
 
-  private extractPriceInfo(context: PageContext): PriceInfo[] {
-    const prices: PriceInfo[] = [];
-    const pageText = context.content.text;
-    
-    // Extract prices from text content
-    const pricePatterns = [
-      // USD: $99.99, $1,234.56
-      /\$(\d{1,3}(?:,\d{3})*(?:\.\d{2})?)/g,
-      // INR: ₹99, ₹1,234, ₹12,345.50
-      /₹(\d{1,3}(?:,\d{3})*(?:\.\d{2})?)/g,
-      // EUR: €99.99
-      /€(\d{1,3}(?:,\d{3})*(?:\.\d{2})?)/g,
-      // GBP: £99.99
-      /£(\d{1,3}(?:,\d{3})*(?:\.\d{2})?)/g
-    ];
-
-    const lines = pageText.split('\n').map(line => line.trim()).filter(Boolean);
-    
-    for (const line of lines) {
-      // Skip if line is too long (likely not a price display)
-      if (line.length > 200) continue;
-      
-      const _lowerLine = line.toLowerCase();
-      
-      // Look for pricing patterns
-      for (const pattern of pricePatterns) {
-        const matches = [...line.matchAll(pattern)];
-        
-        for (const match of matches) {
-          const fullMatch = match[0];
-          const currency = fullMatch.charAt(0);
-          const amount = parseFloat(match[1].replace(/,/g, ''));
-          
-          // Determine price type based on context
-          const priceType = this.determinePriceType(line, _lowerLine);
-          
-          if (priceType) {
-            const priceInfo: PriceInfo = {
-              current: priceType === 'current' ? amount : 0,
-              original: priceType === 'original' ? amount : undefined,
-              currency,
-              text: line
-            };
-            
-            // Try to find related prices (was/now patterns)
-            const relatedPrice = this.findRelatedPrice(line, amount, currency);
-            if (relatedPrice) {
-              if (priceType === 'current') {
-                priceInfo.original = relatedPrice;
-              } else {
-                priceInfo.current = relatedPrice;
-              }
-            }
-            
-            // Calculate discount if we have both prices
-            if (priceInfo.current && priceInfo.original && priceInfo.original > priceInfo.current) {
-              priceInfo.discount = priceInfo.original - priceInfo.current;
-              priceInfo.discountPercent = Math.round((priceInfo.discount / priceInfo.original) * 100);
-            }
-            
-            prices.push(priceInfo);
-          }
-        }
-      }
-    }
-
-    // Also extract from DOM elements
-    this.extractPricesFromDOM().forEach(domPrice => {
-      prices.push(domPrice);
-    });
-
-    return this.deduplicatePrices(prices);
+  /**
+   * The offer ShoppingAgent records in the price history - the identified product's
+   * first offer. Incremental passes only see added content, never that offer.
+   */
+  private recordedOffer(context: PageContext): PriceOffer | null {
+    if (context.content.roots || !PriceHistoryStore.identify(context)) return null;
+    return PriceExtractor.extract(context)[0] || null;
   }
 
-  private determinePriceType(_line: string, _lowerLine: string): 'current' | 'original' | null {
-    // Current price indicators
-    const currentIndicators = [
-      'now', 'sale', 'special', 'today', 'current', 'price',
-      'offer', 'deal', 'save', 'reduced'
-    ];
-    
-    // Original price indicators
-    const originalIndicators = [
-      'was', 'originally', 'retail', 'msrp', 'list', 'regular',
-      'before', 'compare', 'worth', 'value'
-    ];
-
-    const hasCurrentIndicator = currentIndicators.some(indicator => 
-      _lowerLine.includes(indicator)
-    );
-    
-    const hasOriginalIndicator = originalIndicators.some(indicator => 
-      _lowerLine.includes(indicator)
-    );
-
-    if (hasOriginalIndicator && !hasCurrentIndicator) return 'original';
-    if (hasCurrentIndicator && !hasOriginalIndicator) return 'current';
-    
-    // Default to current if ambiguous
-    return 'current';
+  private isRecordedOffer(price: PriceInfo, offer: PriceOffer): boolean {
+    if (price.element && offer.element) return price.element === offer.element;
+    return price.currency === offer.current.currency && Math.abs(price.current - offer.current.amount) < 0.01;
   }
 
-  private findRelatedPrice(line: string, currentAmount: number, currency: string): number | null {
-    // Look for was/now patterns in the same line
-    const patterns = [
-      new RegExp(`was\\s*\\${currency}([\\d,]+(?:\\.\\d{2})?)`, 'i'),
-      new RegExp(`\\${currency}([\\d,]+(?:\\.\\d{2})?)\\s*was`, 'i'),
-      new RegExp(`originally\\s*\\${currency}([\\d,]+(?:\\.\\d{2})?)`, 'i'),
-      new RegExp(`retail\\s*\\${currency}([\\d,]+(?:\\.\\d{2})?)`, 'i')
-    ];
-
-    for (const pattern of patterns) {
-      const match = line.match(pattern);
-      if (match) {
-        const amount = parseFloat(match[1].replace(/,/g, ''));
-        if (amount !== currentAmount) {
-          return amount;
-        }
-      }
-    }
+  private extractPriceInfo(context: PageContext): PriceInfo[] {
+    // Only offers with a was/strikethrough price can anchor
+    const prices: PriceInfo[] = PriceExtractor.extract(context)
+      .filter(offer => offer.was)
+      .map(offer => ({
+        current: offer.current.amount,
+        original: offer.was!.amount,
+        discount: offer.discount,
+        discountPercent: offer.discountPercent,
+        currency: offer.current.currency,
+        text: offer.text,
+        element: offer.element
+      }));
 
-    return null;
+    return this.deduplicatePrices(prices);
   }
 
-  private extractPricesFromDOM(): PriceInfo[] {
-    const prices: PriceInfo[] = [];
-    
-    // Common price selectors
-    const selectors = [
-      '[class*="price"]',
-      '[class*="cost"]',
-      '[class*="amount"]',
-      '[data-price]',
-      '.price-current',
-      '.price-original',
-      '.price-was',
-      '.price-now',
-      '.sale-price',
-      '.regular-price'
-    ];
-
-    selectors.forEach(selector => {
-      const elements = document.querySelectorAll(selector) as NodeListOf<HTMLElement>;
-      
-      elements.forEach(element => {
-        const text = element.textContent || '';
-        const priceMatch = text.match(/[₹$€£](\d{1,3}(?:,\d{3})*(?:\.\d{2})?)/);
-        
-        if (priceMatch) {
-          const currency = priceMatch[0].charAt(0);
-          const amount = parseFloat(priceMatch[1].replace(/,/g, ''));
-          
-          prices.push({
-            current: amount,
-            currency,
-            text,
-            element
-          });
-        }
+  private async loadPriceHistory(context: PageContext): Promise<PriceHistory | null> {
+    try {
+      const response = await chrome.runtime.sendMessage({
+        type: 'GET_PRICE_HISTORY',
+        data: { url: context.url.href }
       });
-    });
-
-    return prices;
+      return response?.history || null;
+    } catch (error) {
+      console.warn('AnchoringDetector could not load price history:', error);
+      return null;
+    }
   }
 
   private deduplicatePrices(prices: PriceInfo[]): PriceInfo[] {
@@ -236,6 +143,7 @@ export class AnchoringDetector implements ShoppingDetector {
 
   private async analyzePriceAnchoring(
     price: PriceInfo,
+    history: PriceHistory | null,
     context: PageContext,
     aiManager: AIEngineManager
   ): Promise<Detection | null> {
@@ -245,17 +153,29 @@ export class AnchoringDetector implements ShoppingDetector {
         return null;
       }
 
+      // Observed history is hard evidence - no need to ask the model
+      const reference = PriceHistoryStore.verifyReference({ amount: price.original, currency: price.currency }, history);
+      if (reference && (reference.verdict === 'never_observed' || reference.verdict === 'short_window')) {
+        return this.inflatedReferenceDetection(price, reference, context);
+      }
+
       // Use AI to analyze the pricing
-      const prompt = `${PromptEngine.prompts.anchoring}\n\nPricing: "${price.text}"\nCurrent: ${price.currency}${price.current}\nOriginal: ${price.currency}${price.original}\nDiscount: ${price.discountPercent}%`;
+      const prompt = `${PromptEngine.prompts.anchoring}\n\nPricing: "${price.text}"\nCurrent: ${this.formatPrice(price.current, price)}\nOriginal: ${this.formatPrice(price.original, price)}\nDiscount: ${price.discountPercent}%`;
       
-      const aiResult = await aiManager.prompt.detect({
+      const aiResult = await aiManager.runPrompt<AnchoringResponse>({
         prompt,
-        context: `Page: ${context.url.href}, Discount: ${price.discountPercent}%`
-      });
+        schema: AnchoringDetector.RESPONSE_SCHEMA,
+        cacheKey: { detector: this.name, snippet: price.text, version: AnchoringDetector.PROMPT_VERSION }
+      }, { priority: aiManager.priorityFor(price.element), label: this.name });
+
+      if (!aiResult.ok) {
+        console.warn(`⚠️ AnchoringDetector prompt failed, scoring without AI: ${aiResult.error}`);
+      }
 
       // Analyze discount suspiciousness
-      const suspiciousFactors = this.analyzeSuspiciousFactors(price);
-      const score = this.calculateAnchoringScore(price, suspiciousFactors, aiResult.text);
+      const assessment = PriceHistoryStore.assess({ amount: price.current, currency: price.currency }, history);
+      const suspiciousFactors = this.analyzeSuspiciousFactors(price, assessment);
+      const score = this.calculateAnchoringScore(price, suspiciousFactors, assessment, aiResult.ok ? aiResult.data : null);
 
       if (score < 4) return null;
 
@@ -269,19 +189,21 @@ export class AnchoringDetector implements ShoppingDetector {
         severity,
         title: this.generateTitle(price, severity),
         description: this.generateDescription(price, suspiciousFactors),
-        reasoning: aiResult.reasoning || 'Price anchoring analysis',
+        reasoning: aiResult.ok ? aiResult.data.reasoning : 'Price anchoring analysis (without AI)',
+        element: price.element,
         details: [
-          { label: 'Current Price', value: `${price.currency}${price.current}` },
-          { label: 'Original Price', value: `${price.currency}${price.original}` },
-          { label: 'Discount', value: `${price.discountPercent}% (${price.currency}${price.discount})` },
-          { label: 'Suspicious Factors', value: suspiciousFactors.join(', ') }
+          { label: 'Current Price', value: this.formatPrice(price.current, price) },
+          { label: 'Original Price', value: this.formatPrice(price.original, price) },
+          { label: 'Discount', value: `${price.discountPercent}% (${this.formatPrice(price.discount, price)})` },
+          { label: 'Suspicious Factors', value: suspiciousFactors.join(', ') },
+          ...(history ? [{ label: 'Price History', value: this.describeHistory(price, history) }] : [])
         ],
         actions: [
           {
             label: 'Check Price History',
             variant: 'primary',
             icon: '📊',
-            onClick: () => this.checkPriceHistory(price)
+            onClick: () => this.checkPriceHistory(price, history)
           },
           {
             label: 'Compare Prices',
@@ -290,7 +212,7 @@ export class AnchoringDetector implements ShoppingDetector {
             onClick: () => this.comparePrices(price)
           }
         ],
-        confidence: aiResult.confidence,
+        confidence: aiResult.ok ? 0.8 : 0.5,
         timestamp: new Date(),
         pageUrl: context.url.href,
         learnMoreUrl: 'https://cognitivesense.app/learn/price-anchoring'
@@ -301,11 +223,81 @@ export class AnchoringDetector implements ShoppingDetector {
     }
   }
 
-  private analyzeSuspiciousFactors(price: PriceInfo): string[] {
+  /**
+   * The claimed original price was never charged, or only briefly before the sale
+   */
+  private inflatedReferenceDetection(
+    price: PriceInfo,
+    reference: ReferencePriceCheck,
+    context: PageContext
+  ): Detection {
+    const neverObserved = reference.verdict === 'never_observed';
+    const score = neverObserved ? 9 : 8;
+    const original = this.formatPrice(price.original, price);
+    const trackedDays = Math.round((reference.lastSeen - reference.firstSeen) / AnchoringDetector.DAY_MS);
+
+    const description = neverObserved
+      ? `The "original" price of ${original} was never charged in ${trackedDays} days of tracking. ` +
+        `This product usually sells for around ${this.formatPrice(reference.observedMedian, price)}.`
+      : `The "original" price of ${original} was only charged for ` +
+        `${this.formatDuration(reference.referenceUntil! - reference.referenceFirstSeen!)} before this sale, ` +
+        'which can be done to make the discount look bigger.';
+
+    return {
+      id: `anchoring_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      agentKey: 'shopping_persuasion',
+      type: 'anchoring',
+      score,
+      severity: 'high',
+      title: `⚠️ Inflated Reference Price (${price.discountPercent}% off)`,
+      description,
+      reasoning: `Compared against ${reference.observations} prices recorded on this device between ` +
+        `${this.formatDate(reference.firstSeen)} and ${this.formatDate(reference.lastSeen)}`,
+      element: price.element,
+      details: [
+        { label: 'Type', value: 'inflated reference price' },
+        { label: 'Claimed Original', value: original },
+        { label: 'Current Price', value: this.formatPrice(price.current, price) },
+        { label: 'Observed Low', value: this.formatPrice(reference.observedMin, price) },
+        { label: 'Observed Median', value: this.formatPrice(reference.observedMedian, price) },
+        {
+          label: 'Original Price Charged',
+          value: neverObserved
+            ? 'Never seen'
+            : `${this.formatDate(reference.referenceFirstSeen!)} – ${this.formatDate(reference.referenceUntil!)}`
+        },
+        {
+          label: 'Dates Seen',
+          value: `${this.formatDate(reference.firstSeen)} – ${this.formatDate(reference.lastSeen)} (${reference.observations} prices)`
+        }
+      ],
+      actions: [
+        {
+          label: 'Compare Prices',
+          variant: 'primary',
+          icon: '🔍',
+          onClick: () => this.comparePrices(price)
+        }
+      ],
+      confidence: neverObserved ? 0.9 : 0.8,
+      timestamp: new Date(),
+      pageUrl: context.url.href,
+      learnMoreUrl: 'https://cognitivesense.app/learn/price-anchoring'
+    };
+  }
+
+  private analyzeSuspiciousFactors(price: PriceInfo, assessment: PriceHistoryAssessment): string[] {
     const factors: string[] = [];
     
     if (!price.discountPercent) return factors;
 
+    // A "discount" that isn't below what this product already cost
+    if (assessment.notLower && assessment.lowestPrior) {
+      factors.push(
+        `Price was ${this.formatPrice(assessment.lowestPrior.amount, price)} on ${this.formatDate(assessment.lowestPrior.observedAt)}`
+      );
+    }
+
     // Very high discount percentages are suspicious
     if (price.discountPercent >= 70) {
       factors.push('Extremely high discount');
@@ -340,7 +332,8 @@ export class AnchoringDetector implements ShoppingDetector {
   private calculateAnchoringScore(
     price: PriceInfo,
     suspiciousFactors: string[],
-    aiResponse: string
+    assessment: PriceHistoryAssessment,
+    aiResponse: AnchoringResponse | null
   ): number {
     let score = 0;
 
@@ -356,14 +349,18 @@ export class AnchoringDetector implements ShoppingDetector {
     // Add points for suspicious factors
     score += suspiciousFactors.length * 1.5;
 
-    // AI response analysis
-    const lowerResponse = aiResponse.toLowerCase();
-    if (lowerResponse.includes('suspicious') || lowerResponse.includes('misleading')) {
-      score += 2;
+    // Seen at this price or lower before - the strongest evidence we have
+    if (assessment.notLower) {
+      score += 3;
     }
-    if (lowerResponse.includes('artificial') || lowerResponse.includes('inflated')) {
+
+    // AI assessment
+    if (aiResponse?.inflated_reference) {
       score += 3;
     }
+    if (aiResponse && aiResponse.score >= 7) {
+      score += 2;
+    }
 
     return Math.min(10, Math.round(score));
   }
@@ -416,9 +413,10 @@ export class AnchoringDetector implements ShoppingDetector {
       title: this.generateTitle(price, severity),
       description: `${price.discountPercent}% discount detected. High discounts may indicate price anchoring tactics.`,
       reasoning: 'Pattern-based price anchoring detection',
+      element: price.element,
       details: [
         { label: 'Discount', value: `${price.discountPercent}%` },
-        { label: 'Current Price', value: `${price.currency}${price.current}` }
+        { label: 'Current Price', value: this.formatPrice(price.current, price) }
       ],
       actions: [
         {
@@ -434,13 +432,43 @@ export class AnchoringDetector implements ShoppingDetector {
     };
   }
 
-  private checkPriceHistory(_price: PriceInfo): void {
-    // TODO: Implement hybrid price history check
+  private formatPrice(amount: number | undefined, price: PriceInfo): string {
+    return amount === undefined ? 'unknown' : PriceExtractor.format(amount, price.currency);
+  }
+
+  private describeHistory(price: PriceInfo, history: PriceHistory): string {
+    const first = history.observations[0];
+    const range = history.lowest === history.highest
+      ? this.formatPrice(history.lowest, price)
+      : `${this.formatPrice(history.lowest, price)} – ${this.formatPrice(history.highest, price)}`;
+
+    return `${range} over ${history.observations.length} visit(s) since ${this.formatDate(first.observedAt)}`;
+  }
+
+  private formatDate(timestamp: number): string {
+    return new Date(timestamp).toLocaleDateString();
+  }
+
+  private formatDuration(ms: number): string {
+    const days = Math.round(ms / AnchoringDetector.DAY_MS);
+    return days < 1 ? 'less than a day' : `${days} day${days === 1 ? '' : 's'}`;
+  }
+
+  private checkPriceHistory(price: PriceInfo, history: PriceHistory | null): void {
+    if (history && history.observations.length > 1) {
+      const lines = history.observations
+        .slice(-8)
+        .map(observation => `• ${this.formatDate(observation.observedAt)}: ${this.formatPrice(observation.amount, price)}`);
+
+      alert(`📊 Price History (seen on this device):\n\n${lines.join('\n')}\n\nLowest: ${this.formatPrice(history.lowest, price)}\nHighest: ${this.formatPrice(history.highest, price)}\nNow: ${this.formatPrice(price.current, price)}\n\nOpen the CognitiveSense side panel for the full chart.`);
+      return;
+    }
+
     alert(`💡 Price History Check:\n\nResearch this product's price history on sites like:\n• Google Shopping\n• PriceGrabber\n• Shopping comparison sites\n\nLook for the typical selling price over the past 3-6 months.`);
   }
 
   private comparePrices(price: PriceInfo): void {
     // TODO: Implement price comparison
-    alert(`💡 Price Comparison:\n\nCompare this price on:\n• Amazon\n• Other major retailers\n• Price comparison websites\n• Manufacturer's official site\n\nCurrent price: ${price.currency}${price.current}\nClaimed original: ${price.currency}${price.original}`);
+    alert(`💡 Price Comparison:\n\nCompare this price on:\n• Amazon\n• Other major retailers\n• Price comparison websites\n• Manufacturer's official site\n\nCurrent price: ${this.formatPrice(price.current, price)}\nClaimed original: ${this.formatPrice(price.original, price)}`);
   }
 }
@@ -2,13 +2,26 @@
  * BundlingDetector - Detects forced bundling and hidden cost tactics
  */
 
-import { PageContext, Detection } from '../../base/types';
+import { PageContext, Detection, TextBlock } from '../../base/types';
 import { AIEngineManager } from '../../../ai/AIEngineManager';
+import { scoredSchema, ScoredResponse } from '../../../ai/ResponseSchema';
+import { ruleEngine } from '../../../rules/RuleEngine';
+import { PriceExtractor } from '../../../core/PriceExtractor';
 import { Debug } from '../../../utils/Debug';
 import { ShoppingDetector } from '../ShoppingAgent';
 
+const BUNDLING_TYPES = ['forced_bundle', 'hidden_costs', 'subscription_trap', 'upsell_pressure', 'addon_manipulation'] as const;
+
+interface BundlingResponse extends ScoredResponse {
+  type: typeof BUNDLING_TYPES[number];
+}
+
 export class BundlingDetector implements ShoppingDetector {
   name = 'BundlingDetector';
+  incremental = true;
+
+  private static readonly PROMPT_VERSION = 2;
+  private static readonly RESPONSE_SCHEMA = scoredSchema({ type: { type: 'string', enum: BUNDLING_TYPES } });
 
   async detect(context: PageContext, aiManager: AIEngineManager): Promise<Detection[]> {
     const detections: Detection[] = [];
@@ -16,8 +29,7 @@ export class BundlingDetector implements ShoppingDetector {
     try {
       Debug.debug('🔍 BundlingDetector: Starting detection...');
       
-      const pageText = context.content.text;
-      const bundlingPatterns = this.findBundlingPatterns(pageText);
+      const bundlingPatterns = this.findBundlingPatterns(context.content.blocks);
       
       Debug.debug(`📊 Found ${bundlingPatterns.length} potential bundling tactics`);
       
@@ -45,55 +57,59 @@ export class BundlingDetector implements ShoppingDetector {
     }
   }
 
-  private findBundlingPatterns(text: string): string[] {
-    const patterns: string[] = [];
-    const lines = text.split('\n').filter(line => line.trim().length > 0);
+  private findBundlingPatterns(blocks: TextBlock[]): TextBlock[] {
+    const patterns: TextBlock[] = [];
+    const seen = new Set<string>();
 
-    for (const line of lines) {
-      const lowerLine = line.toLowerCase();
+    for (const block of blocks) {
+      if (!block.visible || seen.has(block.text)) continue;
+      seen.add(block.text);
+      const lowerLine = block.text.toLowerCase();
       
       // Forced bundle patterns
       if (/bundle|combo|package|set/.test(lowerLine) && 
           /(?:buy|get|purchase).*(?:together|all)/.test(lowerLine)) {
-        patterns.push(line);
+        patterns.push(block);
         continue;
       }
       
       // Hidden costs patterns
       if (/(?:\+|plus|additional).*(?:shipping|fee|tax|charge|cost)/.test(lowerLine)) {
-        patterns.push(line);
+        patterns.push(block);
         continue;
       }
       
       // Subscription trap patterns
       if (/(?:auto|automatic).*(?:renew|bill|charge|subscription)/.test(lowerLine) ||
           /free.*trial.*then/.test(lowerLine)) {
-        patterns.push(line);
+        patterns.push(block);
         continue;
       }
       
       // Upsell pressure patterns
-      if (/(?:add|upgrade|complete).*(?:only|just).*\$/.test(lowerLine) ||
+      if ((/(?:add|upgrade|complete).*(?:only|just)/.test(lowerLine) && PriceExtractor.findPrices(block.text).length > 0) ||
           /(?:frequently|also).*bought.*together/.test(lowerLine)) {
-        patterns.push(line);
+        patterns.push(block);
         continue;
       }
       
       // Add-on manipulation patterns
       if (/(?:protection|warranty|insurance).*(?:plan|coverage)/.test(lowerLine) ||
           /(?:highly|strongly).*recommended/.test(lowerLine)) {
-        patterns.push(line);
+        patterns.push(block);
       }
     }
 
-    return [...new Set(patterns)]; // Remove duplicates
+    return patterns;
   }
 
   private async analyzeBundling(
-    content: string,
+    block: TextBlock,
     context: PageContext,
     aiManager: AIEngineManager
   ): Promise<Detection | null> {
+    const content = block.text;
+
     try {
       Debug.apiCall('Prompt', 'start');
       
@@ -103,27 +119,29 @@ export class BundlingDetector implements ShoppingDetector {
 Rate the manipulation severity (0-10):
 - 0-3: Not manipulative
 - 4-6: Moderate bundling/upsell pressure
-- 7-10: Aggressive forced bundling or hidden costs
+- 7-10: Aggressive forced bundling or hidden costs`;
 
-Respond with: SCORE: [0-10], TYPE: [forced_bundle|hidden_costs|subscription_trap|upsell_pressure|addon_manipulation]`;
-
-      const result = await aiManager.prompt.detect({
+      const result = await aiManager.runPrompt<BundlingResponse>({
         prompt,
-        context: `Page: ${context.url.href}`
-      });
-
-      Debug.apiCall('Prompt', 'success');
+        schema: BundlingDetector.RESPONSE_SCHEMA,
+        cacheKey: { detector: this.name, snippet: content, version: BundlingDetector.PROMPT_VERSION }
+      }, { priority: aiManager.priorityFor(block.element), label: this.name });
+
+      if (result.ok) {
+        Debug.apiCall('Prompt', 'success');
+      } else {
+        Debug.apiCall('Prompt', 'error', result.error);
+      }
 
-      // Parse score from response
-      const scoreMatch = result.text.match(/SCORE:\s*(\d+)/i);
-      const typeMatch = result.text.match(/TYPE:\s*(\w+)/i);
-      
-      const score = scoreMatch ? parseInt(scoreMatch[1]) : 5;
-      const type = typeMatch ? typeMatch[1].toLowerCase() : 'forced_bundle';
+      // Without a valid response, score from the deterministic ruleset
+      const rules = ruleEngine.evaluate('bundling', content);
+      const score = result.ok ? result.data.score : rules.score;
+      const type = result.ok ? result.data.type : rules.subtype ?? 'forced_bundle';
 
       if (score < 4) return null;
 
       const severity = score >= 7 ? 'high' : score >= 5 ? 'medium' : 'low';
+      const addedCost = PriceExtractor.findPrices(content, context)[0];
 
       return {
         id: `bundling_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
@@ -133,14 +151,17 @@ Respond with: SCORE: [0-10], TYPE: [forced_bundle|hidden_costs|subscription_trap
         severity,
         title: `⚠️ ${this.getTitleForType(type)} (${severity.toUpperCase()})`,
         description: `Potential bundling or hidden cost tactic detected: ${content.substring(0, 100)}...`,
-        reasoning: result.text,
+        reasoning: result.ok ? result.data.reasoning : ruleEngine.explain(rules),
+        element: block.element,
         details: [
           { label: 'Type', value: type },
           { label: 'Severity', value: severity },
-          { label: 'Content', value: content.substring(0, 80) + (content.length > 80 ? '...' : '') }
+          ...(addedCost ? [{ label: 'Price Mentioned', value: PriceExtractor.format(addedCost.amount, addedCost.currency) }] : []),
+          { label: 'Content', value: content.substring(0, 80) + (content.length > 80 ? '...' : '') },
+          ...(result.ok ? [] : ruleEngine.evidenceDetails(rules))
         ],
         actions: [],
-        confidence: 0.8,
+        confidence: result.ok ? 0.8 : 0.5,
         timestamp: new Date(),
         pageUrl: context.url.href
       };
@@ -0,0 +1,202 @@
+/**
+ * CancellationFrictionDetector - Scores how hard account and subscription pages make cancelling
+ *
+ * Compares the cancel path with the signup path on the same page: how visible each
+ * control is, where it sits, and whether cancelling needs a call, chat or letter.
+ */
+
+import { PageContext, Detection } from '../../base/types';
+import { AIEngineManager } from '../../../ai/AIEngineManager';
+import { VisualWeight, VisualWeightInfo } from '../../../core/VisualWeight';
+import { ruleEngine } from '../../../rules/RuleEngine';
+import { Debug } from '../../../utils/Debug';
+import { ShoppingDetector } from '../ShoppingAgent';
+
+interface FrictionFactor {
+  label: string;
+  value: string;
+  points: number;
+}
+
+export class CancellationFrictionDetector implements ShoppingDetector {
+  name = 'CancellationFrictionDetector';
+
+  private static readonly PAGE_PATH = /\/(account|subscriptions?|membership|billing|plans?|settings|manage|my-?account|profile)(\/|$|\?|-)/i;
+  // Facts about a live subscription. "Your plan" alone is also pricing-page copy
+  private static readonly LIVE_TEXT =
+    /\bnext (billing|payment|renewal|charge) (date|on)\b|\b(auto-?)?renews on\b|\bmember since\b|\b(your|my) (subscription|membership) (is active|renews|will renew|expires|ends)\b/i;
+  private static readonly CANCEL_TEXT =
+    /\bunsubscribe\b|\b(cancel|end|stop|close|terminate)\b.{0,20}\b(subscription|membership|plan|account|auto-?renew(al)?|trial)\b|\bturn off auto-?renew/i;
+  private static readonly SIGNUP_TEXT =
+    /\b(subscribe|sign up|start (your )?(free )?trial|join( now)?|upgrade|get started|start membership|renew now)\b/i;
+  private static readonly CONTROLS = 'a, button, [role="button"], [role="link"], input[type="submit"], input[type="button"]';
+  private static readonly COLLAPSED = 'details:not([open]), [aria-hidden="true"], [hidden], [aria-expanded="false"] + *';
+
+  // Below this the page isn't obstructive enough to report
+  private static readonly MIN_FRICTION = 30;
+
+  async detect(context: PageContext, _aiManager: AIEngineManager): Promise<Detection[]> {
+    try {
+      if (!CancellationFrictionDetector.isSubscriptionPage(context)) return [];
+      const active = CancellationFrictionDetector.LIVE_TEXT.test(context.content.text);
+
+      const controls = Array.from(document.querySelectorAll<HTMLElement>(CancellationFrictionDetector.CONTROLS))
+        .filter(element => !element.closest('[id^="cognitive-sense"]'));
+
+      const cancelElements = controls.filter(element => CancellationFrictionDetector.CANCEL_TEXT.test(this.controlText(element)));
+      const cancel = cancelElements
+        .map(element => VisualWeight.measure(element))
+        .filter((info): info is VisualWeightInfo => info !== null)
+        .sort((a, b) => b.area - a.area)[0] || null;
+
+      // A settings page with no subscription on it has nothing to cancel
+      if (!active && cancelElements.length === 0) return [];
+
+      const signup = controls
+        .filter(element => CancellationFrictionDetector.SIGNUP_TEXT.test(this.controlText(element)))
+        .map(element => VisualWeight.measure(element))
+        .filter((info): info is VisualWeightInfo => info !== null)
+        .sort((a, b) => b.area - a.area)[0] || null;
+
+      const factors = this.assessFriction(context, cancel, cancelElements, signup, active);
+      const friction = Math.min(100, factors.reduce((sum, factor) => sum + factor.points, 0));
+
+      Debug.debug(`🚪 CancellationFrictionDetector: friction ${friction}/100 (${factors.length} factors)`);
+
+      if (friction < CancellationFrictionDetector.MIN_FRICTION) return [];
+      return [this.createDetection(friction, factors, cancel, signup, context)];
+    } catch (error) {
+      Debug.error('CancellationFrictionDetector failed', error);
+      return [];
+    }
+  }
+
+  /**
+   * Account pages showing the user's own subscription or offering to cancel one
+   */
+  static isSubscriptionPage(context: PageContext): boolean {
+    return this.PAGE_PATH.test(context.url.pathname) &&
+      (this.LIVE_TEXT.test(context.content.text) || this.CANCEL_TEXT.test(context.content.text));
+  }
+
+  private assessFriction(
+    context: PageContext,
+    cancel: VisualWeightInfo | null,
+    cancelElements: HTMLElement[],
+    signup: VisualWeightInfo | null,
+    active: boolean
+  ): FrictionFactor[] {
+    const factors: FrictionFactor[] = [];
+
+    if (!cancel) {
+      if (cancelElements.length > 0) {
+        factors.push({ label: 'Cancel Option', value: 'only inside a collapsed menu or hidden section', points: 25 });
+      } else if (active) {
+        // Only a page showing a live subscription can be faulted for offering no way out
+        factors.push({ label: 'Cancel Option', value: 'none on this page', points: 40 });
+      }
+
+      if (signup?.filled) {
+        factors.push({ label: 'Signup Option', value: `"${signup.text}" is a prominent button`, points: 10 });
+      }
+    } else {
+      if (cancel.fontSize > 0 && (cancel.fontSize < 12 || (signup && cancel.fontSize <= signup.fontSize * 0.75))) {
+        factors.push({
+          label: 'Text Size',
+          value: signup ? `cancel ${cancel.fontSize}px vs signup ${signup.fontSize}px` : `cancel ${cancel.fontSize}px`,
+          points: 10
+        });
+      }
+
+      if (cancel.contrast < 4.5) {
+        factors.push({ label: 'Contrast', value: `cancel link ${cancel.contrast.toFixed(1)}:1`, points: cancel.contrast < 3 ? 10 : 5 });
+      }
+
+      if (signup) {
+        if (signup.filled && !cancel.filled) {
+          factors.push({ label: 'Style', value: `"${signup.text}" is a button, "${cancel.text}" is plain text`, points: 10 });
+        }
+        if (signup.area >= cancel.area * 4) {
+          factors.push({ label: 'Size', value: `signup is ${(signup.area / cancel.area).toFixed(1)}× larger`, points: 10 });
+        }
+      }
+
+      const depth = this.pageDepth(cancel.element);
+      if (cancel.element.closest('footer, [role="contentinfo"]') || depth >= 0.8) {
+        factors.push({ label: 'Position', value: `near the bottom of the page (${Math.round(depth * 100)}% down)`, points: 10 });
+      }
+
+      if (cancel.element.closest(CancellationFrictionDetector.COLLAPSED)) {
+        factors.push({ label: 'Position', value: 'inside a collapsed section', points: 10 });
+      }
+    }
+
+    // Contact requirements are stated in text, wherever the link is
+    const rules = ruleEngine.evaluate('cancellation', context.content.text);
+    rules.matches.forEach(match => factors.push({
+      label: 'Requirement',
+      value: `${match.description}: "${match.evidence}"`,
+      points: match.weight * 5
+    }));
+
+    return factors;
+  }
+
+  private createDetection(
+    friction: number,
+    factors: FrictionFactor[],
+    cancel: VisualWeightInfo | null,
+    signup: VisualWeightInfo | null,
+    context: PageContext
+  ): Detection {
+    const score = Math.max(1, Math.round(friction / 10));
+    const severity = score >= 7 ? 'high' : score >= 5 ? 'medium' : 'low';
+    const level = friction >= 70 ? 'High' : friction >= 50 ? 'Moderate' : 'Some';
+
+    return {
+      id: `cancellation_friction_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      agentKey: 'shopping_persuasion',
+      type: 'cancellation_friction',
+      score,
+      severity,
+      title: `⚠️ ${level} Cancellation Friction (${friction}/100)`,
+      description: cancel
+        ? `Cancelling is made harder than signing up: ${factors.map(factor => factor.value).slice(0, 3).join('; ')}.`
+        : `This subscription page has no visible way to cancel${signup ? `, while "${signup.text}" is easy to find` : ''}.`,
+      reasoning: `Cancellation friction score from ${factors.length} factors: ${factors.map(factor => `${factor.label.toLowerCase()} (+${factor.points})`).join(', ')}`,
+      element: cancel?.element ?? signup?.element,
+      details: [
+        { label: 'Friction Score', value: `${friction}/100` },
+        ...factors.map(({ label, value }) => ({ label, value }))
+      ],
+      metrics: { friction },
+      actions: cancel
+        ? [{
+            label: 'Show Cancel Link',
+            variant: 'primary',
+            icon: '🚪',
+            onClick: () => cancel.element.scrollIntoView({ behavior: 'smooth', block: 'center' })
+          }]
+        : [],
+      confidence: cancel ? 0.8 : 0.65,
+      timestamp: new Date(),
+      pageUrl: context.url.href,
+      learnMoreUrl: 'https://cognitivesense.app/learn/dark-patterns'
+    };
+  }
+
+  private controlText(element: HTMLElement): string {
+    return (element.textContent || (element as HTMLInputElement).value || element.getAttribute('aria-label') || '')
+      .replace(/\s+/g, ' ')
+      .trim()
+      .slice(0, 100);
+  }
+
+  /**
+   * 0 at the top of the document, 1 at the bottom
+   */
+  private pageDepth(element: HTMLElement): number {
+    const height = document.documentElement.scrollHeight || 1;
+    return Math.min(1, (element.getBoundingClientRect().top + window.scrollY) / height);
+  }
+}
@@ -0,0 +1,298 @@
+/**
+ * ConsentBannerDetector - Audits cookie consent banners
+ *
+ * Recognises common consent management platforms (and generic cookie banners),
+ * then checks the first layer for a reject option, counts the clicks needed to
+ * refuse everything, and lists purposes or legitimate-interest toggles that
+ * were switched on before the user touched anything.
+ */
+
+import { PageContext, Detection } from '../../base/types';
+import { AIEngineManager } from '../../../ai/AIEngineManager';
+import { PageContextBuilder } from '../../../core/PageContext';
+import { Debug } from '../../../utils/Debug';
+import { ShoppingDetector } from '../ShoppingAgent';
+
+export interface ConsentBanner {
+  element: HTMLElement;
+  platform: string;
+  settingsLayer?: HTMLElement;          // Preference centre, often rendered hidden up front
+}
+
+interface ConsentToggle {
+  element: HTMLElement;
+  label: string;
+  legitimateInterest: boolean;
+}
+
+interface ConsentAudit {
+  banner: ConsentBanner;
+  accept?: HTMLElement;
+  reject?: HTMLElement;
+  settings?: HTMLElement;
+  rejectAtFirstLayer: boolean;
+  clicksToReject: number | null;        // null when there is no way to refuse at all
+  clicksExact: boolean;                 // False when the second layer couldn't be inspected
+  preTicked: ConsentToggle[];
+}
+
+export class ConsentBannerDetector implements ShoppingDetector {
+  name = 'ConsentBannerDetector';
+  incremental = true;
+  sitewide = true;
+
+  // [platform, first layer, preference centre]
+  private static readonly PLATFORMS: Array<[string, string, string?]> = [
+    ['OneTrust', '#onetrust-banner-sdk', '#onetrust-pc-sdk'],
+    ['Cookiebot', '#CybotCookiebotDialog', '#CybotCookiebotDialogTabContentDetails'],
+    ['Quantcast Choice', '.qc-cmp2-container, #qc-cmp2-ui', '.qc-cmp2-scrollable-section'],
+    ['Didomi', '#didomi-popup, #didomi-notice', '.didomi-consent-popup-preferences'],
+    ['Google Funding Choices', '.fc-consent-root', '.fc-preference-consent-options'],
+    ['TrustArc', '#truste-consent-track', '#truste-consent-content'],
+    ['consentmanager', '#cmpbox', '#cmpbox2'],
+    ['Osano', '.osano-cm-dialog', '.osano-cm-info'],
+    ['iubenda', '#iubenda-cs-banner', '#iubenda-cs-preferences'],
+    ['Complianz', '.cmplz-cookiebanner', '.cmplz-categories'],
+    ['CookieYes', '.cky-consent-container', '.cky-preference-center'],
+    ['CookieLawInfo', '#cookie-law-info-bar', '#cliSettingsPopup'],
+    ['Borlabs', '#BorlabsCookieBox', '#BorlabsCookieBox ._brlbs-bar-wrap'],
+    ['Klaro', '.klaro .cookie-notice, .klaro .cookie-modal', '.klaro .cm-modal'],
+    ['tarteaucitron', '#tarteaucitronAlertBig', '#tarteaucitron'],
+    ['Cookie Consent', '.cc-window, .cc-banner', undefined]
+  ];
+  private static readonly GENERIC_CONTAINERS = [
+    '[id*="cookie" i]', '[class*="cookie" i]', '[id*="consent" i]', '[class*="consent" i]',
+    '[id*="gdpr" i]', '[class*="gdpr" i]', '[aria-label*="cookie" i]', '[aria-label*="consent" i]'
+  ].join(', ');
+  private static readonly DIALOG = 'dialog, [role="dialog"], [role="alertdialog"], [aria-modal="true"]';
+  private static readonly CONSENT_TEXT = /\bcookies?\b|\bconsent\b|\bpersonal data\b|\bour partners\b|\blegitimate interest/i;
+  private static readonly CONTROLS = 'button, a, [role="button"], input[type="submit"], input[type="button"]';
+
+  private static readonly ACCEPT_TEXT = /\b(accept|allow|agree|i agree|got it|ok(ay)?|consent|continue)\b/i;
+  private static readonly REJECT_TEXT =
+    /\b(reject|decline|refuse|deny|disagree|do not (accept|consent|agree))\b|\b(only|strictly) (necessary|essential|required)\b|\b(necessary|essential|required) (cookies )?only\b|\bcontinue without (accepting|agreeing|consent)/i;
+  private static readonly SETTINGS_TEXT =
+    /\b(settings|preferences|options|manage|customi[sz]e|choices|purposes|partners|vendors|more info(rmation)?|learn more)\b/i;
+  private static readonly SAVE_TEXT = /\b(save|confirm|submit|apply)\b/i;
+  private static readonly LEGITIMATE_INTEREST = /legitimate\s*interest|leg[-_]?int|ot-leg/i;
+  private static readonly NECESSARY = /\b(strictly )?(necessary|essential|required)\b/i;
+
+  async detect(context: PageContext, _aiManager: AIEngineManager): Promise<Detection[]> {
+    try {
+      const banner = ConsentBannerDetector.findBanner();
+      if (!banner) return [];
+
+      const audit = this.audit(banner);
+      const detection = this.createDetection(audit, context);
+
+      Debug.debug(`🍪 ConsentBannerDetector: ${banner.platform} - reject at first layer: ${audit.rejectAtFirstLayer}, clicks: ${audit.clicksToReject ?? 'none'}, pre-ticked: ${audit.preTicked.length}`);
+      return detection ? [detection] : [];
+    } catch (error) {
+      Debug.error('ConsentBannerDetector failed', error);
+      return [];
+    }
+  }
+
+  /**
+   * The visible consent banner on the page, from known CMP markup first and
+   * then any cookie/consent container that offers a choice and sits over the
+   * page, which leaves out "Cookie settings" blocks in footers and policy pages
+   */
+  static findBanner(): ConsentBanner | null {
+    for (const [platform, bannerSelector, settingsSelector] of this.PLATFORMS) {
+      const element = Array.from(document.querySelectorAll<HTMLElement>(bannerSelector)).find(candidate => this.isShown(candidate));
+      if (!element) continue;
+
+      const settingsLayer = settingsSelector ? document.querySelector<HTMLElement>(settingsSelector) || undefined : undefined;
+      return { element, platform, settingsLayer };
+    }
+
+    const generic = Array.from(document.querySelectorAll<HTMLElement>(this.GENERIC_CONTAINERS))
+      .filter(element => !element.closest('[id^="cognitive-sense"]') && this.isShown(element))
+      .filter(element => {
+        const text = element.textContent || '';
+        return text.length < 3000 && this.CONSENT_TEXT.test(text) && element.querySelector(this.CONTROLS);
+      })
+      .filter(element => this.isOverlay(element));
+
+    // Outermost match, so the banner's own buttons are all inside it
+    const element = generic.find(candidate => !generic.some(other => other !== candidate && other.contains(candidate)));
+    return element ? { element, platform: 'Unrecognised banner' } : null;
+  }
+
+  private static isShown(element: HTMLElement): boolean {
+    const rect = element.getBoundingClientRect();
+    if (rect.width === 0 || rect.height === 0) return false;
+
+    const style = getComputedStyle(element);
+    return style.display !== 'none' && style.visibility !== 'hidden' && parseFloat(style.opacity) > 0;
+  }
+
+  /**
+   * Dialog semantics or fixed/sticky positioning on the element or an ancestor
+   */
+  private static isOverlay(element: HTMLElement): boolean {
+    if (element.closest(this.DIALOG)) return true;
+
+    for (let node: HTMLElement | null = element; node && node !== document.body; node = node.parentElement) {
+      const position = getComputedStyle(node).position;
+      if (position === 'fixed' || position === 'sticky') return true;
+    }
+    return false;
+  }
+
+  private audit(banner: ConsentBanner): ConsentAudit {
+    const firstLayer = this.controls(banner.element).filter(control => ConsentBannerDetector.isShown(control.element));
+
+    const reject = firstLayer.find(control => ConsentBannerDetector.REJECT_TEXT.test(control.text))?.element;
+    const accept = firstLayer.find(control => control.element !== reject && ConsentBannerDetector.ACCEPT_TEXT.test(control.text))?.element;
+    const settings = firstLayer.find(control => control.element !== reject && control.element !== accept &&
+      ConsentBannerDetector.SETTINGS_TEXT.test(control.text))?.element;
+
+    const preTicked = this.findPreTicked([banner.element, banner.settingsLayer]);
+
+    if (reject) {
+      return { banner, accept, reject, settings, rejectAtFirstLayer: true, clicksToReject: 1, clicksExact: true, preTicked };
+    }
+
+    if (!settings) {
+      return { banner, accept, settings, rejectAtFirstLayer: false, clicksToReject: null, clicksExact: true, preTicked };
+    }
+
+    // Open the settings, then either "reject all" there or untick each purpose and save
+    const secondLayer = banner.settingsLayer && banner.settingsLayer !== banner.element
+      ? this.controls(banner.settingsLayer)
+      : [];
+    if (secondLayer.some(control => ConsentBannerDetector.REJECT_TEXT.test(control.text))) {
+      return { banner, accept, settings, rejectAtFirstLayer: false, clicksToReject: 2, clicksExact: true, preTicked };
+    }
+
+    const hasSave = secondLayer.some(control => ConsentBannerDetector.SAVE_TEXT.test(control.text));
+    return {
+      banner,
+      accept,
+      settings,
+      rejectAtFirstLayer: false,
+      clicksToReject: 2 + preTicked.length,
+      clicksExact: hasSave,
+      preTicked
+    };
+  }
+
+  private controls(container: HTMLElement): Array<{ element: HTMLElement; text: string }> {
+    return Array.from(container.querySelectorAll<HTMLElement>(ConsentBannerDetector.CONTROLS))
+      .map(element => ({
+        element,
+        text: (element.textContent || (element as HTMLInputElement).value || element.getAttribute('aria-label') || '')
+          .replace(/\s+/g, ' ')
+          .trim()
+      }))
+      .filter(control => control.text.length > 0 && control.text.length <= 60);
+  }
+
+  /**
+   * Purpose and legitimate-interest toggles that are on by default. Strictly
+   * necessary cookies are expected to be on and are skipped.
+   */
+  private findPreTicked(layers: Array<HTMLElement | undefined>): ConsentToggle[] {
+    const toggles: ConsentToggle[] = [];
+    const seen = new Set<HTMLElement>();
+
+    layers.forEach(layer => layer?.querySelectorAll<HTMLElement>('input[type="checkbox"], [role="checkbox"], [role="switch"]').forEach(element => {
+      if (seen.has(element)) return;
+      seen.add(element);
+
+      const checked = element instanceof HTMLInputElement
+        ? element.checked
+        : element.getAttribute('aria-checked') === 'true';
+      const locked = element instanceof HTMLInputElement
+        ? element.disabled
+        : element.getAttribute('aria-disabled') === 'true';
+      if (!checked || locked) return;
+
+      const label = PageContextBuilder.labelFor(element).slice(0, 100);
+      if (ConsentBannerDetector.NECESSARY.test(label)) return;
+
+      const identity = `${element.id} ${element.getAttribute('name') || ''} ${element.className} ${label}`;
+      const section = element.closest('li, [class*="purpose" i], [class*="category" i], [class*="vendor" i]');
+      const legitimateInterest = ConsentBannerDetector.LEGITIMATE_INTEREST.test(identity) ||
+        /legitimate\s*interest/i.test((section?.textContent || '').slice(0, 300));
+
+      toggles.push({ element, label: label || 'Unlabelled toggle', legitimateInterest });
+    }));
+
+    return toggles;
+  }
+
+  private createDetection(audit: ConsentAudit, context: PageContext): Detection | null {
+    const legitimateInterest = audit.preTicked.filter(toggle => toggle.legitimateInterest);
+    const purposes = audit.preTicked.filter(toggle => !toggle.legitimateInterest);
+
+    let score = 0;
+    if (audit.clicksToReject === null) score += 6;
+    else if (!audit.rejectAtFirstLayer) score += audit.clicksToReject >= 4 ? 6 : 5;
+    if (legitimateInterest.length > 0) score += legitimateInterest.length > 3 ? 3 : 2;
+    if (purposes.length > 0) score += 2;
+    if (score === 0) return null;
+
+    score = Math.min(10, score);
+    const severity = score >= 7 ? 'high' : score >= 5 ? 'medium' : 'low';
+
+    const clicks = audit.clicksToReject === null
+      ? 'not possible'
+      : `${audit.clicksToReject}${audit.clicksExact ? '' : '+'}`;
+
+    const issues: string[] = [];
+    if (audit.clicksToReject === null) issues.push('there is no way to refuse - only to accept');
+    else if (!audit.rejectAtFirstLayer) issues.push(`refusing takes ${clicks} clicks while accepting takes 1`);
+    if (legitimateInterest.length > 0) issues.push(`${legitimateInterest.length} "legitimate interest" toggle${legitimateInterest.length === 1 ? ' is' : 's are'} already on`);
+    if (purposes.length > 0) issues.push(`${purposes.length} optional purpose${purposes.length === 1 ? ' is' : 's are'} pre-ticked`);
+
+    const details: Detection['details'] = [
+      { label: 'Type', value: 'consent audit' },
+      { label: 'Platform', value: audit.banner.platform },
+      { label: 'Reject at First Layer', value: audit.rejectAtFirstLayer ? 'yes' : 'no' },
+      { label: 'Clicks to Reject', value: clicks },
+      { label: 'Clicks to Accept', value: audit.accept ? '1' : 'unknown' }
+    ];
+    if (legitimateInterest.length > 0) {
+      details.push({ label: 'Legitimate Interest On', value: legitimateInterest.slice(0, 5).map(toggle => toggle.label).join(', ') });
+    }
+    if (purposes.length > 0) {
+      details.push({ label: 'Pre-ticked Purposes', value: purposes.slice(0, 5).map(toggle => toggle.label).join(', ') });
+    }
+
+    const target = audit.settings || audit.reject || audit.banner.element;
+
+    return {
+      id: `consent_audit_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      agentKey: 'shopping_persuasion',
+      type: 'consent_audit',
+      score,
+      severity,
+      title: audit.clicksToReject === null ? '🍪 Cookie Banner Without a Reject Option' : '🍪 Cookie Banner Steers You to Accept',
+      description: `This consent banner makes saying no harder than saying yes: ${issues.join('; ')}.`,
+      reasoning: `Audited the ${audit.banner.platform} banner's first layer${audit.banner.settingsLayer ? ' and preference centre' : ''}`,
+      element: audit.banner.element,
+      details,
+      metrics: {
+        rejectAtFirstLayer: audit.rejectAtFirstLayer ? 1 : 0,
+        clicksToReject: audit.clicksToReject ?? -1,
+        legitimateInterestPreTicked: legitimateInterest.length,
+        purposesPreTicked: purposes.length
+      },
+      actions: [
+        {
+          label: audit.rejectAtFirstLayer ? 'Show Reject Button' : 'Show Settings',
+          variant: 'primary',
+          icon: '🍪',
+          onClick: () => target.scrollIntoView({ behavior: 'smooth', block: 'center' })
+        }
+      ],
+      confidence: audit.banner.platform === 'Unrecognised banner' ? 0.7 : 0.9,
+      timestamp: new Date(),
+      pageUrl: context.url.href,
+      learnMoreUrl: 'https://cognitivesense.app/learn/dark-patterns'
+    };
+  }
+}
@@ -1,14 +1,52 @@
 /**
  * DarkPatternDetector - Detects deceptive UI/UX dark patterns
+ *
+ * Text blocks go to the model; accept/decline button pairs in dialogs and banners
+ * are compared directly from their computed styles and wording.
  */
 
-import { PageContext, Detection } from '../../base/types';
+import { PageContext, Detection, TextBlock } from '../../base/types';
 import { AIEngineManager } from '../../../ai/AIEngineManager';
+import { scoredSchema, ScoredResponse } from '../../../ai/ResponseSchema';
+import { VisualWeight, VisualWeightInfo } from '../../../core/VisualWeight';
+import { ruleEngine } from '../../../rules/RuleEngine';
 import { Debug } from '../../../utils/Debug';
 import { ShoppingDetector } from '../ShoppingAgent';
+import { ConsentBannerDetector } from './ConsentBannerDetector';
+
+const DARK_PATTERN_TYPES = ['hidden_costs', 'confusing_ui', 'forced_action', 'trick_question', 'confirmshaming'] as const;
+
+interface DarkPatternResponse extends ScoredResponse {
+  type: typeof DARK_PATTERN_TYPES[number];
+}
+
+interface ChoicePair {
+  accept: VisualWeightInfo;
+  decline: VisualWeightInfo;
+  container: HTMLElement;
+}
 
 export class DarkPatternDetector implements ShoppingDetector {
   name = 'DarkPatternDetector';
+  incremental = true;
+
+  private static readonly PROMPT_VERSION = 3;
+
+  private static readonly CHOICE_CONTAINERS = [
+    '[role="dialog"]', '[role="alertdialog"]', 'dialog[open]', '[aria-modal="true"]',
+    '[class*="modal" i]', '[class*="popup" i]', '[class*="banner" i]', '[class*="overlay" i]',
+    '[class*="consent" i]', '[id*="modal" i]', '[id*="popup" i]'
+  ].join(', ');
+  private static readonly CHOICE_CONTROLS = 'button, a, [role="button"], input[type="submit"], input[type="button"]';
+  // Opt-out wording only - a plain Cancel or Close just leaves an ordinary dialog
+  private static readonly DECLINE_TEXT =
+    /^(no\b|not now|maybe later|skip|decline|reject|continue without|i don'?t|i do not|i'?ll pass|i prefer|i'?d rather|i would rather|i'?m not|nope|no,)/i;
+  private static readonly ACCEPT_TEXT =
+    /\b(yes|accept|agree|allow|subscribe|sign me up|sign up|get|claim|add|start|join|buy|upgrade|unlock|activate|try|redeem)\b/i;
+  // What the accept side has to be selling for the pair to be an opt-in choice
+  private static readonly OFFER_TEXT =
+    /\b(offers?|deals?|discount|\d+\s?% off|free|trial|newsletter|subscri\w*|e-?mails?|updates|notifications|cookies|consent|premium|upgrade|protection|warranty|insurance|membership|rewards|coupon|promo\w*|vip|exclusive|sign up|join)\b/i;
+  private static readonly RESPONSE_SCHEMA = scoredSchema({ type: { type: 'string', enum: DARK_PATTERN_TYPES } });
 
   async detect(context: PageContext, aiManager: AIEngineManager): Promise<Detection[]> {
     const detections: Detection[] = [];
@@ -16,17 +54,27 @@ export class DarkPatternDetector implements ShoppingDetector {
     try {
       Debug.debug('🔍 DarkPatternDetector: Starting detection...');
       
-      const pageText = context.content.text;
-      const darkPatterns = this.findDarkPatterns(pageText);
+      // Button pairs need no model call - check them first
+      detections.push(...this.analyzeChoicePairs(context));
+      
+      const darkPatterns = this.findDarkPatterns(context.content.blocks);
       
       Debug.debug(`📊 Found ${darkPatterns.length} potential dark patterns`);
       
       if (darkPatterns.length === 0) {
         return detections;
       }
+      
+      const flaggedChoices = detections.map(detection => detection.element);
+      const consentBanner = ConsentBannerDetector.findBanner()?.element;
 
       // Analyze each dark pattern
       for (const pattern of darkPatterns.slice(0, 3)) {
+        // Already explained by the button-pair analysis
+        if (flaggedChoices.some(element => element && (element.contains(pattern.element) || pattern.element.contains(element)))) continue;
+        // Consent banner wording is audited by ConsentBannerDetector
+        if (consentBanner?.contains(pattern.element)) continue;
+        
         try {
           const detection = await this.analyzeDarkPattern(pattern, context, aiManager);
           if (detection) {
@@ -45,27 +93,31 @@ export class DarkPatternDetector implements ShoppingDetector {
     }
   }
 
-  private findDarkPatterns(text: string): string[] {
-    const patterns: string[] = [];
-    const lines = text.split('\n').filter(line => line.trim().length > 0);
+  private findDarkPatterns(blocks: TextBlock[]): TextBlock[] {
+    const patterns: TextBlock[] = [];
+    const seen = new Set<string>();
 
-    for (const line of lines) {
-      const lowerLine = line.toLowerCase();
+    for (const block of blocks) {
+      if (!block.visible || seen.has(block.text)) continue;
+      seen.add(block.text);
+      const lowerLine = block.text.toLowerCase();
       
       // Dark pattern indicators - more aggressive
       if (/unsubscribe|cancel|opt.?out|hidden|trick|confirm|agree|accept|click|continue|proceed|next|skip|close|button|free.*trial|auto.?renewal|subscription|difficult|small.*text|terms|conditions|privacy|scroll|find|locate|bury|obscure|deceptive|confusing|misleading/i.test(lowerLine)) {
-        patterns.push(line);
+        patterns.push(block);
       }
     }
 
-    return [...new Set(patterns)].slice(0, 10);
+    return patterns.slice(0, 10);
   }
 
   private async analyzeDarkPattern(
-    content: string,
+    block: TextBlock,
     context: PageContext,
     aiManager: AIEngineManager
   ): Promise<Detection | null> {
+    const content = block.text;
+
     try {
       Debug.apiCall('Prompt', 'start');
       
@@ -75,22 +127,24 @@ export class DarkPatternDetector implements ShoppingDetector {
 Rate the dark pattern severity (0-10):
 - 0-3: Not a dark pattern
 - 4-6: Moderate deceptive design
-- 7-10: Aggressive dark pattern
-
-Respond with: SCORE: [0-10], TYPE: [hidden_costs|confusing_ui|forced_action|trick_question]`;
+- 7-10: Aggressive dark pattern`;
 
-      const result = await aiManager.prompt.detect({
+      const result = await aiManager.runPrompt<DarkPatternResponse>({
         prompt,
-        context: `Page: ${context.url.href}`
-      });
+        schema: DarkPatternDetector.RESPONSE_SCHEMA,
+        cacheKey: { detector: this.name, snippet: content, version: DarkPatternDetector.PROMPT_VERSION }
+      }, { priority: aiManager.priorityFor(block.element), label: this.name });
 
-      Debug.apiCall('Prompt', 'success');
+      if (result.ok) {
+        Debug.apiCall('Prompt', 'success');
+      } else {
+        Debug.apiCall('Prompt', 'error', result.error);
+      }
 
-      const scoreMatch = result.text.match(/SCORE:\s*(\d+)/i);
-      const typeMatch = result.text.match(/TYPE:\s*(\w+)/i);
-      
-      const score = scoreMatch ? parseInt(scoreMatch[1]) : 5;
-      const type = typeMatch ? typeMatch[1].toLowerCase() : 'confusing_ui';
+      // Without a valid response, score from the deterministic ruleset
+      const rules = ruleEngine.evaluate('dark_pattern', content);
+      const score = result.ok ? result.data.score : rules.score;
+      const type = result.ok ? result.data.type : rules.subtype ?? 'confusing_ui';
 
       if (score < 4) return null;
 
@@ -104,14 +158,16 @@ Respond with: SCORE: [0-10], TYPE: [hidden_costs|confusing_ui|forced_action|tric
         severity,
         title: `⚠️ Dark Pattern Detected (${severity.toUpperCase()})`,
         description: `Deceptive UI/UX pattern detected: ${content.substring(0, 100)}...`,
-        reasoning: result.text,
+        reasoning: result.ok ? result.data.reasoning : ruleEngine.explain(rules),
+        element: block.element,
         details: [
           { label: 'Type', value: type },
           { label: 'Severity', value: severity },
-          { label: 'Content', value: content.substring(0, 80) + (content.length > 80 ? '...' : '') }
+          { label: 'Content', value: content.substring(0, 80) + (content.length > 80 ? '...' : '') },
+          ...(result.ok ? [] : ruleEngine.evidenceDetails(rules))
         ],
         actions: [],
-        confidence: 0.8,
+        confidence: result.ok ? 0.8 : 0.5,
         timestamp: new Date(),
         pageUrl: context.url.href
       };
@@ -120,4 +176,114 @@ Respond with: SCORE: [0-10], TYPE: [hidden_costs|confusing_ui|forced_action|tric
       return null;
     }
   }
+
+  /**
+   * Accept/decline pairs whose decline option is shamed in wording or played down visually
+   */
+  private analyzeChoicePairs(context: PageContext): Detection[] {
+    const detections: Detection[] = [];
+
+    for (const pair of this.findChoicePairs()) {
+      const shaming = ruleEngine.evaluate('confirmshaming', pair.decline.text);
+      const asymmetry = this.compareVisualWeight(pair);
+      const isShaming = shaming.score >= 4;
+
+      if (!isShaming && asymmetry.length < 2) continue;
+
+      const score = Math.min(10, (isShaming ? 7 : 5) + asymmetry.length);
+      const severity = score >= 7 ? 'high' : score >= 5 ? 'medium' : 'low';
+      const subtype = isShaming ? 'confirmshaming' : 'visual_asymmetry';
+
+      Debug.detectionFound('DarkPattern', score, severity);
+
+      detections.push({
+        id: `dark_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        agentKey: 'shopping_persuasion',
+        type: 'dark_pattern',
+        score,
+        severity,
+        title: isShaming ? '⚠️ Guilt-Tripping Decline Button' : '⚠️ Decline Option Played Down',
+        description: isShaming
+          ? `Saying no means clicking "${pair.decline.text}" - wording meant to make you feel bad for declining.`
+          : `"${pair.accept.text}" is made to stand out while "${pair.decline.text}" is easy to miss. Both choices are equally valid.`,
+        reasoning: [
+          isShaming ? ruleEngine.explain(shaming) : '',
+          asymmetry.length > 0 ? `Visual comparison: ${asymmetry.map(item => item.value).join('; ')}` : ''
+        ].filter(Boolean).join('. '),
+        element: pair.decline.element,
+        details: [
+          { label: 'Type', value: subtype },
+          { label: 'Decline Option', value: `"${pair.decline.text}"` },
+          { label: 'Accept Option', value: `"${pair.accept.text}"` },
+          ...asymmetry
+        ],
+        actions: [],
+        confidence: isShaming ? 0.85 : 0.75,
+        timestamp: new Date(),
+        pageUrl: context.url.href,
+        learnMoreUrl: 'https://cognitivesense.app/learn/dark-patterns'
+      });
+    }
+
+    return detections;
+  }
+
+  private findChoicePairs(): ChoicePair[] {
+    const pairs: ChoicePair[] = [];
+    const used = new Set<HTMLElement>();
+
+    document.querySelectorAll<HTMLElement>(DarkPatternDetector.CHOICE_CONTAINERS).forEach(container => {
+      if (container.closest('[id^="cognitive-sense"]')) return;
+
+      const controls = Array.from(container.querySelectorAll<HTMLElement>(DarkPatternDetector.CHOICE_CONTROLS))
+        .filter(element => !used.has(element))
+        .map(element => VisualWeight.measure(element))
+        .filter((control): control is VisualWeightInfo => control !== null);
+
+      // Too many controls means a whole page section, not a choice
+      if (controls.length < 2 || controls.length > 6) return;
+
+      const decline = controls.find(control => DarkPatternDetector.DECLINE_TEXT.test(control.text) ||
+        ruleEngine.evaluate('confirmshaming', control.text).score >= 4);
+      const accept = controls.find(control => control !== decline && DarkPatternDetector.ACCEPT_TEXT.test(control.text) &&
+        !DarkPatternDetector.DECLINE_TEXT.test(control.text));
+      if (!decline || !accept) return;
+
+      // Save/Cancel in a settings dialog isn't an opt-in choice
+      const offer = DarkPatternDetector.OFFER_TEXT.test(accept.text) ||
+        DarkPatternDetector.OFFER_TEXT.test((container.textContent || '').slice(0, 1000));
+      if (!offer) return;
+
+      used.add(decline.element);
+      used.add(accept.element);
+      pairs.push({ accept, decline, container });
+    });
+
+    return pairs.slice(0, 3);
+  }
+
+  /**
+   * Detail rows for each way the accept option outweighs the decline option
+   */
+  private compareVisualWeight({ accept, decline }: ChoicePair): Array<{ label: string; value: string }> {
+    const rows: Array<{ label: string; value: string }> = [];
+
+    if (accept.area >= decline.area * 3) {
+      rows.push({ label: 'Size', value: `accept is ${(accept.area / decline.area).toFixed(1)}× larger` });
+    }
+    if (accept.filled && !decline.filled) {
+      rows.push({ label: 'Style', value: 'accept is a button, decline is plain text' });
+    }
+    if (decline.contrast < 3 && accept.contrast >= 4.5) {
+      rows.push({ label: 'Contrast', value: `decline ${decline.contrast.toFixed(1)}:1 vs accept ${accept.contrast.toFixed(1)}:1` });
+    }
+    if (decline.fontSize > 0 && decline.fontSize <= accept.fontSize * 0.8) {
+      rows.push({ label: 'Text Size', value: `decline ${decline.fontSize}px vs accept ${accept.fontSize}px` });
+    }
+    if (accept.fontWeight >= 600 && decline.fontWeight < 500 && rows.length > 0) {
+      rows.push({ label: 'Weight', value: 'only the accept option is bold' });
+    }
+
+    return rows;
+  }
 }
@@ -0,0 +1,300 @@
+/**
+ * DripPricingDetector - Compares the checkout total with the prices first shown on the same store
+ */
+
+import { PageContext, Detection, TextBlock } from '../../base/types';
+import { AIEngineManager } from '../../../ai/AIEngineManager';
+import { PriceExtractor } from '../../../core/PriceExtractor';
+import { CheckoutFlow, CheckoutFlowStore } from '../../../storage/CheckoutFlowStore';
+import { PriceHistoryStore } from '../../../storage/PriceHistoryStore';
+import { Debug } from '../../../utils/Debug';
+import { ShoppingDetector } from '../ShoppingAgent';
+
+type CostCategory = 'subtotal' | 'total' | 'shipping' | 'tax' | 'insurance' | 'tip' | 'fee' | 'discount';
+
+interface CostLine {
+  category: CostCategory;
+  label: string;
+  amount: number;
+  currency: string;
+  element: HTMLElement;
+  preChecked?: boolean;                 // Optional extra that was already ticked
+}
+
+interface DripBreakdown {
+  firstShown?: number;
+  subtotal?: number;
+  itemIncrease: number;
+  added: CostLine[];                    // Fees, shipping, insurance and tips
+  taxes: CostLine[];
+  discounts: CostLine[];
+  unexplained: number;
+  total: CostLine;
+}
+
+export class DripPricingDetector implements ShoppingDetector {
+  name = 'DripPricingDetector';
+
+  private static readonly CHECKOUT_PATH = /\/(cart|basket|bag|checkout|payment|order[-_]?review|booking)(\/|$|\?|-)/i;
+  // Cart rows, found through their quantity inputs
+  static readonly QUANTITY_SELECTOR =
+    'input[name*="qty" i], input[name*="quantity" i], select[name*="qty" i], select[name*="quantity" i]';
+  static readonly LINE_ITEM_SELECTOR =
+    'tr, li, [class*="item" i], [class*="product" i], [class*="line" i]';
+
+  // Checked in order - "Total savings" is a discount, "Shipping protection" is insurance
+  private static readonly CATEGORY_PATTERNS: Array<[CostCategory, RegExp]> = [
+    ['subtotal', /sub\s*-?\s*total|items?\s*(?:total|\(\d+\))|merchandise/i],
+    ['discount', /discount|coupon|promo|savings?|voucher|rebate|\boff\b/i],
+    ['total', /^(?:order\s*|grand\s*|estimated\s*|final\s*)?total\b|total\s*(?:to\s*pay|due|amount|payable)|amount\s*(?:payable|due)|you\s*pay/i],
+    ['tax', /\btax(es)?\b|\bvat\b|\bgst\b|\bhst\b|dut(y|ies)/i],
+    ['insurance', /insurance|protection|protect|warranty|coverage|guarantee/i],
+    ['tip', /\btip\b|gratuity|donat/i],
+    ['shipping', /shipping|delivery|postage|freight/i],
+    ['fee', /\bfees?\b|surcharge|\bcharge\b|convenience|processing|handling|packaging|platform|booking|service/i]
+  ];
+
+  private store = new CheckoutFlowStore();
+
+  async detect(context: PageContext, _aiManager: AIEngineManager): Promise<Detection[]> {
+    try {
+      const domain = context.domain || context.url.hostname;
+
+      if (!DripPricingDetector.isCheckoutPage(context)) {
+        await this.recordProductPrice(context, domain);
+        return [];
+      }
+
+      const lines = this.readCostLines(context);
+      const total = lines.find(line => line.category === 'total');
+      if (!total) return [];
+
+      const flow = await this.store.getFlow(domain);
+      await this.store.touch(domain);
+
+      const breakdown = this.buildBreakdown(lines, total, this.firstShownTotal(flow, total.currency));
+      const extra = breakdown.itemIncrease +
+        breakdown.added.reduce((sum, line) => sum + line.amount, 0) +
+        Math.max(0, breakdown.unexplained);
+
+      const base = breakdown.firstShown ?? breakdown.subtotal;
+      if (!base || extra < 0.01) return [];
+
+      Debug.debug(`🧾 DripPricingDetector: ${PriceExtractor.format(extra, total.currency)} added on top of ${PriceExtractor.format(base, total.currency)}`);
+      return [this.createDetection(breakdown, base, extra, context)];
+    } catch (error) {
+      Debug.error('DripPricingDetector failed', error);
+      return [];
+    }
+  }
+
+  /**
+   * Cart and checkout pages, by URL or by an order summary with a total
+   */
+  static isCheckoutPage(context: PageContext): boolean {
+    if (this.CHECKOUT_PATH.test(context.url.pathname)) return true;
+
+    const text = context.content.text.toLowerCase();
+    return /order summary|review (your )?order|place (your )?order/.test(text) &&
+      /\b(order )?total\b/.test(text);
+  }
+
+  private async recordProductPrice(context: PageContext, domain: string): Promise<void> {
+    const product = PriceHistoryStore.identify(context);
+    const offer = product && PriceExtractor.extract(context)[0];
+    if (!product || !offer) return;
+
+    await this.store.recordProduct(domain, {
+      productId: product.productId,
+      name: product.name,
+      amount: offer.current.amount,
+      currency: offer.current.currency,
+      url: context.url.href
+    });
+  }
+
+  /**
+   * Order summary rows: a label and one price in the same block, or a label block
+   * followed by a price-only block
+   */
+  private readCostLines(context: PageContext): CostLine[] {
+    const lines: CostLine[] = [];
+    const blocks = context.content.blocks.filter(block => block.visible && block.text.length <= 120);
+
+    blocks.forEach((block, i) => {
+      const prices = PriceExtractor.findPrices(block.text, context);
+      let label = block.text;
+      let price = prices.length === 1 ? prices[0] : null;
+
+      if (prices.length === 0 && blocks[i + 1]) {
+        const next = PriceExtractor.findPrices(blocks[i + 1].text, context);
+        if (next.length === 1 && blocks[i + 1].text.replace(next[0].raw, '').trim().length <= 3) {
+          price = next[0];
+        }
+      } else if (price) {
+        label = block.text.replace(price.raw, '').trim();
+      }
+
+      if (!price || label.length === 0 || label.length > 60) return;
+
+      const category = this.categorize(label);
+      if (!category) return;
+
+      lines.push({
+        category,
+        label: label.replace(/[:\s]+$/, ''),
+        amount: category === 'discount' ? Math.abs(price.amount) : price.amount,
+        currency: price.currency,
+        element: block.element,
+        preChecked: category === 'insurance' ? this.isPreChecked(block) : undefined
+      });
+    });
+
+    // A row can show up in a summary and again in a mini-cart - keep the first of each
+    const seen = new Set<string>();
+    return lines.filter(line => {
+      const key = `${line.category}|${line.label.toLowerCase()}|${line.amount}`;
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+  }
+
+  private categorize(label: string): CostCategory | null {
+    if (/\bfree\b/i.test(label) && !/total/i.test(label)) return null;
+
+    const match = DripPricingDetector.CATEGORY_PATTERNS.find(([, pattern]) => pattern.test(label));
+    return match ? match[0] : null;
+  }
+
+  private isPreChecked(block: TextBlock): boolean {
+    const row = block.element.closest('label, li, tr, [class*="row" i], [class*="option" i]') || block.element.parentElement;
+    const checkbox = row?.querySelector<HTMLElement>('input[type="checkbox"], [role="checkbox"], [role="switch"]');
+    if (!checkbox) return false;
+
+    return checkbox instanceof HTMLInputElement
+      ? checkbox.checked
+      : checkbox.getAttribute('aria-checked') === 'true';
+  }
+
+  /**
+   * The cart at the prices first shown on this trip. Only known when every cart line
+   * is a product seen earlier - an item added from a listing page has no first price,
+   * and the subtotal is the base instead.
+   */
+  private firstShownTotal(flow: CheckoutFlow | null, currency: string): number | undefined {
+    const products = (flow?.products || []).filter(product => product.name && product.currency === currency);
+    const cart = this.readCartLines();
+    if (products.length === 0 || cart.length === 0) return undefined;
+
+    let sum = 0;
+    for (const line of cart) {
+      const product = products.find(candidate => line.text.includes(candidate.name!.slice(0, 30).toLowerCase()));
+      if (!product) return undefined;
+      sum += product.amount * line.quantity;
+    }
+    return sum;
+  }
+
+  private readCartLines(): Array<{ text: string; quantity: number }> {
+    const rows = new Set<HTMLElement>();
+
+    return Array.from(document.querySelectorAll<HTMLInputElement | HTMLSelectElement>(DripPricingDetector.QUANTITY_SELECTOR))
+      .flatMap(input => {
+        const row = input.closest<HTMLElement>(DripPricingDetector.LINE_ITEM_SELECTOR);
+        if (!row || rows.has(row)) return [];
+        rows.add(row);
+
+        const quantity = parseInt(input.value, 10);
+        return [{ text: (row.textContent || '').replace(/\s+/g, ' ').toLowerCase(), quantity: quantity > 0 ? quantity : 1 }];
+      });
+  }
+
+  private buildBreakdown(lines: CostLine[], total: CostLine, firstShown: number | undefined): DripBreakdown {
+    const sameCurrency = lines.filter(line => line.currency === total.currency);
+    const subtotal = sameCurrency.find(line => line.category === 'subtotal')?.amount;
+    const added = sameCurrency.filter(line => ['shipping', 'fee', 'insurance', 'tip'].includes(line.category));
+    const taxes = sameCurrency.filter(line => line.category === 'tax');
+    const discounts = sameCurrency.filter(line => line.category === 'discount');
+
+    // Quantities are already in firstShown, so any gap to the subtotal is a price rise
+    const itemIncrease = firstShown !== undefined && subtotal !== undefined && subtotal > firstShown + 0.01
+      ? subtotal - firstShown
+      : 0;
+
+    const sum = (items: CostLine[]) => items.reduce((acc, line) => acc + line.amount, 0);
+    const itemized = (subtotal ?? firstShown ?? 0) + sum(added) + sum(taxes) - sum(discounts);
+    const unexplained = subtotal !== undefined || firstShown !== undefined
+      ? Math.round((total.amount - itemized) * 100) / 100
+      : 0;
+
+    return { firstShown, subtotal, itemIncrease, added, taxes, discounts, unexplained, total };
+  }
+
+  private createDetection(breakdown: DripBreakdown, base: number, extra: number, context: PageContext): Detection {
+    const currency = breakdown.total.currency;
+    const format = (amount: number) => PriceExtractor.format(amount, currency);
+    const percent = Math.round((extra / base) * 100);
+    const preChecked = breakdown.added.filter(line => line.preChecked);
+
+    let score = percent >= 30 ? 8 : percent >= 15 ? 7 : percent >= 5 ? 5 : 4;
+    if (preChecked.length > 0) score += 2;
+    if (breakdown.unexplained > 0.5) score += 1;
+    score = Math.min(10, score);
+
+    const severity = score >= 7 ? 'high' : score >= 5 ? 'medium' : 'low';
+
+    const details: Detection['details'] = [];
+    if (breakdown.firstShown !== undefined) {
+      details.push({ label: 'Price First Shown', value: format(breakdown.firstShown) });
+    }
+    if (breakdown.itemIncrease > 0) {
+      details.push({ label: 'Item Price Increase', value: `+${format(breakdown.itemIncrease)}` });
+    } else if (breakdown.subtotal !== undefined && breakdown.firstShown === undefined) {
+      details.push({ label: 'Subtotal', value: format(breakdown.subtotal) });
+    }
+    breakdown.added.forEach(line => details.push({
+      label: line.preChecked ? `${line.label} (pre-checked)` : line.label,
+      value: `+${format(line.amount)}`
+    }));
+    breakdown.taxes.forEach(line => details.push({ label: line.label, value: `+${format(line.amount)}` }));
+    breakdown.discounts.forEach(line => details.push({ label: line.label, value: `−${format(line.amount)}` }));
+    if (Math.abs(breakdown.unexplained) > 0.5) {
+      details.push({
+        label: 'Unexplained Difference',
+        value: `${breakdown.unexplained > 0 ? '+' : '−'}${format(Math.abs(breakdown.unexplained))}`
+      });
+    }
+    details.push({ label: 'Checkout Total', value: format(breakdown.total.amount) });
+
+    const parts = breakdown.added.map(line => line.label.toLowerCase());
+    if (breakdown.itemIncrease > 0) parts.unshift('a higher item price');
+
+    return {
+      id: `drip_pricing_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      agentKey: 'shopping_persuasion',
+      type: 'drip_pricing',
+      score,
+      severity,
+      title: `⚠️ ${format(extra)} Added at Checkout (+${percent}%)`,
+      description: `The price grew by ${format(extra)} on the way to checkout` +
+        (parts.length > 0 ? `, from ${parts.join(', ')}.` : '.') +
+        (preChecked.length > 0 ? ` ${preChecked.map(line => line.label).join(', ')} was added for you - untick it if you don't want it.` : ''),
+      reasoning: `Compared the checkout total of ${format(breakdown.total.amount)} with ${breakdown.firstShown !== undefined ? 'the prices first shown on this store' : 'the cart subtotal'}, excluding taxes`,
+      element: breakdown.total.element,
+      details,
+      actions: [
+        {
+          label: 'Review Fees',
+          variant: 'primary',
+          icon: '🧾',
+          onClick: () => (preChecked[0] || breakdown.added[0] || breakdown.total).element.scrollIntoView({ behavior: 'smooth', block: 'center' })
+        }
+      ],
+      confidence: breakdown.firstShown !== undefined ? 0.85 : 0.75,
+      timestamp: new Date(),
+      pageUrl: context.url.href,
+      learnMoreUrl: 'https://cognitivesense.app/learn/drip-pricing'
+    };
+  }
+}
@@ -2,13 +2,25 @@
  * FOMODetector - Detects Fear of Missing Out manipulation tactics
  */
 
-import { PageContext, Detection } from '../../base/types';
+import { PageContext, Detection, TextBlock } from '../../base/types';
 import { AIEngineManager } from '../../../ai/AIEngineManager';
+import { scoredSchema, ScoredResponse } from '../../../ai/ResponseSchema';
+import { ruleEngine } from '../../../rules/RuleEngine';
 import { Debug } from '../../../utils/Debug';
 import { ShoppingDetector } from '../ShoppingAgent';
 
+const FOMO_TYPES = ['exclusivity', 'scarcity', 'social_pressure', 'time_sensitive'] as const;
+
+interface FOMOResponse extends ScoredResponse {
+  type: typeof FOMO_TYPES[number];
+}
+
 export class FOMODetector implements ShoppingDetector {
   name = 'FOMODetector';
+  incremental = true;
+
+  private static readonly PROMPT_VERSION = 2;
+  private static readonly RESPONSE_SCHEMA = scoredSchema({ type: { type: 'string', enum: FOMO_TYPES } });
 
   async detect(context: PageContext, aiManager: AIEngineManager): Promise<Detection[]> {
     const detections: Detection[] = [];
@@ -16,8 +28,7 @@ export class FOMODetector implements ShoppingDetector {
     try {
       Debug.debug('🔍 FOMODetector: Starting detection...');
       
-      const pageText = context.content.text;
-      const fomoPatterns = this.findFOMOPatterns(pageText);
+      const fomoPatterns = this.findFOMOPatterns(context.content.blocks);
       
       Debug.debug(`📊 Found ${fomoPatterns.length} potential FOMO tactics`);
       
@@ -45,27 +56,31 @@ export class FOMODetector implements ShoppingDetector {
     }
   }
 
-  private findFOMOPatterns(text: string): string[] {
-    const patterns: string[] = [];
-    const lines = text.split('\n').filter(line => line.trim().length > 0);
+  private findFOMOPatterns(blocks: TextBlock[]): TextBlock[] {
+    const patterns: TextBlock[] = [];
+    const seen = new Set<string>();
 
-    for (const line of lines) {
-      const lowerLine = line.toLowerCase();
+    for (const block of blocks) {
+      if (!block.visible || seen.has(block.text)) continue;
+      seen.add(block.text);
+      const lowerLine = block.text.toLowerCase();
       
       // FOMO patterns - more aggressive matching
       if (/exclusive|members?\s*only|limited\s*edition|vip|invitation|select|rare|special|only.*left|last.*chance|don'?t.*miss|act.*now|everyone|join.*thousands|regret|once.*lifetime|never.*again|opportunity|left.*out/i.test(lowerLine)) {
-        patterns.push(line);
+        patterns.push(block);
       }
     }
 
-    return [...new Set(patterns)].slice(0, 10);
+    return patterns.slice(0, 10);
   }
 
   private async analyzeFOMO(
-    content: string,
+    block: TextBlock,
     context: PageContext,
     aiManager: AIEngineManager
   ): Promise<Detection | null> {
+    const content = block.text;
+
     try {
       Debug.apiCall('Prompt', 'start');
       
@@ -75,22 +90,24 @@ export class FOMODetector implements ShoppingDetector {
 Rate the FOMO manipulation severity (0-10):
 - 0-3: Not FOMO
 - 4-6: Moderate FOMO pressure
-- 7-10: Aggressive FOMO tactics
+- 7-10: Aggressive FOMO tactics`;
 
-Respond with: SCORE: [0-10], TYPE: [exclusivity|scarcity|social_pressure|time_sensitive]`;
-
-      const result = await aiManager.prompt.detect({
+      const result = await aiManager.runPrompt<FOMOResponse>({
         prompt,
-        context: `Page: ${context.url.href}`
-      });
-
-      Debug.apiCall('Prompt', 'success');
+        schema: FOMODetector.RESPONSE_SCHEMA,
+        cacheKey: { detector: this.name, snippet: content, version: FOMODetector.PROMPT_VERSION }
+      }, { priority: aiManager.priorityFor(block.element), label: this.name });
+
+      if (result.ok) {
+        Debug.apiCall('Prompt', 'success');
+      } else {
+        Debug.apiCall('Prompt', 'error', result.error);
+      }
 
-      const scoreMatch = result.text.match(/SCORE:\s*(\d+)/i);
-      const typeMatch = result.text.match(/TYPE:\s*(\w+)/i);
-      
-      const score = scoreMatch ? parseInt(scoreMatch[1]) : 5;
-      const type = typeMatch ? typeMatch[1].toLowerCase() : 'exclusivity';
+      // Without a valid response, score from the deterministic ruleset
+      const rules = ruleEngine.evaluate('fomo', content);
+      const score = result.ok ? result.data.score : rules.score;
+      const type = result.ok ? result.data.type : rules.subtype ?? 'exclusivity';
 
       if (score < 4) return null;
 
@@ -104,14 +121,16 @@ Respond with: SCORE: [0-10], TYPE: [exclusivity|scarcity|social_pressure|time_se
         severity,
         title: `⚠️ FOMO Tactic Detected (${severity.toUpperCase()})`,
         description: `Fear of Missing Out detected: ${content.substring(0, 100)}...`,
-        reasoning: result.text,
+        reasoning: result.ok ? result.data.reasoning : ruleEngine.explain(rules),
+        element: block.element,
         details: [
           { label: 'Type', value: type },
           { label: 'Severity', value: severity },
-          { label: 'Content', value: content.substring(0, 80) + (content.length > 80 ? '...' : '') }
+          { label: 'Content', value: content.substring(0, 80) + (content.length > 80 ? '...' : '') },
+          ...(result.ok ? [] : ruleEngine.evidenceDetails(rules))
         ],
         actions: [],
-        confidence: 0.8,
+        confidence: result.ok ? 0.8 : 0.5,
         timestamp: new Date(),
         pageUrl: context.url.href
       };
@@ -0,0 +1,144 @@
+/**
+ * FinePrintDetector - Surfaces consumer-hostile clauses from linked policy pages
+ *
+ * On checkout and signup pages, fetches the shop's own terms, refund, shipping and
+ * privacy pages and quotes restocking fees, non-refundable items, arbitration
+ * clauses and data sharing. The Summarizer, when ready, explains each clause.
+ */
+
+import { PageContext, Detection } from '../../base/types';
+import { AIEngineManager } from '../../../ai/AIEngineManager';
+import { FinePrint, FinePrintClause } from '../../../core/FinePrint';
+import { Debug } from '../../../utils/Debug';
+import { ShoppingDetector } from '../ShoppingAgent';
+import { DripPricingDetector } from './DripPricingDetector';
+
+export class FinePrintDetector implements ShoppingDetector {
+  name = 'FinePrintDetector';
+
+  private static readonly SIGNUP_PATH = /\/(sign-?up|register|join|create-?account|subscribe|enroll|get-?started)(\/|$|\?|-)/i;
+  private static readonly SIGNUP_TEXT = /\b(create (?:an |your )?account|sign up|register|start (?:your )?(?:free )?trial)\b/i;
+
+  private static readonly CLAUSES: Record<string, { type: string; title: string }> = {
+    restocking_fee: { type: 'restocking fee', title: '📄 Returns Cost You a Fee' },
+    non_refundable: { type: 'non-refundable items', title: '📄 Some Purchases Can\'t Be Refunded' },
+    arbitration: { type: 'arbitration clause', title: '📄 You Give Up the Right to Sue' },
+    data_sharing: { type: 'data sharing', title: '📄 Your Data Is Shared or Sold' }
+  };
+
+  async detect(context: PageContext, aiManager: AIEngineManager): Promise<Detection[]> {
+    try {
+      if (!DripPricingDetector.isCheckoutPage(context) && !FinePrintDetector.isSignupPage(context)) return [];
+
+      const links = FinePrint.findPolicyLinks(context);
+      if (links.length === 0) return [];
+
+      const pages = await Promise.all(links.map(async link => FinePrint.findClauses(await FinePrint.fetchText(link.url), link)));
+
+      // Keep the heaviest clause per category across all policy pages
+      const clauses = new Map<string, FinePrintClause>();
+      pages.flat().forEach(clause => {
+        const existing = clauses.get(clause.category);
+        if (FinePrintDetector.CLAUSES[clause.category] && (!existing || clause.weight > existing.weight)) {
+          clauses.set(clause.category, clause);
+        }
+      });
+
+      Debug.debug(`📄 FinePrintDetector: ${clauses.size} clauses in ${links.length} policy pages`);
+
+      const detections: Detection[] = [];
+      for (const clause of clauses.values()) {
+        const element = this.findLink(clause.source.url);
+        const brief = await this.summarize(clause, element, aiManager);
+        detections.push(this.createDetection(clause, brief, element, context));
+      }
+      return detections;
+    } catch (error) {
+      Debug.error('FinePrintDetector failed', error);
+      return [];
+    }
+  }
+
+  /**
+   * Account creation or trial signup, where the user is about to accept the terms
+   */
+  static isSignupPage(context: PageContext): boolean {
+    if (this.SIGNUP_PATH.test(context.url.pathname)) return true;
+
+    return this.SIGNUP_TEXT.test(context.content.text) &&
+      context.content.forms.some(form => form.element.querySelector('input[type="password"]') !== null);
+  }
+
+  /**
+   * Plain-language reading of the clause and its neighbouring sentences, when the Summarizer is ready
+   */
+  private async summarize(
+    clause: FinePrintClause,
+    element: HTMLElement | undefined,
+    aiManager: AIEngineManager
+  ): Promise<string | null> {
+    if (!aiManager.summarizer.isReady()) return null;
+
+    try {
+      Debug.apiCall('Summarizer', 'start');
+      const summary = await aiManager.scheduler.schedule(
+        () => aiManager.summarizer.summarize({ content: clause.context.substring(0, 2000), type: 'tl-dr', length: 'short' }),
+        { priority: aiManager.priorityFor(element), label: 'Summarizer' }
+      );
+      Debug.apiCall('Summarizer', 'success');
+      return summary.summary.trim() || null;
+    } catch (error) {
+      Debug.apiCall('Summarizer', 'error', error);
+      return null;
+    }
+  }
+
+  private findLink(url: string): HTMLElement | undefined {
+    return Array.from(document.querySelectorAll<HTMLAnchorElement>('a[href]'))
+      .find(anchor => anchor.href.split('#')[0] === url);
+  }
+
+  private createDetection(
+    clause: FinePrintClause,
+    brief: string | null,
+    element: HTMLElement | undefined,
+    context: PageContext
+  ): Detection {
+    const { type, title } = FinePrintDetector.CLAUSES[clause.category];
+    const score = Math.min(10, clause.weight);
+    const severity = score >= 7 ? 'high' : score >= 5 ? 'medium' : 'low';
+
+    const details: Detection['details'] = [
+      { label: 'Type', value: type },
+      { label: 'Clause', value: clause.description },
+      { label: 'Policy Page', value: clause.source.text },
+      { label: 'Excerpt', value: `"${clause.excerpt}"` }
+    ];
+    if (brief) details.push({ label: 'In Brief', value: brief.slice(0, 300) });
+
+    return {
+      id: `fine_print_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      agentKey: 'shopping_persuasion',
+      type: 'fine_print',
+      score,
+      severity,
+      title,
+      description: `${clause.description}. The "${clause.source.text}" page says: "${clause.excerpt}"`,
+      reasoning: `Read the ${clause.source.kind} policy linked from this page and matched a ${type} clause`,
+      element,
+      details,
+      actions: [
+        {
+          label: 'Read Policy',
+          variant: 'primary',
+          icon: '📄',
+          onClick: () => window.open(clause.source.url, '_blank', 'noopener')
+        }
+      ],
+      confidence: brief ? 0.8 : 0.7,
+      timestamp: new Date(),
+      pageUrl: context.url.href,
+      learnMoreUrl: 'https://cognitivesense.app/learn/fine-print'
+    };
+  }
+}
@@ -0,0 +1,272 @@
+/**
+ * PreselectionDetector - Finds options ticked by default and extras slipped into the basket
+ *
+ * Works on the DOM rather than page text: each finding is anchored on the exact
+ * checkbox, toggle or quantity input involved.
+ */
+
+import { PageContext, Detection } from '../../base/types';
+import { AIEngineManager } from '../../../ai/AIEngineManager';
+import { PageContextBuilder } from '../../../core/PageContext';
+import { PriceExtractor } from '../../../core/PriceExtractor';
+import { CheckoutFlowStore } from '../../../storage/CheckoutFlowStore';
+import { Debug } from '../../../utils/Debug';
+import { ShoppingDetector } from '../ShoppingAgent';
+import { DripPricingDetector } from './DripPricingDetector';
+import { FinePrintDetector } from './FinePrintDetector';
+
+type PreselectionKind = 'cost' | 'consent';
+
+interface PreselectedOption {
+  element: HTMLElement;
+  kind: PreselectionKind;
+  label: string;
+  price?: string;
+}
+
+interface SneakedItem {
+  element: HTMLElement;
+  name: string;
+  price?: string;
+}
+
+export class PreselectionDetector implements ShoppingDetector {
+  name = 'PreselectionDetector';
+  incremental = true;
+
+  private static readonly COST_PATTERN =
+    /warranty|protection|insurance|coverage|donat|round(?:ing)?\s*up|\btip\b|gift\s*wrap|express|priority|membership|subscri|auto-?renew|premium|extended|care\s*plan/i;
+  private static readonly CONSENT_PATTERN =
+    /newsletter|marketing|promotion|special offers|e-?mails?|\bsms\b|text messages|partners|third[-\s]part|share my|personali[sz]ed ads|updates/i;
+  private static readonly BENIGN_PATTERN =
+    /remember me|keep me (signed|logged) in|same as (shipping|billing)|billing address|gift message/i;
+  static readonly ADD_TO_CART = /\badd to (cart|bag|basket|trolley)\b|\bbuy now\b/i;
+  private static readonly PRODUCT_CARD = 'li, article, [class*="product" i], [class*="item" i]';
+
+  // Controls the user has touched. ARIA toggles have no served default to compare
+  // against, so anything set outside this set was set for them
+  private static touched = new WeakSet<EventTarget>();
+  private static listening = false;
+
+  private flowStore = new CheckoutFlowStore();
+
+  async detect(context: PageContext, _aiManager: AIEngineManager): Promise<Detection[]> {
+    try {
+      const detections = this.findPreselectedOptions(context)
+        .map(option => this.preselectionDetection(option, context));
+
+      if (DripPricingDetector.isCheckoutPage(context)) {
+        const sneaked = await this.findSneakedItems(context);
+        detections.push(...sneaked.map(item => this.sneakedItemDetection(item, context)));
+      }
+
+      Debug.debug(`📊 PreselectionDetector: ${detections.length} findings`);
+      return detections;
+    } catch (error) {
+      Debug.error('PreselectionDetector failed', error);
+      return [];
+    }
+  }
+
+  /**
+   * Start recording which custom toggles the user changes and what they add to the
+   * cart. Called when the content script loads, before any analysis.
+   */
+  static trackInteractions(): void {
+    if (this.listening) return;
+    this.listening = true;
+
+    const remember = (event: Event) => {
+      const target = event.target as HTMLElement | null;
+      if (!target) return;
+
+      this.touched.add(target);
+      // Clicking a label or a custom toggle's inner span changes the control it belongs to
+      const control = (target.closest('label') as HTMLLabelElement | null)?.control ||
+        target.closest('[role="checkbox"], [role="switch"]');
+      if (control) this.touched.add(control);
+    };
+
+    const recordAddition = (event: Event) => {
+      const button = (event.target as HTMLElement | null)?.closest<HTMLElement>('button, a, [role="button"], input[type="submit"]');
+      const text = button ? (button.textContent || (button as HTMLInputElement).value || '') : '';
+      if (!button || !this.ADD_TO_CART.test(text)) return;
+
+      // A listing card's own title, else the product page heading
+      const card = button.closest<HTMLElement>(this.PRODUCT_CARD);
+      const name = (card?.querySelector('h1, h2, h3, h4, a[href]')?.textContent || document.querySelector('h1')?.textContent || '')
+        .replace(/\s+/g, ' ').trim();
+      if (name) new CheckoutFlowStore().recordAddition(location.hostname, name.slice(0, 120));
+    };
+
+    document.addEventListener('click', remember, true);
+    document.addEventListener('click', recordAddition, true);
+    document.addEventListener('change', remember, true);
+    document.addEventListener('keydown', remember, true);
+  }
+
+  /**
+   * Checked checkboxes and toggles that cost money or give consent, inside forms
+   * (from the page context) and as standalone ARIA widgets
+   */
+  private findPreselectedOptions(context: PageContext): PreselectedOption[] {
+    const candidates: Array<{ element: HTMLElement; label: string }> = [];
+
+    // Native inputs say whether the served HTML ticked them, whatever the user did since
+    context.content.forms.forEach(form => form.fields.forEach(field => {
+      if (field.type !== 'checkbox' || !field.checked || !field.defaultChecked) return;
+      candidates.push({ element: field.element, label: field.label });
+    }));
+
+    // ARIA toggles have no served state, so an untouched one could be a preference saved
+    // in an earlier session. Only checkout and signup flows render them fresh.
+    const freshFlow = DripPricingDetector.isCheckoutPage(context) || FinePrintDetector.isSignupPage(context);
+    const selector = freshFlow
+      ? '[role="checkbox"], [role="switch"], input[type="checkbox"]:not(form input)'
+      : 'input[type="checkbox"]:not(form input)';
+
+    document.querySelectorAll<HTMLElement>(selector).forEach(element => {
+      const checked = element instanceof HTMLInputElement
+        ? element.checked && element.defaultChecked
+        : element.getAttribute('aria-checked') === 'true' && !PreselectionDetector.touched.has(element);
+      if (checked) candidates.push({ element, label: PageContextBuilder.labelFor(element) });
+    });
+
+    const options: PreselectedOption[] = [];
+    const seen = new Set<HTMLElement>();
+
+    for (const candidate of candidates) {
+      if (seen.has(candidate.element)) continue;
+      seen.add(candidate.element);
+
+      const rect = candidate.element.getBoundingClientRect();
+      const styledToggle = candidate.element.closest('label, [class*="toggle" i], [class*="switch" i]');
+      if (rect.width === 0 && rect.height === 0 && !styledToggle) continue;
+
+      const label = candidate.label.slice(0, 160);
+      if (!label || PreselectionDetector.BENIGN_PATTERN.test(label)) continue;
+
+      const kind: PreselectionKind | null = PreselectionDetector.COST_PATTERN.test(label)
+        ? 'cost'
+        : PreselectionDetector.CONSENT_PATTERN.test(label) ? 'consent' : null;
+      if (!kind) continue;
+
+      const price = PriceExtractor.findPrices(label, context)[0];
+      options.push({
+        element: candidate.element,
+        kind,
+        label,
+        price: price ? PriceExtractor.format(price.amount, price.currency) : undefined
+      });
+    }
+
+    return options.slice(0, 5);
+  }
+
+  /**
+   * Paid items in the cart the user neither added nor viewed on this trip. Needs
+   * the trip's add-to-cart clicks, and more cart lines than there were clicks.
+   */
+  private async findSneakedItems(context: PageContext): Promise<SneakedItem[]> {
+    const flow = await this.flowStore.getFlow(context.domain || context.url.hostname);
+    if (!flow?.added?.length) return [];
+
+    const known = [...flow.added.map(item => item.name), ...flow.products.map(product => product.name)]
+      .map(name => name?.slice(0, 30).toLowerCase())
+      .filter((name): name is string => !!name);
+
+    const quantityInputs = context.content.forms
+      .flatMap(form => form.fields.map(field => field.element))
+      .filter(element => element.matches(DripPricingDetector.QUANTITY_SELECTOR));
+    if (quantityInputs.length <= flow.added.length) return [];
+
+    const items: SneakedItem[] = [];
+
+    for (const input of quantityInputs) {
+      const row = input.closest<HTMLElement>(DripPricingDetector.LINE_ITEM_SELECTOR);
+      const text = (row?.textContent || '').replace(/\s+/g, ' ').trim();
+      if (!row || text.length === 0 || text.length > 400) continue;
+
+      if (known.some(name => text.toLowerCase().includes(name))) continue;
+
+      const price = PriceExtractor.findPrices(text, context).find(match => match.amount > 0);
+      if (!price) continue;
+
+      items.push({
+        element: input,
+        name: text.replace(price.raw, '').slice(0, 80).trim(),
+        price: PriceExtractor.format(price.amount, price.currency)
+      });
+    }
+
+    return items.slice(0, 3);
+  }
+
+  private preselectionDetection(option: PreselectedOption, context: PageContext): Detection {
+    const cost = option.kind === 'cost';
+    const score = cost ? (option.price ? 8 : 7) : 6;
+    const severity = score >= 7 ? 'high' : score >= 5 ? 'medium' : 'low';
+
+    return {
+      id: `dark_pattern_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      agentKey: 'shopping_persuasion',
+      type: 'dark_pattern',
+      score,
+      severity,
+      title: cost ? '⚠️ Paid Extra Pre-Selected' : '⚠️ Consent Box Pre-Ticked',
+      description: cost
+        ? `"${option.label.slice(0, 80)}" was ticked for you${option.price ? ` and adds ${option.price}` : ''}. Untick it if you didn't ask for it.`
+        : `"${option.label.slice(0, 80)}" was ticked for you. Leaving it on signs you up without asking.`,
+      reasoning: 'The control was already checked when the page loaded and hasn\'t been touched since',
+      element: option.element,
+      details: [
+        { label: 'Type', value: cost ? 'pre-checked add-on' : 'pre-checked consent' },
+        { label: 'Option', value: option.label.slice(0, 100) },
+        ...(option.price ? [{ label: 'Adds', value: option.price }] : [])
+      ],
+      actions: [
+        {
+          label: 'Show Option',
+          variant: 'primary',
+          icon: '☑️',
+          onClick: () => option.element.scrollIntoView({ behavior: 'smooth', block: 'center' })
+        }
+      ],
+      confidence: 0.9,
+      timestamp: new Date(),
+      pageUrl: context.url.href,
+      learnMoreUrl: 'https://cognitivesense.app/learn/dark-patterns'
+    };
+  }
+
+  private sneakedItemDetection(item: SneakedItem, context: PageContext): Detection {
+    return {
+      id: `dark_pattern_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      agentKey: 'shopping_persuasion',
+      type: 'dark_pattern',
+      score: 8,
+      severity: 'high',
+      title: '⚠️ Item Added to Your Basket',
+      description: `"${item.name}" is in your basket, but you didn't add or view it while shopping here. Remove it if you don't want it.`,
+      reasoning: 'Paid line in the cart that matches nothing added to the cart or viewed on this store during this trip',
+      element: item.element,
+      details: [
+        { label: 'Type', value: 'sneak into basket' },
+        { label: 'Item', value: item.name },
+        ...(item.price ? [{ label: 'Price', value: item.price }] : [])
+      ],
+      actions: [
+        {
+          label: 'Show Item',
+          variant: 'primary',
+          icon: '🛒',
+          onClick: () => item.element.scrollIntoView({ behavior: 'smooth', block: 'center' })
+        }
+      ],
+      confidence: 0.75,
+      timestamp: new Date(),
+      pageUrl: context.url.href,
+      learnMoreUrl: 'https://cognitivesense.app/learn/dark-patterns'
+    };
+  }
+}
@@ -0,0 +1,101 @@
+/**
+ * ReviewTrustDetector - Rates how far the reviews on a product page can be trusted
+ *
+ * Runs ReviewAnalyzer over every review it can read from the page; no model call.
+ */
+
+import { PageContext, Detection } from '../../base/types';
+import { AIEngineManager } from '../../../ai/AIEngineManager';
+import { ReviewAnalyzer, ReviewTrustReport } from '../../../core/ReviewAnalyzer';
+import { Debug } from '../../../utils/Debug';
+import { ShoppingDetector } from '../ShoppingAgent';
+
+export class ReviewTrustDetector implements ShoppingDetector {
+  name = 'ReviewTrustDetector';
+  incremental = true;
+
+  private static readonly MIN_REVIEWS = 5;
+  // Reports at or above this are not worth a warning
+  private static readonly TRUSTED = 75;
+
+  async detect(context: PageContext, _aiManager: AIEngineManager): Promise<Detection[]> {
+    try {
+      const corpus = ReviewAnalyzer.extract(context);
+      if (corpus.reviews.length < ReviewTrustDetector.MIN_REVIEWS) return [];
+
+      const report = ReviewAnalyzer.analyze(corpus);
+      Debug.debug(`⭐ ReviewTrustDetector: ${report.reviewCount} reviews, trust ${report.trust}/100`);
+
+      if (report.trust >= ReviewTrustDetector.TRUSTED) return [];
+
+      const element = corpus.container || corpus.reviews.find(review => review.element)?.element;
+      return [this.createDetection(report, element, context)];
+    } catch (error) {
+      Debug.error('ReviewTrustDetector failed', error);
+      return [];
+    }
+  }
+
+  private createDetection(report: ReviewTrustReport, element: HTMLElement | undefined, context: PageContext): Detection {
+    const score = Math.min(10, Math.round((100 - report.trust) / 10) + 2);
+    const severity = score >= 7 ? 'high' : score >= 5 ? 'medium' : 'low';
+
+    const details: Detection['details'] = [
+      { label: 'Type', value: 'review trust' },
+      { label: 'Review Trust', value: `${report.trust}/100` },
+      { label: 'Reviews Checked', value: String(report.reviewCount) },
+      { label: 'Rating Spread', value: ReviewAnalyzer.formatDistribution(report) }
+    ];
+    if (report.shape !== 'insufficient') {
+      details.push({ label: 'Distribution', value: report.shape.replace('_', '-') });
+    }
+    if (report.burst) {
+      details.push({
+        label: 'Review Burst',
+        value: `${report.burst.count} of ${report.datedCount} dated reviews between ${this.formatDate(report.burst.start)} and ${this.formatDate(report.burst.end)}`
+      });
+    }
+    report.duplicateGroups.slice(0, 2).forEach(group => details.push({
+      label: 'Near-Duplicates',
+      value: `${group.length}× "${group[0].text.slice(0, 60)}${group[0].text.length > 60 ? '...' : ''}"`
+    }));
+    if (report.incentivised.length > 0) {
+      details.push({ label: 'Incentivised', value: `${report.incentivised.length} of ${report.reviewCount} reviews` });
+    }
+
+    return {
+      id: `review_trust_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      agentKey: 'shopping_persuasion',
+      type: 'review_trust',
+      score,
+      severity,
+      title: `⭐ Review Trust ${report.trust}/100`,
+      description: `The reviews on this page show signs of manipulation: ${report.flags.join('; ')}.`,
+      reasoning: `Checked ${report.reviewCount} reviews on this page for rating spread, posting bursts, repeated wording and incentive disclosures`,
+      element,
+      details,
+      metrics: {
+        trust: report.trust,
+        reviews: report.reviewCount,
+        duplicates: report.duplicateGroups.reduce((sum, group) => sum + group.length, 0),
+        incentivised: report.incentivised.length
+      },
+      actions: [
+        {
+          label: report.duplicateGroups.length > 0 ? 'Show Duplicates' : 'Show Reviews',
+          variant: 'primary',
+          icon: '⭐',
+          onClick: () => (report.duplicateGroups[0]?.[0].element || element)?.scrollIntoView({ behavior: 'smooth', block: 'center' })
+        }
+      ],
+      confidence: report.reviewCount >= 20 ? 0.8 : 0.65,
+      timestamp: new Date(),
+      pageUrl: context.url.href,
+      learnMoreUrl: 'https://cognitivesense.app/learn/social-proof'
+    };
+  }
+
+  private formatDate(time: number): string {
+    return new Date(time).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' });
+  }
+}
@@ -0,0 +1,159 @@
+/**
+ * ScarcityClaimDetector - Checks stock and activity claims against what was shown on earlier visits
+ */
+
+import { PageContext, Detection, TextBlock } from '../../base/types';
+import { AIEngineManager } from '../../../ai/AIEngineManager';
+import { NavigationWatcher } from '../../../core/NavigationWatcher';
+import { ClaimAssessment, ClaimHistoryStore, ClaimKind, ClaimSighting } from '../../../storage/ClaimHistoryStore';
+import { PriceHistoryStore } from '../../../storage/PriceHistoryStore';
+import { Debug } from '../../../utils/Debug';
+import { ShoppingDetector } from '../ShoppingAgent';
+
+interface ScarcityClaim {
+  kind: ClaimKind;
+  value: number;
+  text: string;
+  element: HTMLElement;
+}
+
+export class ScarcityClaimDetector implements ShoppingDetector {
+  name = 'ScarcityClaimDetector';
+
+  // First capture group is the number shown
+  private static readonly CLAIM_PATTERNS: Record<ClaimKind, RegExp[]> = {
+    stock: [
+      /only\s*(\d+)\s*(?:left|remaining|in\s*stock)/i,
+      /(\d+)\s*(?:left|remaining)\s*in\s*stock/i,
+      /hurry[^\d]{0,20}(\d+)\s*left/i
+    ],
+    viewers: [
+      /(\d+(?:,\d{3})*)\s*(?:people\s*|others\s*|shoppers\s*)?(?:are\s*)?(?:viewing|looking\s*at|watching)/i
+    ],
+    in_cart: [
+      /(\d+(?:,\d{3})*)\s*(?:people\s*|others\s*|shoppers\s*)?(?:have\s*(?:this\s*|it\s*)?)?in\s*(?:their\s*)?(?:cart|basket)s?/i
+    ]
+  };
+
+  private store = new ClaimHistoryStore();
+
+  async detect(context: PageContext, _aiManager: AIEngineManager): Promise<Detection[]> {
+    const detections: Detection[] = [];
+
+    try {
+      const claims = this.findClaims(context.content.blocks);
+      if (claims.length === 0) return detections;
+
+      // Claims belong to the product, so the same item reached by another URL shares history
+      const productId = PriceHistoryStore.identify(context)?.productId ?? NavigationWatcher.routeKey(context.url.href);
+
+      for (const claim of claims) {
+        const history = await this.store.record(productId, claim.kind, {
+          value: claim.value,
+          text: claim.text,
+          observedAt: Date.now(),
+          pageLoad: performance.timeOrigin
+        });
+
+        const assessment = ClaimHistoryStore.assess(claim.kind, history);
+        if (!assessment) continue;
+
+        Debug.detectionFound('ScarcityClaim', 8, 'high');
+        detections.push(this.createDetection(claim, assessment, history, context));
+      }
+
+      return detections;
+    } catch (error) {
+      Debug.error('ScarcityClaimDetector failed', error);
+      return detections;
+    }
+  }
+
+  /**
+   * First claim of each kind among visible, short text blocks
+   */
+  private findClaims(blocks: TextBlock[]): ScarcityClaim[] {
+    const claims = new Map<ClaimKind, ScarcityClaim>();
+
+    for (const block of blocks) {
+      if (!block.visible || block.text.length > 150) continue;
+
+      (Object.keys(ScarcityClaimDetector.CLAIM_PATTERNS) as ClaimKind[]).forEach(kind => {
+        if (claims.has(kind)) return;
+
+        for (const pattern of ScarcityClaimDetector.CLAIM_PATTERNS[kind]) {
+          const match = block.text.match(pattern);
+          if (!match) continue;
+
+          claims.set(kind, {
+            kind,
+            value: parseInt(match[1].replace(/,/g, ''), 10),
+            text: block.text,
+            element: block.element
+          });
+          return;
+        }
+      });
+    }
+
+    return [...claims.values()];
+  }
+
+  private createDetection(
+    claim: ScarcityClaim,
+    assessment: ClaimAssessment,
+    history: ClaimSighting[],
+    context: PageContext
+  ): Detection {
+    const frozen = assessment.verdict === 'never_changes';
+    const score = frozen ? Math.min(10, 7 + Math.floor(assessment.spanDays / 14)) : 8;
+    const severity = score >= 7 ? 'high' : score >= 5 ? 'medium' : 'low';
+
+    const titles: Record<ClaimKind, string> = {
+      stock: frozen ? '⚠️ Stock Count Never Changes' : '⚠️ Stock Count Changes Every Reload',
+      viewers: frozen ? '⚠️ Viewer Count Never Changes' : '⚠️ Random Viewer Count',
+      in_cart: frozen ? '⚠️ In-Cart Count Never Changes' : '⚠️ Random In-Cart Count'
+    };
+
+    const description = frozen
+      ? `"${claim.text}" has been shown unchanged on every visit for ${assessment.spanDays} days. A real count would move as people buy.`
+      : `"${claim.text}" shows a different number almost every time the page loads, which suggests it is generated rather than real.`;
+
+    return {
+      id: `scarcity_claim_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      agentKey: 'shopping_persuasion',
+      type: 'scarcity_claim',
+      score,
+      severity,
+      title: titles[claim.kind],
+      description,
+      reasoning: `${assessment.summary} (recorded on this device)`,
+      element: claim.element,
+      details: [
+        { label: 'Type', value: frozen ? 'never changes' : 'changes every reload' },
+        { label: 'Claim', value: claim.text.slice(0, 100) },
+        { label: 'Visits Recorded', value: `${assessment.loads} over ${assessment.spanDays} days` },
+        ...history.slice(-6).reverse().map(sighting => ({
+          label: new Date(sighting.observedAt).toLocaleString(),
+          value: String(sighting.value)
+        }))
+      ],
+      actions: [
+        {
+          label: 'Take Time',
+          variant: 'primary',
+          icon: '⏰',
+          onClick: () => this.explainClaim(claim)
+        }
+      ],
+      confidence: frozen ? 0.85 : 0.8,
+      timestamp: new Date(),
+      pageUrl: context.url.href,
+      learnMoreUrl: 'https://cognitivesense.app/learn/urgency-tactics'
+    };
+  }
+
+  private explainClaim(claim: ScarcityClaim): void {
+    alert(`💡 About "${claim.text}":\n\nCognitiveSense records this number each time you visit. Real stock and visitor counts go up and down gradually - numbers that never move, or that jump around on every reload, are usually generated to rush you.\n\nTake your time: the product is very likely still available tomorrow.`);
+  }
+}
@@ -5,6 +5,8 @@
 import { PageContext, Detection } from '../../base/types';
 import { AIEngineManager } from '../../../ai/AIEngineManager';
 import { PromptEngine } from '../../../ai/PromptEngine';
+import { scoredSchema, ScoredResponse } from '../../../ai/ResponseSchema';
+import { ReviewAnalyzer, ReviewCorpus } from '../../../core/ReviewAnalyzer';
 import { ShoppingDetector } from '../ShoppingAgent';
 
 interface SocialProofData {
@@ -19,13 +21,33 @@ interface SocialProofData {
   element?: HTMLElement;
 }
 
+interface RatingInconsistency {
+  label: string;
+  value: string;
+  weight: number;                       // 3 = arithmetically impossible, 2 = sources disagree, 1 = sample disagrees
+}
+
+interface SocialProofResponse extends ScoredResponse {
+  likely_fabricated: boolean;
+}
+
 export class SocialProofDetector implements ShoppingDetector {
   name = 'SocialProofDetector';
+  incremental = true;
+
+  private static readonly PROMPT_VERSION = 2;
+  private static readonly RESPONSE_SCHEMA = scoredSchema({
+    likely_fabricated: { type: 'boolean', description: 'Whether the claim looks fake or unverifiable' }
+  });
 
   async detect(context: PageContext, aiManager: AIEngineManager): Promise<Detection[]> {
     const detections: Detection[] = [];
     
     try {
+      // Headline rating vs schema, histogram and visible reviews - no model call needed
+      const consistency = this.checkRatingConsistency(context);
+      if (consistency) detections.push(consistency);
+
       // Extract social proof content
       let socialProofData = this.extractSocialProofData(context);
       
@@ -37,13 +59,13 @@ export class SocialProofDetector implements ShoppingDetector {
       socialProofData = this.deduplicateSocialProof(socialProofData);
       console.log(`📊 Social Proof: Analyzing ${socialProofData.length} unique claims`);
 
-      // Analyze each social proof claim (limit to 2)
-      for (const data of socialProofData.slice(0, 2)) {
-        const detection = await this.analyzeSocialProof(data, context, aiManager);
-        if (detection) {
-          detections.push(detection);
-        }
-      }
+      // Analyze each social proof claim (limit to 2) - the AI scheduler limits concurrency
+      const results = await Promise.all(
+        socialProofData.slice(0, 2).map(data => this.analyzeSocialProof(data, context, aiManager))
+      );
+      results.forEach(detection => {
+        if (detection) detections.push(detection);
+      });
 
       return detections;
     } catch (error) {
@@ -52,35 +74,161 @@ export class SocialProofDetector implements ShoppingDetector {
     }
   }
 
+  /**
+   * Compare the headline rating with the product's structured data, the star
+   * histogram and the reviews actually shown on the page
+   */
+  private checkRatingConsistency(context: PageContext): Detection | null {
+    const corpus = ReviewAnalyzer.extract(context);
+    const issues = this.findRatingInconsistencies(corpus);
+    if (issues.length === 0) return null;
+
+    const strongest = Math.max(...issues.map(issue => issue.weight));
+    const score = Math.min(10, (strongest === 3 ? 8 : strongest === 2 ? 7 : 5) + issues.length - 1);
+    const severity = score >= 8 ? 'high' : score >= 6 ? 'medium' : 'low';
+    const claimed = corpus.headline?.ratingValue ?? corpus.aggregate?.ratingValue;
+
+    return {
+      id: `social_proof_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      agentKey: 'shopping_persuasion',
+      type: 'social_proof',
+      score,
+      severity,
+      title: '⚠️ Star Rating Doesn\'t Add Up',
+      description: `The ${claimed !== undefined ? `${claimed.toFixed(1)}★ ` : ''}rating shown here doesn't match the page's own data: ${issues.map(issue => issue.value).join('; ')}.`,
+      reasoning: 'Compared the headline rating and count with the product schema, the star breakdown and the visible reviews',
+      element: corpus.headline?.element || corpus.histogram?.element,
+      details: [
+        { label: 'Type', value: 'rating inconsistency' },
+        ...issues.map(({ label, value }) => ({ label, value }))
+      ],
+      actions: [
+        {
+          label: 'Verify Reviews',
+          variant: 'primary',
+          icon: '🔍',
+          onClick: () => this.verifyReviews({ type: 'reviews', text: corpus.headline?.text || '' }, context)
+        }
+      ],
+      confidence: strongest === 3 ? 0.9 : 0.75,
+      timestamp: new Date(),
+      pageUrl: context.url.href,
+      learnMoreUrl: 'https://cognitivesense.app/learn/social-proof'
+    };
+  }
+
+  private findRatingInconsistencies(corpus: ReviewCorpus): RatingInconsistency[] {
+    const issues: RatingInconsistency[] = [];
+    const { headline, aggregate, histogram } = corpus;
+    const claimed = headline?.ratingValue ?? aggregate?.ratingValue;
+    const claimedCount = headline?.count ?? aggregate?.ratingCount ?? aggregate?.reviewCount;
+
+    // Header vs schema.org AggregateRating
+    if (headline && aggregate) {
+      if (headline.ratingValue !== undefined && Math.abs(headline.ratingValue - aggregate.ratingValue) > 0.15) {
+        issues.push({
+          label: 'Rating Mismatch',
+          value: `page shows ${headline.ratingValue.toFixed(1)}★ but the product data says ${aggregate.ratingValue.toFixed(1)}★`,
+          weight: 2
+        });
+      }
+
+      const schemaCount = headline.countKind === 'ratings'
+        ? aggregate.ratingCount ?? aggregate.reviewCount
+        : aggregate.reviewCount ?? aggregate.ratingCount;
+      const tolerance = headline.approximate ? 0.1 : 0.05;
+      if (headline.count !== undefined && schemaCount !== undefined &&
+          Math.abs(headline.count - schemaCount) > Math.max(10, schemaCount * tolerance)) {
+        issues.push({
+          label: 'Count Mismatch',
+          value: `page shows ${headline.count.toLocaleString()} ${headline.countKind} but the product data says ${schemaCount.toLocaleString()}`,
+          weight: 2
+        });
+      }
+    }
+
+    // Average the breakdown implies - only with every row read
+    if (histogram && histogram.values.every(value => !Number.isNaN(value))) {
+      const total = histogram.values.reduce((sum, value) => sum + value, 0);
+      const implied = total > 0
+        ? histogram.values.reduce((sum, value, i) => sum + value * (i + 1), 0) / total
+        : undefined;
+      // Each rounded percentage can be off by half a point, and the headline is rounded to 0.1
+      const tolerance = histogram.kind === 'percent' ? 0.15 : 0.06;
+
+      // Percentages are often smoothed or weighted (Amazon publishes no raw mean), so
+      // only a count breakdown makes the headline arithmetically impossible
+      if (claimed !== undefined && implied !== undefined && Math.abs(claimed - implied) > tolerance) {
+        issues.push(histogram.kind === 'count'
+          ? {
+            label: 'Impossible Average',
+            value: `the star breakdown averages ${implied.toFixed(2)}★, not ${claimed.toFixed(1)}★`,
+            weight: 3
+          }
+          : {
+            label: 'Average Disagrees',
+            value: `the star percentages work out at ${implied.toFixed(2)}★ against the ${claimed.toFixed(1)}★ shown`,
+            weight: 1
+          });
+      }
+
+      if (histogram.kind === 'count' && claimedCount !== undefined &&
+          Math.abs(total - claimedCount) > Math.max(10, claimedCount * 0.05)) {
+        issues.push({
+          label: 'Breakdown Total',
+          value: `the star breakdown adds up to ${total.toLocaleString()}, not ${claimedCount.toLocaleString()}`,
+          weight: 3
+        });
+      }
+    }
+
+    // Reviews rendered on the page
+    const rated = corpus.reviews.filter(review => review.rating !== undefined);
+    if (claimed !== undefined && rated.length >= 10) {
+      const visible = rated.reduce((sum, review) => sum + review.rating!, 0) / rated.length;
+      if (Math.abs(visible - claimed) >= 1) {
+        issues.push({
+          label: 'Visible Reviews',
+          value: visible < claimed
+            ? `the ${rated.length} reviews shown average only ${visible.toFixed(1)}★`
+            : `the ${rated.length} reviews shown average ${visible.toFixed(1)}★ - a hand-picked selection`,
+          weight: 1
+        });
+      }
+    }
+
+    return issues;
+  }
+
   private extractSocialProofData(context: PageContext): SocialProofData[] {
     const data: SocialProofData[] = [];
-    const pageText = context.content.text;
-    const lines = pageText.split('\n').map(line => line.trim()).filter(Boolean);
 
-    for (const line of lines) {
+    for (const block of context.content.blocks) {
+      if (!block.visible) continue;
+      const line = block.text;
       if (line.length > 300) continue; // Skip very long lines
       
       const _lowerLine = line.toLowerCase();
       
       // Review patterns
       const reviewData = this.extractReviewData(line, _lowerLine);
-      if (reviewData) data.push(reviewData);
+      if (reviewData) data.push({ ...reviewData, element: block.element });
       
       // Purchase count patterns
       const purchaseData = this.extractPurchaseData(line, _lowerLine);
-      if (purchaseData) data.push(purchaseData);
+      if (purchaseData) data.push({ ...purchaseData, element: block.element });
       
       // View count patterns
       const viewData = this.extractViewData(line, _lowerLine);
-      if (viewData) data.push(viewData);
+      if (viewData) data.push({ ...viewData, element: block.element });
       
       // Trending patterns
       const trendingData = this.extractTrendingData(line, _lowerLine);
-      if (trendingData) data.push(trendingData);
+      if (trendingData) data.push({ ...trendingData, element: block.element });
       
       // Testimonial patterns
       const testimonialData = this.extractTestimonialData(line, _lowerLine);
-      if (testimonialData) data.push(testimonialData);
+      if (testimonialData) data.push({ ...testimonialData, element: block.element });
     }
 
     // Also extract from DOM elements
@@ -271,14 +419,19 @@ export class SocialProofDetector implements ShoppingDetector {
       // Use AI to analyze the social proof claim
       const prompt = `${PromptEngine.prompts.socialProof}\n\n"${data.text}"\n\nType: ${data.type}${data.numbers ? `\nNumbers: ${JSON.stringify(data.numbers)}` : ''}${data.timeframe ? `\nTimeframe: ${data.timeframe}` : ''}`;
       
-      const aiResult = await aiManager.prompt.detect({
+      const aiResult = await aiManager.runPrompt<SocialProofResponse>({
         prompt,
-        context: `Page: ${context.url.href}, Type: ${data.type}`
-      });
+        schema: SocialProofDetector.RESPONSE_SCHEMA,
+        cacheKey: { detector: this.name, snippet: `${data.type}|${data.text}`, version: SocialProofDetector.PROMPT_VERSION }
+      }, { priority: aiManager.priorityFor(data.element), label: this.name });
+
+      if (!aiResult.ok) {
+        console.warn(`⚠️ SocialProofDetector prompt failed, scoring without AI: ${aiResult.error}`);
+      }
 
       // Analyze suspiciousness
       const suspiciousFactors = this.analyzeSuspiciousFactors(data);
-      const score = this.calculateSocialProofScore(data, suspiciousFactors, aiResult.text);
+      const score = this.calculateSocialProofScore(data, suspiciousFactors, aiResult.ok ? aiResult.data : null);
 
       if (score < 4) return null;
 
@@ -292,7 +445,8 @@ export class SocialProofDetector implements ShoppingDetector {
         severity,
         title: this.generateTitle(data, severity),
         description: this.generateDescription(data, suspiciousFactors),
-        reasoning: aiResult.reasoning || 'Social proof analysis',
+        reasoning: aiResult.ok ? aiResult.data.reasoning : 'Social proof analysis (without AI)',
+        element: data.element,
         details: [
           { label: 'Type', value: data.type },
           { label: 'Content', value: data.text.slice(0, 100) + (data.text.length > 100 ? '...' : '') },
@@ -304,7 +458,7 @@ export class SocialProofDetector implements ShoppingDetector {
             label: 'Verify Reviews',
             variant: 'primary',
             icon: '🔍',
-            onClick: () => this.verifyReviews(data)
+            onClick: () => this.verifyReviews(data, context)
           },
           {
             label: 'Learn More',
@@ -313,7 +467,7 @@ export class SocialProofDetector implements ShoppingDetector {
             onClick: () => this.showSocialProofEducation()
           }
         ],
-        confidence: aiResult.confidence,
+        confidence: aiResult.ok ? 0.8 : 0.5,
         timestamp: new Date(),
         pageUrl: context.url.href,
         learnMoreUrl: 'https://cognitivesense.app/learn/social-proof'
@@ -378,7 +532,7 @@ export class SocialProofDetector implements ShoppingDetector {
   private calculateSocialProofScore(
     data: SocialProofData,
     suspiciousFactors: string[],
-    aiResponse: string
+    aiResponse: SocialProofResponse | null
   ): number {
     let score = 0;
 
@@ -404,12 +558,11 @@ export class SocialProofDetector implements ShoppingDetector {
     // Add points for suspicious factors
     score += suspiciousFactors.length * 1.5;
 
-    // AI response analysis
-    const lowerResponse = aiResponse.toLowerCase();
-    if (lowerResponse.includes('fake') || lowerResponse.includes('suspicious')) {
+    // AI assessment
+    if (aiResponse?.likely_fabricated) {
       score += 3;
     }
-    if (lowerResponse.includes('misleading') || lowerResponse.includes('exaggerated')) {
+    if (aiResponse && aiResponse.score >= 7) {
       score += 2;
     }
 
@@ -489,6 +642,7 @@ export class SocialProofDetector implements ShoppingDetector {
       title: this.generateTitle(data, severity),
       description: this.generateDescription(data, suspiciousFactors),
       reasoning: 'Pattern-based social proof detection',
+      element: data.element,
       details: [
         { label: 'Type', value: data.type },
         { label: 'Red Flags', value: suspiciousFactors.join(', ') }
@@ -498,7 +652,7 @@ export class SocialProofDetector implements ShoppingDetector {
           label: 'Verify Claims',
           variant: 'primary',
           icon: '🔍',
-          onClick: () => this.verifyReviews(data)
+          onClick: () => this.verifyReviews(data, context)
         }
       ],
       confidence: 0.6,
@@ -507,13 +661,19 @@ export class SocialProofDetector implements ShoppingDetector {
     };
   }
 
-  private verifyReviews(data: SocialProofData): void {
+  private verifyReviews(data: SocialProofData, context: PageContext): void {
     let message = '💡 How to Verify Social Proof:\n\n';
     
     switch (data.type) {
-      case 'reviews':
+      case 'reviews': {
+        // Check the reviews on the page first, then give the manual steps
+        const corpus = ReviewAnalyzer.extract(context);
+        if (corpus.reviews.length > 0) {
+          message = `⭐ Review Check:\n\n${ReviewAnalyzer.describe(ReviewAnalyzer.analyze(corpus))}\n\n${message}`;
+        }
         message += `• Check review dates - are they clustered?\n• Look for detailed, specific reviews\n• Verify on multiple platforms\n• Watch for generic language\n• Check reviewer profiles`;
         break;
+      }
       case 'purchases':
         message += `• Cross-check on other sites\n• Look for specific timeframes\n• Verify with similar products\n• Check if numbers seem realistic`;
         break;
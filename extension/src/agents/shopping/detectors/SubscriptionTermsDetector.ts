@@ -0,0 +1,171 @@
+/**
+ * SubscriptionTermsDetector - Spells out what a trial or subscription offer costs over a year
+ *
+ * Terms are parsed deterministically from the page, topped up from same-origin
+ * terms pages it links to. The Summarizer only adds a short plain-language brief;
+ * the 12-month figure always comes from the parsed terms.
+ */
+
+import { PageContext, Detection } from '../../base/types';
+import { AIEngineManager } from '../../../ai/AIEngineManager';
+import { FinePrint } from '../../../core/FinePrint';
+import { PriceExtractor } from '../../../core/PriceExtractor';
+import { CostProjection, SubscriptionTerms, SubscriptionTermsExtractor } from '../../../core/SubscriptionTerms';
+import { Debug } from '../../../utils/Debug';
+import { ShoppingDetector } from '../ShoppingAgent';
+
+export class SubscriptionTermsDetector implements ShoppingDetector {
+  name = 'SubscriptionTermsDetector';
+
+  private static readonly OFFER_TEXT = /\btrial\b|\bauto-?renew|\bintroductory (?:price|offer)\b|\bfirst (?:month|week) free\b/i;
+  private static readonly RECURRING_TEXT =
+    /\/\s*(?:mo|month|yr|year|wk|week)\b|\bper (?:month|year|week)\b|\bbilled (?:monthly|annually|yearly|weekly)\b|\ba month\b/i;
+  private static readonly TERMS_LINK =
+    /\b(?:terms|conditions|subscription (?:terms|details)|billing terms|offer (?:terms|details)|auto-?renewal|membership terms|see details|fine print)\b/i;
+  private static readonly MAX_LINKED_PAGES = 2;
+
+  async detect(context: PageContext, aiManager: AIEngineManager): Promise<Detection[]> {
+    try {
+      if (!SubscriptionTermsDetector.hasOffer(context)) return [];
+
+      let terms = SubscriptionTermsExtractor.parse(context.content.text, context);
+      let fromFinePrint = false;
+
+      // The page often gives the price but leaves renewal and cancellation to the terms page
+      if (!terms?.price || !terms.autoRenew || !terms.cancellation) {
+        const finePrint = await this.fetchFinePrint(context);
+        const linked = finePrint ? SubscriptionTermsExtractor.parse(finePrint, context) : null;
+        if (linked) {
+          fromFinePrint = true;
+          terms = { ...linked, ...this.defined(terms || {}) };
+        }
+      }
+
+      if (!terms?.price || (terms.trialDays === undefined && !terms.intro && !terms.autoRenew)) return [];
+
+      const projection = SubscriptionTermsExtractor.project(terms);
+      if (!projection) return [];
+
+      const anchor = terms.price.text.slice(0, 40);
+      const element = context.content.blocks.find(block => block.visible && block.text.includes(anchor))?.element;
+
+      const brief = await this.summarize(terms, element, aiManager);
+      Debug.debug(`🔁 SubscriptionTermsDetector: ${PriceExtractor.format(projection.total, projection.currency)} over 12 months`);
+
+      return [this.createDetection(terms, projection, brief, fromFinePrint, element, context)];
+    } catch (error) {
+      Debug.error('SubscriptionTermsDetector failed', error);
+      return [];
+    }
+  }
+
+  /**
+   * Trial, intro or auto-renew wording alongside a recurring price
+   */
+  static hasOffer(context: PageContext): boolean {
+    return this.OFFER_TEXT.test(context.content.text) && this.RECURRING_TEXT.test(context.content.text);
+  }
+
+  private defined(terms: SubscriptionTerms): Partial<SubscriptionTerms> {
+    return Object.fromEntries(Object.entries(terms).filter(([, value]) => value !== undefined));
+  }
+
+  /**
+   * Text of same-origin terms pages linked from this one
+   */
+  private async fetchFinePrint(context: PageContext): Promise<string> {
+    const urls = FinePrint.findLinks(context, SubscriptionTermsDetector.TERMS_LINK, SubscriptionTermsDetector.MAX_LINKED_PAGES);
+    const pages = await Promise.all(urls.map(url => FinePrint.fetchText(url)));
+    return pages.filter(Boolean).join('\n');
+  }
+
+  /**
+   * Short brief of the sentences the terms came from, when the Summarizer is ready
+   */
+  private async summarize(
+    terms: SubscriptionTerms,
+    element: HTMLElement | undefined,
+    aiManager: AIEngineManager
+  ): Promise<string | null> {
+    if (!aiManager.summarizer.isReady()) return null;
+
+    const sentences = Array.from(new Set(
+      [terms.intro?.text, terms.price?.text, terms.autoRenew, terms.cancellation, terms.noRefunds]
+        .filter((sentence): sentence is string => !!sentence)
+    ));
+
+    try {
+      Debug.apiCall('Summarizer', 'start');
+      const summary = await aiManager.scheduler.schedule(
+        () => aiManager.summarizer.summarize({ content: sentences.join(' '), type: 'tl-dr', length: 'short' }),
+        { priority: aiManager.priorityFor(element), label: 'Summarizer' }
+      );
+      Debug.apiCall('Summarizer', 'success');
+      return summary.summary.trim() || null;
+    } catch (error) {
+      Debug.apiCall('Summarizer', 'error', error);
+      return null;
+    }
+  }
+
+  private createDetection(
+    terms: SubscriptionTerms,
+    projection: CostProjection,
+    brief: string | null,
+    fromFinePrint: boolean,
+    element: HTMLElement | undefined,
+    context: PageContext
+  ): Detection {
+    const format = (amount: number, currency = projection.currency) => PriceExtractor.format(amount, currency);
+    const introJump = terms.intro && terms.price && terms.price.amount >= terms.intro.amount * 2;
+
+    let score = 5;
+    if (terms.autoRenew) score += 1;
+    if (terms.trialDays || terms.intro) score += 1;
+    if (introJump) score += 1;
+    if (terms.noRefunds) score += 1;
+    if (terms.cancellation) score += 1;
+    score = Math.min(9, score);
+    const severity = score >= 7 ? 'high' : score >= 5 ? 'medium' : 'low';
+
+    const clip = (sentence: string) => sentence.length > 120 ? `${sentence.slice(0, 117)}...` : sentence;
+    const details: Detection['details'] = [
+      { label: 'Type', value: 'subscription terms' },
+      { label: '12-Month Cost', value: format(projection.total) },
+      { label: 'Payments', value: `${projection.charges} in the first 12 months` }
+    ];
+    if (terms.trialDays) details.push({ label: 'Free Trial', value: SubscriptionTermsExtractor.formatDays(terms.trialDays) });
+    if (terms.intro) {
+      details.push({ label: 'Intro Price', value: `${format(terms.intro.amount, terms.intro.currency)}${terms.intro.cadence ? ` / ${terms.intro.cadence}` : ''}` });
+    }
+    details.push({ label: 'Then', value: `${format(terms.price!.amount, terms.price!.currency)} / ${terms.price!.cadence}` });
+    if (terms.autoRenew) details.push({ label: 'Auto-Renew', value: clip(terms.autoRenew) });
+    if (terms.cancellation) details.push({ label: 'Cancel By', value: clip(terms.cancellation) });
+    if (terms.noRefunds) details.push({ label: 'Refunds', value: clip(terms.noRefunds) });
+    if (brief) details.push({ label: 'In Brief', value: brief.slice(0, 300) });
+    if (fromFinePrint) details.push({ label: 'Source', value: 'this page and its linked terms' });
+
+    return {
+      id: `subscription_terms_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      agentKey: 'shopping_persuasion',
+      type: 'subscription_terms',
+      score,
+      severity,
+      title: `🔁 ${format(projection.total)} Over 12 Months`,
+      description: SubscriptionTermsExtractor.describe(terms, projection),
+      reasoning: `Parsed the trial, price and renewal terms${fromFinePrint ? ' from this page and its linked terms' : ' on this page'} and counted every payment due in the first year`,
+      element,
+      details,
+      metrics: {
+        annualCost: projection.total,
+        payments: projection.charges,
+        trialDays: terms.trialDays || 0
+      },
+      actions: [],
+      confidence: terms.autoRenew ? 0.85 : 0.7,
+      timestamp: new Date(),
+      pageUrl: context.url.href,
+      learnMoreUrl: 'https://cognitivesense.app/learn/subscription-traps'
+    };
+  }
+}
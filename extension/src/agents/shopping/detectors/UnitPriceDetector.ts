@@ -0,0 +1,280 @@
+/**
+ * UnitPriceDetector - Compares pack sizes by price per unit
+ *
+ * Flags multipacks and bundles that cost more per 100 g, 100 ml or item than a
+ * smaller option on the same page, and packs that shrank since an earlier visit
+ * while the price held. No model call.
+ */
+
+import { PageContext, Detection } from '../../base/types';
+import { AIEngineManager } from '../../../ai/AIEngineManager';
+import { PriceExtractor } from '../../../core/PriceExtractor';
+import { Quantity, QuantityDimension, QuantityExtractor } from '../../../core/QuantityExtractor';
+import { PackSizeCheck, PriceHistory, PriceHistoryStore } from '../../../storage/PriceHistoryStore';
+import { Debug } from '../../../utils/Debug';
+import { ShoppingDetector } from '../ShoppingAgent';
+import { PreselectionDetector } from './PreselectionDetector';
+
+interface UnitOption {
+  label: string;
+  amount: number;
+  currency: string;
+  quantity: Quantity;
+  element?: HTMLElement;
+}
+
+interface BundleComparison {
+  single: UnitOption;
+  bundle: UnitOption;
+  dimension: QuantityDimension;
+  singleUnit: number;
+  bundleUnit: number;
+  premium: number;                      // Fraction more per unit for the bundle
+}
+
+export class UnitPriceDetector implements ShoppingDetector {
+  name = 'UnitPriceDetector';
+
+  private static readonly OPTION_SELECTOR = 'option, label, li, button, [role="radio"], [role="option"]';
+  private static readonly VARIANT_SCOPE =
+    'select, [role="radiogroup"], [role="listbox"], [class*="variant" i], [class*="option" i], [class*="swatch" i], [class*="bundle" i], [class*="pack" i], [class*="size" i]';
+  private static readonly CONTROLS = 'button, a, [role="button"], input[type="submit"]';
+  // Unit prices printed on the option, e.g. "$1.25 / 100 ml", aren't the option's price
+  private static readonly UNIT_PRICE_TEXT = /^\s*(?:\/|\bper\b)/i;
+  private static readonly UNIT_SUFFIX = /(?:\/|\bper\b)\s*\d*\s*[a-z]+/gi;
+
+  // A bundle must hold this much more than the single to count as one
+  private static readonly MIN_BUNDLE_RATIO = 1.5;
+  private static readonly MIN_PREMIUM = 0.02;
+
+  async detect(context: PageContext, _aiManager: AIEngineManager): Promise<Detection[]> {
+    try {
+      if (!PriceHistoryStore.identify(context)) return [];
+
+      const offer = PriceExtractor.extract(context)[0];
+      const quantity = QuantityExtractor.fromProduct(context);
+      const detections: Detection[] = [];
+
+      const options = this.findOptions(context, offer && quantity
+        ? { label: QuantityExtractor.format(quantity), amount: offer.current.amount, currency: offer.current.currency, quantity, element: offer.element }
+        : null);
+      const comparison = this.findCostlierBundle(options);
+      if (comparison) detections.push(this.createBundleDetection(comparison, options, context));
+
+      if (offer && quantity) {
+        const check = PriceHistoryStore.checkPackSize(
+          {
+            amount: offer.current.amount,
+            currency: offer.current.currency,
+            quantity: QuantityExtractor.measure(quantity),
+            quantityDimension: quantity.dimension
+          },
+          await this.loadPriceHistory(context)
+        );
+        if (check) detections.push(this.createShrinkflationDetection(check, quantity, offer.current.amount, offer.element, context));
+      }
+
+      Debug.debug(`⚖️ UnitPriceDetector: ${options.length} sized options, ${detections.length} findings`);
+      return detections;
+    } catch (error) {
+      Debug.error('UnitPriceDetector failed', error);
+      return [];
+    }
+  }
+
+  /**
+   * The main product plus every size or pack option in its variant picker.
+   * Carousels and "frequently bought together" blocks are other products.
+   */
+  private findOptions(context: PageContext, main: UnitOption | null): UnitOption[] {
+    const options: UnitOption[] = main ? [main] : [];
+    const picker = this.findPicker();
+
+    picker?.querySelectorAll<HTMLElement>(UnitPriceDetector.OPTION_SELECTOR).forEach(element => {
+      if (!element.closest(UnitPriceDetector.VARIANT_SCOPE)) return;
+
+      const text = (element.textContent || '').replace(/\s+/g, ' ').trim();
+      if (text.length === 0 || text.length > 150) return;
+
+      const prices = PriceExtractor.findPrices(text, context)
+        .filter(price => !UnitPriceDetector.UNIT_PRICE_TEXT.test(text.slice(price.index + price.raw.length)));
+      const quantity = QuantityExtractor.parse(text.replace(UnitPriceDetector.UNIT_SUFFIX, ''));
+      if (prices.length === 0 || prices.length > 2 || !quantity) return;
+
+      // With a strikethrough price alongside, the lower one is what's charged
+      const price = prices.reduce((lowest, candidate) => (candidate.amount < lowest.amount ? candidate : lowest));
+      options.push({ label: QuantityExtractor.format(quantity), amount: price.amount, currency: price.currency, quantity, element });
+    });
+
+    const seen = new Set<string>();
+    return options.filter(option => {
+      const key = `${option.currency}|${option.amount}|${option.quantity.dimension}|${QuantityExtractor.measure(option.quantity)}`;
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+  }
+
+  /**
+   * The form or block holding the main product's add-to-cart control and its
+   * options. The first add-to-cart control on the page is taken as the main one.
+   */
+  private findPicker(): HTMLElement | null {
+    const buttons = Array.from(document.querySelectorAll<HTMLElement>(UnitPriceDetector.CONTROLS))
+      .filter(element => !element.closest('[id^="cognitive-sense"]') &&
+        PreselectionDetector.ADD_TO_CART.test(element.textContent || (element as HTMLInputElement).value || ''));
+    const button = buttons[0];
+    if (!button) return null;
+
+    const form = button.closest('form');
+    if (form?.querySelector(UnitPriceDetector.VARIANT_SCOPE)) return form;
+
+    // "Buy now" usually sits beside "Add to cart"; any other one belongs to another product
+    const own = (element: HTMLElement) => element.parentElement === button.parentElement;
+    for (let node = button.parentElement; node && node !== document.body; node = node.parentElement) {
+      if (buttons.some(other => !own(other) && node!.contains(other))) return null;
+      if (node.querySelector(UnitPriceDetector.VARIANT_SCOPE)) return node;
+    }
+    return null;
+  }
+
+  /**
+   * The larger option with the biggest per-unit premium over a smaller one
+   */
+  private findCostlierBundle(options: UnitOption[]): BundleComparison | null {
+    let worst: BundleComparison | null = null;
+
+    for (const single of options) {
+      for (const bundle of options) {
+        if (single === bundle || single.currency !== bundle.currency) continue;
+
+        const dimension = QuantityExtractor.comparable(single.quantity, bundle.quantity);
+        const ratio = QuantityExtractor.measure(bundle.quantity, dimension) / QuantityExtractor.measure(single.quantity, dimension);
+        if (ratio < UnitPriceDetector.MIN_BUNDLE_RATIO) continue;
+
+        const singleUnit = QuantityExtractor.unitPrice(single.amount, single.quantity, dimension);
+        const bundleUnit = QuantityExtractor.unitPrice(bundle.amount, bundle.quantity, dimension);
+        const premium = bundleUnit / singleUnit - 1;
+
+        if (premium > UnitPriceDetector.MIN_PREMIUM && (!worst || premium > worst.premium)) {
+          worst = { single, bundle, dimension, singleUnit, bundleUnit, premium };
+        }
+      }
+    }
+
+    return worst;
+  }
+
+  private async loadPriceHistory(context: PageContext): Promise<PriceHistory | null> {
+    try {
+      const response = await chrome.runtime.sendMessage({
+        type: 'GET_PRICE_HISTORY',
+        data: { url: context.url.href }
+      });
+      return response?.history || null;
+    } catch (error) {
+      console.warn('UnitPriceDetector could not load price history:', error);
+      return null;
+    }
+  }
+
+  private createBundleDetection(comparison: BundleComparison, options: UnitOption[], context: PageContext): Detection {
+    const { single, bundle, dimension, singleUnit, bundleUnit, premium } = comparison;
+    const currency = bundle.currency;
+    const unit = (amount: number) => QuantityExtractor.formatUnitPrice(amount, currency, dimension);
+
+    const perUnit = dimension === 'count' ? 1 : 100;
+    const extra = bundle.amount - singleUnit * QuantityExtractor.measure(bundle.quantity, dimension) / perUnit;
+    const percent = Math.round(premium * 100);
+
+    const score = Math.min(9, 5 + Math.round(premium * 10));
+    const severity = score >= 7 ? 'high' : score >= 5 ? 'medium' : 'low';
+
+    const details: Detection['details'] = [
+      { label: 'Type', value: 'bundle costs more per unit' },
+      { label: 'Smaller Option', value: `${single.label} at ${PriceExtractor.format(single.amount, currency)} (${unit(singleUnit)})` },
+      { label: 'Bundle', value: `${bundle.label} at ${PriceExtractor.format(bundle.amount, currency)} (${unit(bundleUnit)})` },
+      { label: 'Per-Unit Premium', value: `${percent}% more` },
+      { label: 'Extra Paid', value: `${PriceExtractor.format(extra, currency)} over buying the smaller option` }
+    ];
+    options
+      .filter(option => option !== single && option !== bundle && option.currency === currency)
+      .slice(0, 3)
+      .forEach(option => details.push({
+        label: 'Other Option',
+        value: `${option.label} at ${PriceExtractor.format(option.amount, currency)} (${unit(QuantityExtractor.unitPrice(option.amount, option.quantity, dimension))})`
+      }));
+
+    return {
+      id: `unit_price_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      agentKey: 'shopping_persuasion',
+      type: 'unit_price',
+      score,
+      severity,
+      title: `⚖️ The Bigger Pack Costs ${percent}% More per Unit`,
+      description: `${bundle.label} works out at ${unit(bundleUnit)}, against ${unit(singleUnit)} for ${single.label}. ` +
+        `Buying the same amount as smaller packs would save ${PriceExtractor.format(extra, currency)}.`,
+      reasoning: `Parsed the pack size of each option on this page and compared price per ${dimension === 'count' ? 'item' : `100 ${dimension === 'mass' ? 'g' : 'ml'}`}`,
+      element: bundle.element,
+      details,
+      metrics: {
+        premiumPercent: percent,
+        extra: Math.round(extra * 100) / 100
+      },
+      actions: [],
+      confidence: dimension === 'count' ? 0.7 : 0.85,
+      timestamp: new Date(),
+      pageUrl: context.url.href,
+      learnMoreUrl: 'https://cognitivesense.app/learn/unit-pricing'
+    };
+  }
+
+  private createShrinkflationDetection(
+    check: PackSizeCheck,
+    quantity: Quantity,
+    amount: number,
+    element: HTMLElement | undefined,
+    context: PageContext
+  ): Detection {
+    const { before } = check;
+    const format = (value: number) => PriceExtractor.format(value, before.currency);
+    const size = (value: number) => QuantityExtractor.formatSize(value, quantity.dimension);
+    const now = QuantityExtractor.measure(quantity);
+    const seen = new Date(before.observedAt).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' });
+
+    let score = 6;
+    if (check.unitPriceChangePercent >= 10) score += 1;
+    if (check.priceChangePercent > 0) score += 1;
+    const severity = score >= 7 ? 'high' : score >= 5 ? 'medium' : 'low';
+
+    return {
+      id: `unit_price_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      agentKey: 'shopping_persuasion',
+      type: 'unit_price',
+      score,
+      severity,
+      title: '⚖️ Smaller Pack, Same Price',
+      description: `This product was ${size(before.quantity!)} for ${format(before.amount)} when you saw it on ${seen}. ` +
+        `It's now ${size(now)} for ${format(amount)} - ${check.unitPriceChangePercent}% more per unit.`,
+      reasoning: 'Compared the pack size and price with what this device recorded on an earlier visit',
+      element,
+      details: [
+        { label: 'Type', value: 'shrinkflation' },
+        { label: 'Before', value: `${size(before.quantity!)} at ${format(before.amount)} (${seen})` },
+        { label: 'Now', value: `${size(now)} at ${format(amount)}` },
+        { label: 'Size Change', value: `${check.sizeChangePercent}%` },
+        { label: 'Price Change', value: `${check.priceChangePercent > 0 ? '+' : ''}${check.priceChangePercent}%` },
+        { label: 'Unit Price Change', value: `+${check.unitPriceChangePercent}%` }
+      ],
+      metrics: {
+        sizeChangePercent: check.sizeChangePercent,
+        unitPriceChangePercent: check.unitPriceChangePercent
+      },
+      actions: [],
+      confidence: 0.8,
+      timestamp: new Date(),
+      pageUrl: context.url.href,
+      learnMoreUrl: 'https://cognitivesense.app/learn/unit-pricing'
+    };
+  }
+}
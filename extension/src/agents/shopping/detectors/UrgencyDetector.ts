@@ -5,21 +5,37 @@
 import { PageContext, Detection } from '../../base/types';
 import { AIEngineManager } from '../../../ai/AIEngineManager';
 import { ContentGenerator } from '../../../ai/ContentGenerator';
+import { CountdownInspection, CountdownMonitor, TimerFinding } from '../../../core/CountdownMonitor';
+import { scoredSchema, ScoredResponse } from '../../../ai/ResponseSchema';
+import { ruleEngine } from '../../../rules/RuleEngine';
 import { Debug } from '../../../utils/Debug';
 import { ShoppingDetector } from '../ShoppingAgent';
 
 export class UrgencyDetector implements ShoppingDetector {
   name = 'UrgencyDetector';
 
+  private static readonly PROMPT_VERSION = 2;
+  private static readonly RESPONSE_SCHEMA = scoredSchema();
+
+  private countdownMonitor = new CountdownMonitor();
+
   async detect(context: PageContext, aiManager: AIEngineManager): Promise<Detection[]> {
     const detections: Detection[] = [];
     
     try {
+      // Watch live countdowns while the text analysis runs
+      const timerCheck = this.countdownMonitor
+        .inspect(this.findCountdownElements(), context.url.href)
+        .catch(error => {
+          console.warn('Countdown inspection failed:', error);
+          return [] as CountdownInspection[];
+        });
+
       // Extract urgency-related content
       const urgencyContent = this.extractUrgencyContent(context);
       
       if (urgencyContent.length === 0) {
-        return detections;
+        return this.fakeTimerDetections(await timerCheck, context);
       }
 
       // Get diverse set of urgency elements for better coverage
@@ -46,16 +62,20 @@ export class UrgencyDetector implements ShoppingDetector {
       
       console.log(`⚡ Fast mode: Analyzing ${topContent.length} diverse urgency elements (${urgencyContent.length} total)`);
       
-      // Batch analyze with AI for better performance
+      // Submit together - the AI scheduler decides how many run at once
       const analysisPromises = topContent.map(content => 
         this.analyzeUrgencyContent(content, context, aiManager)
       );
       
       const results = await Promise.all(analysisPromises);
       
+      // Observed timer behaviour replaces the model's guess about the same element
+      const fakeTimers = this.fakeTimerDetections(await timerCheck, context);
+      detections.push(...fakeTimers);
+      
       // Filter out null results
       for (const detection of results) {
-        if (detection) {
+        if (detection && !fakeTimers.some(timer => this.overlaps(timer.element, detection.element))) {
           detections.push(detection);
         }
       }
@@ -267,14 +287,20 @@ export class UrgencyDetector implements ShoppingDetector {
       // Use AI to analyze with specific, fast prompt
       const prompt = `Rate urgency manipulation (0-10): "${truncatedText}"\nCountdown timers, scarcity claims, time pressure = high score.`;
       
-      const aiResult = await aiManager.prompt.detect({
-        prompt
+      const aiResult = await aiManager.runPrompt<ScoredResponse>({
+        prompt,
+        schema: UrgencyDetector.RESPONSE_SCHEMA,
         // No context for maximum speed
-      });
+        cacheKey: { detector: this.name, snippet: truncatedText, version: UrgencyDetector.PROMPT_VERSION }
+      }, { priority: aiManager.priorityFor(content.element), label: this.name });
 
-      // Use the score directly from the AI response (already parsed in PromptEngine)
-      const score = aiResult.score || this.extractScoreFromResponse(aiResult.text);
-      const isManipulative = (aiResult.detected !== undefined ? aiResult.detected : score >= 6);
+      if (!aiResult.ok) {
+        Debug.warning(`Urgency prompt failed, using pattern scoring: ${aiResult.error}`);
+        return this.fallbackAnalysis(content, context);
+      }
+
+      const score = aiResult.data.score;
+      const isManipulative = score >= 6;
 
       if (!isManipulative && score < 4) {
         return null; // Not manipulative enough
@@ -283,7 +309,7 @@ export class UrgencyDetector implements ShoppingDetector {
       // Calculate severity (adjusted thresholds for shopping context)
       const severity = score >= 7 ? 'high' : score >= 5 ? 'medium' : 'low';
       
-      console.log(`📊 Detection: score=${score}, severity=${severity}, detected=${aiResult.detected}`);
+      console.log(`📊 Detection: score=${score}, severity=${severity}`);
       Debug.detectionFound('Urgency', score, severity);
 
       // Generate user-friendly content using Writer API
@@ -296,12 +322,11 @@ export class UrgencyDetector implements ShoppingDetector {
         severity,
         title: this.generateTitle(content.type, severity),
         description: this.generateDescription(content.text, content.type),
-        reasoning: aiResult.reasoning || 'AI detected urgency manipulation',
+        reasoning: aiResult.data.reasoning,
         element: content.element, // Include DOM element for highlighting
         details: [
           { label: 'Type', value: content.type.replace('_', ' ') },
-          { label: 'Content', value: content.text.slice(0, 100) + (content.text.length > 100 ? '...' : '') },
-          { label: 'Confidence', value: `${Math.round(aiResult.confidence * 100)}%` }
+          { label: 'Content', value: content.text.slice(0, 100) + (content.text.length > 100 ? '...' : '') }
         ],
         actions: [
           {
@@ -317,7 +342,7 @@ export class UrgencyDetector implements ShoppingDetector {
             onClick: () => this.showUrgencyEducation()
           }
         ],
-        confidence: aiResult.confidence,
+        confidence: 0.8,
         timestamp: new Date(),
         pageUrl: context.url.href,
         learnMoreUrl: 'https://cognitivesense.app/learn/urgency-tactics'
@@ -350,35 +375,58 @@ export class UrgencyDetector implements ShoppingDetector {
     }
   }
 
-  private extractScoreFromResponse(response: string): number {
-    // Try to extract score from AI response
-    const scoreMatch = response.match(/score[:\s]*(\d+(?:\.\d+)?)/i);
-    if (scoreMatch) {
-      return Math.min(10, Math.max(0, parseFloat(scoreMatch[1])));
-    }
-
-    // Fallback scoring based on keywords
-    const manipulationKeywords = [
-      'artificial', 'fake', 'misleading', 'pressure', 'manipulation',
-      'deceptive', 'false', 'exaggerated', 'suspicious'
-    ];
-
-    const urgencyKeywords = [
-      'urgent', 'hurry', 'limited', 'countdown', 'expires', 'last chance'
-    ];
-
-    let score = 0;
-    const lowerResponse = response.toLowerCase();
-
-    manipulationKeywords.forEach(keyword => {
-      if (lowerResponse.includes(keyword)) score += 2;
-    });
+  private fakeTimerDetections(inspections: CountdownInspection[], context: PageContext): Detection[] {
+    const labels: Record<TimerFinding, string> = {
+      resets_on_reload: 'Resets on reload',
+      differs_across_tabs: 'Differs across tabs',
+      restarts_after_zero: 'Restarts after zero',
+      visitor_storage: 'Per-visitor deadline'
+    };
 
-    urgencyKeywords.forEach(keyword => {
-      if (lowerResponse.includes(keyword)) score += 1;
-    });
+    // Storage hits alone aren't enough - the timer itself has to misbehave
+    return inspections
+      .filter(inspection => inspection.evidence.some(item => item.finding !== 'visitor_storage'))
+      .map((inspection): Detection => {
+        const findings = [...new Set(inspection.evidence.map(item => item.finding))];
+        const score = Math.min(10, 8 + findings.length);
+
+        Debug.detectionFound('Urgency', score, 'high');
+
+        return {
+          id: `urgency_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+          agentKey: 'shopping_persuasion',
+          type: 'urgency',
+          score,
+          severity: 'high',
+          title: '⚠️ Fake Countdown Timer',
+          description: `This countdown doesn't count down to a real deadline: ${findings.map(finding => labels[finding].toLowerCase()).join(', ')}. ` +
+            'The offer is very likely still available after it "ends".',
+          reasoning: `Observed timer behaviour: ${inspection.evidence.map(item => item.detail).join('; ')}`,
+          element: inspection.element,
+          details: [
+            { label: 'Type', value: 'fake timer' },
+            { label: 'Timer', value: inspection.text.slice(0, 60) },
+            { label: 'Claimed Deadline', value: new Date(inspection.deadline).toLocaleString() },
+            ...inspection.evidence.map(item => ({ label: labels[item.finding], value: item.detail }))
+          ],
+          actions: [
+            {
+              label: 'Take Time',
+              variant: 'primary',
+              icon: '⏰',
+              onClick: () => this.suggestCoolingOff()
+            }
+          ],
+          confidence: 0.95,
+          timestamp: new Date(),
+          pageUrl: context.url.href,
+          learnMoreUrl: 'https://cognitivesense.app/learn/urgency-tactics'
+        };
+      });
+  }
 
-    return Math.min(10, score);
+  private overlaps(a?: HTMLElement, b?: HTMLElement): boolean {
+    return !!a && !!b && (a.contains(b) || b.contains(a));
   }
 
   private generateTitle(type: string, severity: string): string {
@@ -424,39 +472,29 @@ export class UrgencyDetector implements ShoppingDetector {
   }
 
   private fallbackAnalysis(
-    content: { text: string; type: string },
+    content: { text: string; type: string; element?: HTMLElement },
     context: PageContext
   ): Detection | null {
-    const text = content.text.toLowerCase();
-    let score = 0;
-
-    // Score based on pattern matching
-    if (content.type === 'countdown') score += 6;
-    if (content.type === 'scarcity') score += 5;
-    if (content.type === 'time_limit') score += 4;
-    if (content.type === 'pressure') score += 7;
-
-    // Additional scoring
-    if (text.includes('only') && /\d+/.test(text)) score += 2;
-    if (text.includes('hurry') || text.includes('urgent')) score += 2;
-    if (text.includes('last chance') || text.includes('final')) score += 3;
+    const rules = ruleEngine.evaluate('urgency', content.text);
 
-    if (score < 4) return null;
+    if (rules.score < 4) return null;
 
-    const severity = score >= 8 ? 'high' : score >= 6 ? 'medium' : 'low';
+    const severity = rules.score >= 8 ? 'high' : rules.score >= 6 ? 'medium' : 'low';
 
     return {
       id: `urgency_fallback_${Date.now()}`,
       agentKey: 'shopping_persuasion',
       type: 'urgency',
-      score: Math.min(10, score),
+      score: rules.score,
       severity,
       title: this.generateTitle(content.type, severity),
       description: this.generateDescription(content.text, content.type),
-      reasoning: 'Pattern-based urgency detection',
+      reasoning: ruleEngine.explain(rules),
+      element: content.element,
       details: [
         { label: 'Type', value: content.type.replace('_', ' ') },
-        { label: 'Content', value: content.text.slice(0, 100) }
+        { label: 'Content', value: content.text.slice(0, 100) },
+        ...ruleEngine.evidenceDetails(rules)
       ],
       actions: [
         {
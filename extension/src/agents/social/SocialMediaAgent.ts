@@ -22,6 +22,7 @@ import { PoliticalManipulationDetector } from './detectors/PoliticalManipulation
 
 export interface SocialDetector {
   name: string;
+  incremental?: boolean;                // Works block by block, so can rerun on added content alone
   detect(context: PageContext, aiManager: AIEngineManager): Promise<Detection[]>;
 }
 
@@ -103,14 +104,29 @@ export class SocialMediaAgent extends BaseAgent {
       return [];
     }
 
+    console.log('Running social media detection...');
+    return this.runDetectors(this.detectors, context);
+  }
+
+  /**
+   * Rerun only block-level detectors on posts added after the feed was analyzed
+   */
+  async detectIncremental(context: PageContext): Promise<Detection[]> {
+    if (!this.initialized) {
+      return [];
+    }
+
+    return this.runDetectors(this.detectors.filter(detector => detector.incremental), context);
+  }
+
+  private async runDetectors(detectors: SocialDetector[], context: PageContext): Promise<Detection[]> {
     try {
       this.aiManager = (context as any).aiManager;
       
-      console.log('Running social media detection...');
       const allDetections: Detection[] = [];
 
       // Run all detectors in parallel
-      const detectionPromises = this.detectors.map(detector =>
+      const detectionPromises = detectors.map(detector =>
         detector.detect(context, this.aiManager!)
           .catch(error => {
             console.error(`${detector.name} failed:`, error);
@@ -122,7 +138,7 @@ export class SocialMediaAgent extends BaseAgent {
       results.forEach(detections => allDetections.push(...detections));
 
       // Log results
-      this.detectors.forEach((detector, index) => {
+      detectors.forEach((detector, index) => {
         const count = results[index]?.length || 0;
         console.log(`${detector.name}: ${count} detections`);
       });
@@ -2,12 +2,23 @@
  * EchoChamberDetector - Detects filter bubbles and echo chambers
  */
 
-import { PageContext, Detection } from '../../base/types';
+import { PageContext, Detection, TextBlock } from '../../base/types';
 import { AIEngineManager } from '../../../ai/AIEngineManager';
+import { scoredSchema, ScoredResponse } from '../../../ai/ResponseSchema';
+import { ruleEngine } from '../../../rules/RuleEngine';
 import { Debug } from '../../../utils/Debug';
 
+const PERSPECTIVES = ['diverse', 'clustered', 'polarized'] as const;
+
+interface EchoChamberResponse extends ScoredResponse {
+  perspective: typeof PERSPECTIVES[number];
+}
+
 export class EchoChamberDetector {
   name = 'EchoChamberDetector';
+  incremental = true;
+
+  private static readonly RESPONSE_SCHEMA = scoredSchema({ perspective: { type: 'string', enum: PERSPECTIVES } });
 
   async detect(context: PageContext, aiManager: AIEngineManager): Promise<Detection[]> {
     const detections: Detection[] = [];
@@ -15,8 +26,7 @@ export class EchoChamberDetector {
     try {
       Debug.debug('🔍 EchoChamberDetector: Starting detection...');
       
-      const pageText = context.content.text;
-      const echoChamberPatterns = this.findEchoChamberPatterns(pageText);
+      const echoChamberPatterns = this.findEchoChamberPatterns(context.content.blocks);
       
       Debug.debug(`📊 Found ${echoChamberPatterns.length} potential echo chamber indicators`);
       
@@ -43,27 +53,31 @@ export class EchoChamberDetector {
     }
   }
 
-  private findEchoChamberPatterns(text: string): string[] {
-    const patterns: string[] = [];
-    const lines = text.split('\n').filter(line => line.trim().length > 0);
+  private findEchoChamberPatterns(blocks: TextBlock[]): TextBlock[] {
+    const patterns: TextBlock[] = [];
+    const seen = new Set<string>();
 
-    for (const line of lines) {
-      const lowerLine = line.toLowerCase();
+    for (const block of blocks) {
+      if (!block.visible || seen.has(block.text)) continue;
+      seen.add(block.text);
+      const lowerLine = block.text.toLowerCase();
       
       // Echo chamber indicators
       if (/agree|disagree|opinion|believe|think|support|oppose|for|against|side|us|them|we|they|group|community|tribe|movement/i.test(lowerLine)) {
-        patterns.push(line);
+        patterns.push(block);
       }
     }
 
-    return [...new Set(patterns)].slice(0, 10);
+    return patterns.slice(0, 10);
   }
 
   private async analyzeEchoChamber(
-    content: string,
+    block: TextBlock,
     context: PageContext,
     aiManager: AIEngineManager
   ): Promise<Detection | null> {
+    const content = block.text;
+
     try {
       Debug.apiCall('Prompt', 'start');
       
@@ -73,19 +87,23 @@ export class EchoChamberDetector {
 Rate the echo chamber severity (0-10):
 - 0-3: Diverse perspectives
 - 4-6: Some viewpoint clustering
-- 7-10: Strong echo chamber indicators
-
-Respond with: SCORE: [0-10], PERSPECTIVE: [diverse|clustered|polarized]`;
+- 7-10: Strong echo chamber indicators`;
 
-      const result = await aiManager.prompt.detect({
+      const result = await aiManager.runPrompt<EchoChamberResponse>({
         prompt,
-        context: `Page: ${context.url.href}`
-      });
+        schema: EchoChamberDetector.RESPONSE_SCHEMA
+      }, { priority: aiManager.priorityFor(block.element), label: this.name });
 
-      Debug.apiCall('Prompt', 'success');
+      if (result.ok) {
+        Debug.apiCall('Prompt', 'success');
+      } else {
+        Debug.apiCall('Prompt', 'error', result.error);
+      }
 
-      const scoreMatch = result.text.match(/SCORE:\s*(\d+)/i);
-      const score = scoreMatch ? parseInt(scoreMatch[1]) : 5;
+      // Without a valid response, score from the deterministic ruleset
+      const rules = ruleEngine.evaluate('echo_chamber', content);
+      const score = result.ok ? result.data.score : rules.score;
+      const perspective = result.ok ? result.data.perspective : rules.subtype ?? 'clustered';
 
       if (score < 4) return null;
 
@@ -99,13 +117,16 @@ Respond with: SCORE: [0-10], PERSPECTIVE: [diverse|clustered|polarized]`;
         severity,
         title: `🔄 Echo Chamber Detected (${severity.toUpperCase()})`,
         description: `Limited perspective diversity: ${content.substring(0, 100)}...`,
-        reasoning: result.text,
+        reasoning: result.ok ? result.data.reasoning : ruleEngine.explain(rules),
+        element: block.element,
         details: [
+          { label: 'Perspective', value: perspective },
           { label: 'Severity', value: severity },
-          { label: 'Content', value: content.substring(0, 80) + (content.length > 80 ? '...' : '') }
+          { label: 'Content', value: content.substring(0, 80) + (content.length > 80 ? '...' : '') },
+          ...(result.ok ? [] : ruleEngine.evidenceDetails(rules))
         ],
         actions: [],
-        confidence: 0.8,
+        confidence: result.ok ? 0.8 : 0.5,
         timestamp: new Date(),
         pageUrl: context.url.href
       };
@@ -2,12 +2,21 @@
  * EmotionalManipulationDetector - Detects emotional manipulation tactics
  */
 
-import { PageContext, Detection } from '../../base/types';
+import { PageContext, Detection, TextBlock } from '../../base/types';
 import { AIEngineManager } from '../../../ai/AIEngineManager';
+import { scoredSchema, ScoredResponse } from '../../../ai/ResponseSchema';
+import { ruleEngine } from '../../../rules/RuleEngine';
 import { Debug } from '../../../utils/Debug';
 
+interface EmotionalResponse extends ScoredResponse {
+  emotions: string;
+}
+
 export class EmotionalManipulationDetector {
   name = 'EmotionalManipulationDetector';
+  incremental = true;
+
+  private static readonly RESPONSE_SCHEMA = scoredSchema({ emotions: { type: 'string', description: 'Comma-separated list' } });
 
   async detect(context: PageContext, aiManager: AIEngineManager): Promise<Detection[]> {
     const detections: Detection[] = [];
@@ -15,8 +24,7 @@ export class EmotionalManipulationDetector {
     try {
       Debug.debug('🔍 EmotionalManipulationDetector: Starting detection...');
       
-      const pageText = context.content.text;
-      const emotionalPatterns = this.findEmotionalPatterns(pageText);
+      const emotionalPatterns = this.findEmotionalPatterns(context.content.blocks);
       
       Debug.debug(`📊 Found ${emotionalPatterns.length} potential emotional manipulation`);
       
@@ -43,27 +51,31 @@ export class EmotionalManipulationDetector {
     }
   }
 
-  private findEmotionalPatterns(text: string): string[] {
-    const patterns: string[] = [];
-    const lines = text.split('\n').filter(line => line.trim().length > 0);
+  private findEmotionalPatterns(blocks: TextBlock[]): TextBlock[] {
+    const patterns: TextBlock[] = [];
+    const seen = new Set<string>();
 
-    for (const line of lines) {
-      const lowerLine = line.toLowerCase();
+    for (const block of blocks) {
+      if (!block.visible || seen.has(block.text)) continue;
+      seen.add(block.text);
+      const lowerLine = block.text.toLowerCase();
       
       // Emotional trigger words
       if (/angry|outrage|furious|disgusting|shocking|horrifying|terrifying|devastating|heartbreaking|unbelievable|disgusted|hate|love|fear|panic|crisis|emergency|urgent/i.test(lowerLine)) {
-        patterns.push(line);
+        patterns.push(block);
       }
     }
 
-    return [...new Set(patterns)].slice(0, 10);
+    return patterns.slice(0, 10);
   }
 
   private async analyzeEmotionalManipulation(
-    content: string,
+    block: TextBlock,
     context: PageContext,
     aiManager: AIEngineManager
   ): Promise<Detection | null> {
+    const content = block.text;
+
     try {
       Debug.apiCall('Prompt', 'start');
       
@@ -75,19 +87,23 @@ Rate the emotional manipulation severity (0-10):
 - 4-6: Moderate emotional language
 - 7-10: Heavy emotional manipulation
 
-Identify emotions: fear, anger, outrage, sadness, etc.
-
-Respond with: SCORE: [0-10], EMOTIONS: [list]`;
+Identify emotions: fear, anger, outrage, sadness, etc.`;
 
-      const result = await aiManager.prompt.detect({
+      const result = await aiManager.runPrompt<EmotionalResponse>({
         prompt,
-        context: `Page: ${context.url.href}`
-      });
+        schema: EmotionalManipulationDetector.RESPONSE_SCHEMA
+      }, { priority: aiManager.priorityFor(block.element), label: this.name });
 
-      Debug.apiCall('Prompt', 'success');
+      if (result.ok) {
+        Debug.apiCall('Prompt', 'success');
+      } else {
+        Debug.apiCall('Prompt', 'error', result.error);
+      }
 
-      const scoreMatch = result.text.match(/SCORE:\s*(\d+)/i);
-      const score = scoreMatch ? parseInt(scoreMatch[1]) : 5;
+      // Without a valid response, score from the deterministic ruleset
+      const rules = ruleEngine.evaluate('emotional_manipulation', content);
+      const score = result.ok ? result.data.score : rules.score;
+      const emotions = result.ok ? result.data.emotions : rules.subtype ?? 'unspecified';
 
       if (score < 4) return null;
 
@@ -101,13 +117,16 @@ Respond with: SCORE: [0-10], EMOTIONS: [list]`;
         severity,
         title: `😠 Emotional Manipulation (${severity.toUpperCase()})`,
         description: `Content using emotional triggers: ${content.substring(0, 100)}...`,
-        reasoning: result.text,
+        reasoning: result.ok ? result.data.reasoning : ruleEngine.explain(rules),
+        element: block.element,
         details: [
+          { label: 'Emotions', value: emotions },
           { label: 'Severity', value: severity },
-          { label: 'Content', value: content.substring(0, 80) + (content.length > 80 ? '...' : '') }
+          { label: 'Content', value: content.substring(0, 80) + (content.length > 80 ? '...' : '') },
+          ...(result.ok ? [] : ruleEngine.evidenceDetails(rules))
         ],
         actions: [],
-        confidence: 0.8,
+        confidence: result.ok ? 0.8 : 0.5,
         timestamp: new Date(),
         pageUrl: context.url.href
       };
@@ -2,12 +2,23 @@
  * FakeAccountDetector - Detects fake accounts and bot behavior
  */
 
-import { PageContext, Detection } from '../../base/types';
+import { PageContext, Detection, TextBlock } from '../../base/types';
 import { AIEngineManager } from '../../../ai/AIEngineManager';
+import { scoredSchema, ScoredResponse } from '../../../ai/ResponseSchema';
+import { ruleEngine } from '../../../rules/RuleEngine';
 import { Debug } from '../../../utils/Debug';
 
+const ACCOUNT_TYPES = ['bot', 'spam', 'fake', 'suspicious'] as const;
+
+interface FakeAccountResponse extends ScoredResponse {
+  type: typeof ACCOUNT_TYPES[number];
+}
+
 export class FakeAccountDetector {
   name = 'FakeAccountDetector';
+  incremental = true;
+
+  private static readonly RESPONSE_SCHEMA = scoredSchema({ type: { type: 'string', enum: ACCOUNT_TYPES } });
 
   async detect(context: PageContext, aiManager: AIEngineManager): Promise<Detection[]> {
     const detections: Detection[] = [];
@@ -15,8 +26,7 @@ export class FakeAccountDetector {
     try {
       Debug.debug('🔍 FakeAccountDetector: Starting detection...');
       
-      const pageText = context.content.text;
-      const fakeAccountPatterns = this.findFakeAccountPatterns(pageText);
+      const fakeAccountPatterns = this.findFakeAccountPatterns(context.content.blocks);
       
       Debug.debug(`📊 Found ${fakeAccountPatterns.length} potential fake account indicators`);
       
@@ -43,27 +53,31 @@ export class FakeAccountDetector {
     }
   }
 
-  private findFakeAccountPatterns(text: string): string[] {
-    const patterns: string[] = [];
-    const lines = text.split('\n').filter(line => line.trim().length > 0);
+  private findFakeAccountPatterns(blocks: TextBlock[]): TextBlock[] {
+    const patterns: TextBlock[] = [];
+    const seen = new Set<string>();
 
-    for (const line of lines) {
-      const lowerLine = line.toLowerCase();
+    for (const block of blocks) {
+      if (!block.visible || seen.has(block.text)) continue;
+      seen.add(block.text);
+      const lowerLine = block.text.toLowerCase();
       
       // Fake account indicators
       if (/bot|automated|script|generated|spam|follower|engagement|follow back|dm|click|link|verify|confirm|account|profile|username|handle/i.test(lowerLine)) {
-        patterns.push(line);
+        patterns.push(block);
       }
     }
 
-    return [...new Set(patterns)].slice(0, 10);
+    return patterns.slice(0, 10);
   }
 
   private async analyzeFakeAccount(
-    content: string,
+    block: TextBlock,
     context: PageContext,
     aiManager: AIEngineManager
   ): Promise<Detection | null> {
+    const content = block.text;
+
     try {
       Debug.apiCall('Prompt', 'start');
       
@@ -75,22 +89,23 @@ Rate the fake account probability (0-10):
 - 4-6: Suspicious behavior
 - 7-10: Likely bot or fake account
 
-Indicators: automated language, spam patterns, engagement bait, etc.
-
-Respond with: SCORE: [0-10], TYPE: [bot|spam|fake|suspicious]`;
+Indicators: automated language, spam patterns, engagement bait, etc.`;
 
-      const result = await aiManager.prompt.detect({
+      const result = await aiManager.runPrompt<FakeAccountResponse>({
         prompt,
-        context: `Page: ${context.url.href}`
-      });
+        schema: FakeAccountDetector.RESPONSE_SCHEMA
+      }, { priority: aiManager.priorityFor(block.element), label: this.name });
 
-      Debug.apiCall('Prompt', 'success');
+      if (result.ok) {
+        Debug.apiCall('Prompt', 'success');
+      } else {
+        Debug.apiCall('Prompt', 'error', result.error);
+      }
 
-      const scoreMatch = result.text.match(/SCORE:\s*(\d+)/i);
-      const typeMatch = result.text.match(/TYPE:\s*(\w+)/i);
-      
-      const score = scoreMatch ? parseInt(scoreMatch[1]) : 5;
-      const type = typeMatch ? typeMatch[1].toLowerCase() : 'suspicious';
+      // Without a valid response, score from the deterministic ruleset
+      const rules = ruleEngine.evaluate('fake_account', content);
+      const score = result.ok ? result.data.score : rules.score;
+      const type = result.ok ? result.data.type : rules.subtype ?? 'suspicious';
 
       if (score < 4) return null;
 
@@ -104,14 +119,16 @@ Respond with: SCORE: [0-10], TYPE: [bot|spam|fake|suspicious]`;
         severity,
         title: `🤖 Fake Account Detected (${severity.toUpperCase()})`,
         description: `Suspicious account behavior: ${content.substring(0, 100)}...`,
-        reasoning: result.text,
+        reasoning: result.ok ? result.data.reasoning : ruleEngine.explain(rules),
+        element: block.element,
         details: [
           { label: 'Type', value: type },
           { label: 'Severity', value: severity },
-          { label: 'Content', value: content.substring(0, 80) + (content.length > 80 ? '...' : '') }
+          { label: 'Content', value: content.substring(0, 80) + (content.length > 80 ? '...' : '') },
+          ...(result.ok ? [] : ruleEngine.evidenceDetails(rules))
         ],
         actions: [],
-        confidence: 0.8,
+        confidence: result.ok ? 0.8 : 0.5,
         timestamp: new Date(),
         pageUrl: context.url.href
       };
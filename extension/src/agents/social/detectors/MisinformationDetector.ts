@@ -2,12 +2,23 @@
  * MisinformationDetector - Detects false or misleading information
  */
 
-import { PageContext, Detection } from '../../base/types';
+import { PageContext, Detection, TextBlock } from '../../base/types';
 import { AIEngineManager } from '../../../ai/AIEngineManager';
+import { scoredSchema, ScoredResponse } from '../../../ai/ResponseSchema';
+import { ruleEngine } from '../../../rules/RuleEngine';
 import { Debug } from '../../../utils/Debug';
 
+const CATEGORIES = ['health', 'politics', 'science', 'other'] as const;
+
+interface MisinformationResponse extends ScoredResponse {
+  category: typeof CATEGORIES[number];
+}
+
 export class MisinformationDetector {
   name = 'MisinformationDetector';
+  incremental = true;
+
+  private static readonly RESPONSE_SCHEMA = scoredSchema({ category: { type: 'string', enum: CATEGORIES } });
 
   async detect(context: PageContext, aiManager: AIEngineManager): Promise<Detection[]> {
     const detections: Detection[] = [];
@@ -15,8 +26,7 @@ export class MisinformationDetector {
     try {
       Debug.debug('🔍 MisinformationDetector: Starting detection...');
       
-      const pageText = context.content.text;
-      const misinformationPatterns = this.findMisinformationPatterns(pageText);
+      const misinformationPatterns = this.findMisinformationPatterns(context.content.blocks);
       
       Debug.debug(`📊 Found ${misinformationPatterns.length} potential misinformation`);
       
@@ -43,27 +53,31 @@ export class MisinformationDetector {
     }
   }
 
-  private findMisinformationPatterns(text: string): string[] {
-    const patterns: string[] = [];
-    const lines = text.split('\n').filter(line => line.trim().length > 0);
+  private findMisinformationPatterns(blocks: TextBlock[]): TextBlock[] {
+    const patterns: TextBlock[] = [];
+    const seen = new Set<string>();
 
-    for (const line of lines) {
-      const lowerLine = line.toLowerCase();
+    for (const block of blocks) {
+      if (!block.visible || seen.has(block.text)) continue;
+      seen.add(block.text);
+      const lowerLine = block.text.toLowerCase();
       
       // Misinformation indicators
       if (/claim|fact|truth|evidence|study|research|scientist|expert|prove|debunk|false|lie|hoax|conspiracy|theory/i.test(lowerLine)) {
-        patterns.push(line);
+        patterns.push(block);
       }
     }
 
-    return [...new Set(patterns)].slice(0, 10);
+    return patterns.slice(0, 10);
   }
 
   private async analyzeMisinformation(
-    content: string,
+    block: TextBlock,
     context: PageContext,
     aiManager: AIEngineManager
   ): Promise<Detection | null> {
+    const content = block.text;
+
     try {
       Debug.apiCall('Prompt', 'start');
       
@@ -73,22 +87,23 @@ export class MisinformationDetector {
 Rate the misinformation severity (0-10):
 - 0-3: Likely factual or opinion
 - 4-6: Contains some false claims
-- 7-10: Clearly false or misleading
-
-Respond with: SCORE: [0-10], CATEGORY: [health|politics|science|other]`;
+- 7-10: Clearly false or misleading`;
 
-      const result = await aiManager.prompt.detect({
+      const result = await aiManager.runPrompt<MisinformationResponse>({
         prompt,
-        context: `Page: ${context.url.href}`
-      });
+        schema: MisinformationDetector.RESPONSE_SCHEMA
+      }, { priority: aiManager.priorityFor(block.element), label: this.name });
 
-      Debug.apiCall('Prompt', 'success');
+      if (result.ok) {
+        Debug.apiCall('Prompt', 'success');
+      } else {
+        Debug.apiCall('Prompt', 'error', result.error);
+      }
 
-      const scoreMatch = result.text.match(/SCORE:\s*(\d+)/i);
-      const categoryMatch = result.text.match(/CATEGORY:\s*(\w+)/i);
-      
-      const score = scoreMatch ? parseInt(scoreMatch[1]) : 5;
-      const category = categoryMatch ? categoryMatch[1].toLowerCase() : 'other';
+      // Without a valid response, score from the deterministic ruleset
+      const rules = ruleEngine.evaluate('misinformation', content);
+      const score = result.ok ? result.data.score : rules.score;
+      const category = result.ok ? result.data.category : rules.subtype ?? 'other';
 
       if (score < 4) return null;
 
@@ -102,14 +117,16 @@ Respond with: SCORE: [0-10], CATEGORY: [health|politics|science|other]`;
         severity,
         title: `🚫 Potential Misinformation (${severity.toUpperCase()})`,
         description: `Possible false or misleading claim: ${content.substring(0, 100)}...`,
-        reasoning: result.text,
+        reasoning: result.ok ? result.data.reasoning : ruleEngine.explain(rules),
+        element: block.element,
         details: [
           { label: 'Category', value: category },
           { label: 'Severity', value: severity },
-          { label: 'Content', value: content.substring(0, 80) + (content.length > 80 ? '...' : '') }
+          { label: 'Content', value: content.substring(0, 80) + (content.length > 80 ? '...' : '') },
+          ...(result.ok ? [] : ruleEngine.evidenceDetails(rules))
         ],
         actions: [],
-        confidence: 0.8,
+        confidence: result.ok ? 0.8 : 0.5,
         timestamp: new Date(),
         pageUrl: context.url.href
       };
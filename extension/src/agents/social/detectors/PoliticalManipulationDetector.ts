@@ -2,12 +2,23 @@
  * PoliticalManipulationDetector - Detects political bias and propaganda
  */
 
-import { PageContext, Detection } from '../../base/types';
+import { PageContext, Detection, TextBlock } from '../../base/types';
 import { AIEngineManager } from '../../../ai/AIEngineManager';
+import { scoredSchema, ScoredResponse } from '../../../ai/ResponseSchema';
+import { ruleEngine } from '../../../rules/RuleEngine';
 import { Debug } from '../../../utils/Debug';
 
+const BIASES = ['left', 'right', 'neutral', 'unclear'] as const;
+
+interface PoliticalResponse extends ScoredResponse {
+  bias: typeof BIASES[number];
+}
+
 export class PoliticalManipulationDetector {
   name = 'PoliticalManipulationDetector';
+  incremental = true;
+
+  private static readonly RESPONSE_SCHEMA = scoredSchema({ bias: { type: 'string', enum: BIASES } });
 
   async detect(context: PageContext, aiManager: AIEngineManager): Promise<Detection[]> {
     const detections: Detection[] = [];
@@ -15,8 +26,7 @@ export class PoliticalManipulationDetector {
     try {
       Debug.debug('🔍 PoliticalManipulationDetector: Starting detection...');
       
-      const pageText = context.content.text;
-      const politicalPatterns = this.findPoliticalPatterns(pageText);
+      const politicalPatterns = this.findPoliticalPatterns(context.content.blocks);
       
       Debug.debug(`📊 Found ${politicalPatterns.length} potential political manipulation`);
       
@@ -43,27 +53,31 @@ export class PoliticalManipulationDetector {
     }
   }
 
-  private findPoliticalPatterns(text: string): string[] {
-    const patterns: string[] = [];
-    const lines = text.split('\n').filter(line => line.trim().length > 0);
+  private findPoliticalPatterns(blocks: TextBlock[]): TextBlock[] {
+    const patterns: TextBlock[] = [];
+    const seen = new Set<string>();
 
-    for (const line of lines) {
-      const lowerLine = line.toLowerCase();
+    for (const block of blocks) {
+      if (!block.visible || seen.has(block.text)) continue;
+      seen.add(block.text);
+      const lowerLine = block.text.toLowerCase();
       
       // Political indicators
       if (/democrat|republican|liberal|conservative|left|right|socialist|capitalist|communist|fascist|election|vote|campaign|politician|party|government|policy|law|bill|congress|senate/i.test(lowerLine)) {
-        patterns.push(line);
+        patterns.push(block);
       }
     }
 
-    return [...new Set(patterns)].slice(0, 10);
+    return patterns.slice(0, 10);
   }
 
   private async analyzePoliticalManipulation(
-    content: string,
+    block: TextBlock,
     context: PageContext,
     aiManager: AIEngineManager
   ): Promise<Detection | null> {
+    const content = block.text;
+
     try {
       Debug.apiCall('Prompt', 'start');
       
@@ -75,22 +89,23 @@ Rate the political manipulation severity (0-10):
 - 4-6: Moderate political bias
 - 7-10: Strong propaganda or manipulation
 
-Identify bias direction and propaganda techniques.
-
-Respond with: SCORE: [0-10], BIAS: [left|right|neutral|unclear]`;
+Identify bias direction and propaganda techniques.`;
 
-      const result = await aiManager.prompt.detect({
+      const result = await aiManager.runPrompt<PoliticalResponse>({
         prompt,
-        context: `Page: ${context.url.href}`
-      });
+        schema: PoliticalManipulationDetector.RESPONSE_SCHEMA
+      }, { priority: aiManager.priorityFor(block.element), label: this.name });
 
-      Debug.apiCall('Prompt', 'success');
+      if (result.ok) {
+        Debug.apiCall('Prompt', 'success');
+      } else {
+        Debug.apiCall('Prompt', 'error', result.error);
+      }
 
-      const scoreMatch = result.text.match(/SCORE:\s*(\d+)/i);
-      const biasMatch = result.text.match(/BIAS:\s*(\w+)/i);
-      
-      const score = scoreMatch ? parseInt(scoreMatch[1]) : 5;
-      const bias = biasMatch ? biasMatch[1].toLowerCase() : 'unclear';
+      // Without a valid response, score from the deterministic ruleset
+      const rules = ruleEngine.evaluate('political_manipulation', content);
+      const score = result.ok ? result.data.score : rules.score;
+      const bias = result.ok ? result.data.bias : rules.subtype ?? 'unclear';
 
       if (score < 4) return null;
 
@@ -104,14 +119,16 @@ Respond with: SCORE: [0-10], BIAS: [left|right|neutral|unclear]`;
         severity,
         title: `🎭 Political Manipulation (${severity.toUpperCase()})`,
         description: `Political bias or propaganda: ${content.substring(0, 100)}...`,
-        reasoning: result.text,
+        reasoning: result.ok ? result.data.reasoning : ruleEngine.explain(rules),
+        element: block.element,
         details: [
           { label: 'Bias', value: bias },
           { label: 'Severity', value: severity },
-          { label: 'Content', value: content.substring(0, 80) + (content.length > 80 ? '...' : '') }
+          { label: 'Content', value: content.substring(0, 80) + (content.length > 80 ? '...' : '') },
+          ...(result.ok ? [] : ruleEngine.evidenceDetails(rules))
         ],
         actions: [],
-        confidence: 0.8,
+        confidence: result.ok ? 0.8 : 0.5,
         timestamp: new Date(),
         pageUrl: context.url.href
       };
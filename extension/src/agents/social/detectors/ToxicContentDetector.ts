@@ -2,12 +2,23 @@
  * ToxicContentDetector - Detects toxic, hateful, and harassing content
  */
 
-import { PageContext, Detection } from '../../base/types';
+import { PageContext, Detection, TextBlock } from '../../base/types';
 import { AIEngineManager } from '../../../ai/AIEngineManager';
+import { scoredSchema, ScoredResponse } from '../../../ai/ResponseSchema';
+import { ruleEngine } from '../../../rules/RuleEngine';
 import { Debug } from '../../../utils/Debug';
 
+const CATEGORIES = ['hate', 'harassment', 'threat', 'discrimination', 'other'] as const;
+
+interface ToxicityResponse extends ScoredResponse {
+  category: typeof CATEGORIES[number];
+}
+
 export class ToxicContentDetector {
   name = 'ToxicContentDetector';
+  incremental = true;
+
+  private static readonly RESPONSE_SCHEMA = scoredSchema({ category: { type: 'string', enum: CATEGORIES } });
 
   async detect(context: PageContext, aiManager: AIEngineManager): Promise<Detection[]> {
     const detections: Detection[] = [];
@@ -15,8 +26,7 @@ export class ToxicContentDetector {
     try {
       Debug.debug('🔍 ToxicContentDetector: Starting detection...');
       
-      const pageText = context.content.text;
-      const toxicPatterns = this.findToxicPatterns(pageText);
+      const toxicPatterns = this.findToxicPatterns(context.content.blocks);
       
       Debug.debug(`📊 Found ${toxicPatterns.length} potential toxic content`);
       
@@ -43,27 +53,31 @@ export class ToxicContentDetector {
     }
   }
 
-  private findToxicPatterns(text: string): string[] {
-    const patterns: string[] = [];
-    const lines = text.split('\n').filter(line => line.trim().length > 0);
+  private findToxicPatterns(blocks: TextBlock[]): TextBlock[] {
+    const patterns: TextBlock[] = [];
+    const seen = new Set<string>();
 
-    for (const line of lines) {
-      const lowerLine = line.toLowerCase();
+    for (const block of blocks) {
+      if (!block.visible || seen.has(block.text)) continue;
+      seen.add(block.text);
+      const lowerLine = block.text.toLowerCase();
       
       // Toxic indicators
       if (/hate|racist|sexist|discriminate|harassment|bully|threat|violence|attack|abuse|toxic|offensive|slur|derogatory|insult/i.test(lowerLine)) {
-        patterns.push(line);
+        patterns.push(block);
       }
     }
 
-    return [...new Set(patterns)].slice(0, 10);
+    return patterns.slice(0, 10);
   }
 
   private async analyzeToxicity(
-    content: string,
+    block: TextBlock,
     context: PageContext,
     aiManager: AIEngineManager
   ): Promise<Detection | null> {
+    const content = block.text;
+
     try {
       Debug.apiCall('Prompt', 'start');
       
@@ -75,22 +89,23 @@ Rate the toxicity severity (0-10):
 - 4-6: Mildly toxic or offensive
 - 7-10: Highly toxic, hateful, or harassing
 
-Categories: hate speech, harassment, threats, discrimination, etc.
-
-Respond with: SCORE: [0-10], CATEGORY: [hate|harassment|threat|discrimination|other]`;
+Categories: hate speech, harassment, threats, discrimination, etc.`;
 
-      const result = await aiManager.prompt.detect({
+      const result = await aiManager.runPrompt<ToxicityResponse>({
         prompt,
-        context: `Page: ${context.url.href}`
-      });
+        schema: ToxicContentDetector.RESPONSE_SCHEMA
+      }, { priority: aiManager.priorityFor(block.element), label: this.name });
 
-      Debug.apiCall('Prompt', 'success');
+      if (result.ok) {
+        Debug.apiCall('Prompt', 'success');
+      } else {
+        Debug.apiCall('Prompt', 'error', result.error);
+      }
 
-      const scoreMatch = result.text.match(/SCORE:\s*(\d+)/i);
-      const categoryMatch = result.text.match(/CATEGORY:\s*(\w+)/i);
-      
-      const score = scoreMatch ? parseInt(scoreMatch[1]) : 5;
-      const category = categoryMatch ? categoryMatch[1].toLowerCase() : 'other';
+      // Without a valid response, score from the deterministic ruleset
+      const rules = ruleEngine.evaluate('toxic_content', content);
+      const score = result.ok ? result.data.score : rules.score;
+      const category = result.ok ? result.data.category : rules.subtype ?? 'other';
 
       if (score < 4) return null;
 
@@ -104,14 +119,16 @@ Respond with: SCORE: [0-10], CATEGORY: [hate|harassment|threat|discrimination|ot
         severity,
         title: `🔴 Toxic Content (${severity.toUpperCase()})`,
         description: `Harmful or offensive content: ${content.substring(0, 100)}...`,
-        reasoning: result.text,
+        reasoning: result.ok ? result.data.reasoning : ruleEngine.explain(rules),
+        element: block.element,
         details: [
           { label: 'Category', value: category },
           { label: 'Severity', value: severity },
-          { label: 'Content', value: content.substring(0, 80) + (content.length > 80 ? '...' : '') }
+          { label: 'Content', value: content.substring(0, 80) + (content.length > 80 ? '...' : '') },
+          ...(result.ok ? [] : ruleEngine.evidenceDetails(rules))
         ],
         actions: [],
-        confidence: 0.8,
+        confidence: result.ok ? 0.8 : 0.5,
         timestamp: new Date(),
         pageUrl: context.url.href
       };
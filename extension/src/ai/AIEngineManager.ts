@@ -2,10 +2,11 @@
  * Central manager for all Chrome Built-in AI engines
  */
 
-import { PromptEngine } from './PromptEngine';
+import { PromptEngine, StructuredPromptRequest, StructuredResult } from './PromptEngine';
 import { SummarizerEngine } from './SummarizerEngine';
 import { WriterEngine } from './WriterEngine';
 import { LanguageEngine } from './LanguageEngine';
+import { RequestScheduler, ScheduleOptions, SchedulePriority } from './RequestScheduler';
 
 export class AIEngineManager {
   private static instance: AIEngineManager;
@@ -14,6 +15,7 @@ export class AIEngineManager {
   public summarizer: SummarizerEngine;
   public writer: WriterEngine;
   public language: LanguageEngine;
+  public scheduler: RequestScheduler;
   
   private initialized = false;
   private initializationPromise: Promise<void> | null = null;
@@ -23,6 +25,7 @@ export class AIEngineManager {
     this.summarizer = new SummarizerEngine();
     this.writer = new WriterEngine();
     this.language = new LanguageEngine();
+    this.scheduler = new RequestScheduler();
   }
 
   static getInstance(): AIEngineManager {
@@ -121,6 +124,40 @@ export class AIEngineManager {
     };
   }
 
+  /**
+   * Run a structured prompt through the shared scheduler. Cache hits skip the queue;
+   * cancellation and an exhausted page budget come back as failed results so
+   * detectors fall back the same way as for any other prompt failure.
+   */
+  async runPrompt<T>(request: StructuredPromptRequest, options: ScheduleOptions = {}): Promise<StructuredResult<T>> {
+    const cached = await this.prompt.getCached<T>(request);
+    if (cached) {
+      return { ok: true, data: cached, fromCache: true };
+    }
+
+    try {
+      return await this.scheduler.schedule(
+        signal => this.prompt.detectStructured<T>({ ...request, signal }),
+        options
+      );
+    } catch (error: any) {
+      return { ok: false, error: error?.message || String(error) };
+    }
+  }
+
+  /**
+   * Scheduler lane for a detection target - on-screen elements are analyzed first
+   */
+  priorityFor(element?: HTMLElement): SchedulePriority {
+    if (!element || !element.isConnected) return 'normal';
+
+    const rect = element.getBoundingClientRect();
+    const inViewport = rect.bottom > 0 && rect.right > 0 &&
+      rect.top < window.innerHeight && rect.left < window.innerWidth;
+
+    return inViewport ? 'viewport' : 'normal';
+  }
+
   /**
    * Comprehensive content analysis using all available engines
    */
@@ -139,13 +176,19 @@ export class AIEngineManager {
       const languageResult = await this.language.detectLanguage(content.text);
       
       // Summarize content for efficient analysis
-      const summaryResult = await this.summarizer.summarizeForDetection(content.text);
+      const summaryResult = await this.scheduler.schedule(
+        () => this.summarizer.summarizeForDetection(content.text),
+        { priority: 'background', label: 'Summarizer' }
+      );
       
       // Extract manipulation signals using prompt engine
-      const promptResult = await this.prompt.detect({
-        prompt: `Analyze this ${content.pageType} page content for manipulation tactics: ${summaryResult.productInfo} ${summaryResult.pricingInfo} ${summaryResult.urgencySignals}`,
-        context: `URL: ${content.url}, Language: ${languageResult.language}`
-      });
+      const promptResult = await this.scheduler.schedule(
+        () => this.prompt.detect({
+          prompt: `Analyze this ${content.pageType} page content for manipulation tactics: ${summaryResult.productInfo} ${summaryResult.pricingInfo} ${summaryResult.urgencySignals}`,
+          context: `URL: ${content.url}, Language: ${languageResult.language}`
+        }),
+        { priority: 'background', label: 'analyzeContent' }
+      );
 
       return {
         summary: summaryResult,
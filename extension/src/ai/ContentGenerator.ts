@@ -19,13 +19,16 @@ export class ContentGenerator {
    */
   async generateUserFriendlyWarning(detection: Detection): Promise<string> {
     try {
-      const response = await this.aiManager.writer.write({
-        type: 'warning',
-        context: `Shopping manipulation tactic: ${detection.type}. Severity: ${detection.severity}. Description: ${detection.description}`,
-        tone: 'friendly',
-        length: 'short',
-        audience: 'general'
-      });
+      const response = await this.aiManager.scheduler.schedule(
+        () => this.aiManager.writer.write({
+          type: 'warning',
+          context: `Shopping manipulation tactic: ${detection.type}. Severity: ${detection.severity}. Description: ${detection.description}`,
+          tone: 'friendly',
+          length: 'short',
+          audience: 'general'
+        }),
+        { priority: 'background', label: 'Writer' }
+      );
 
       console.log(`✍️ Generated user-friendly warning for ${detection.type}`);
       let content = response.content;
@@ -48,13 +51,16 @@ export class ContentGenerator {
    */
   async generateEducationalTip(detection: Detection): Promise<string> {
     try {
-      const response = await this.aiManager.writer.write({
-        type: 'recommendation',
-        context: `Help consumers avoid this manipulation tactic: ${detection.type}. Type: ${detection.type}`,
-        tone: 'educational',
-        length: 'short',
-        audience: 'general'
-      });
+      const response = await this.aiManager.scheduler.schedule(
+        () => this.aiManager.writer.write({
+          type: 'recommendation',
+          context: `Help consumers avoid this manipulation tactic: ${detection.type}. Type: ${detection.type}`,
+          tone: 'educational',
+          length: 'short',
+          audience: 'general'
+        }),
+        { priority: 'background', label: 'Writer' }
+      );
 
       console.log(`💡 Generated educational tip for ${detection.type}`);
       let content = response.content;
@@ -82,7 +88,15 @@ export class ContentGenerator {
       social_proof: '👥 These claims might not be verified. Check independent reviews.',
       fomo: '😰 This creates fear of missing out. Remember, good deals come back!',
       bundling: '📦 Hidden items might be added. Review your cart carefully.',
-      dark_pattern: '⚠️ This design is meant to confuse. Read carefully before clicking.'
+      dark_pattern: '⚠️ This design is meant to confuse. Read carefully before clicking.',
+      scarcity_claim: '📉 This number doesn\'t behave like a real count. Don\'t let it rush you.',
+      drip_pricing: '🧾 Costs were added after the first price you saw. Check every line before paying.',
+      cancellation_friction: '🚪 Cancelling is made much harder than signing up. Find the way out before you commit.',
+      consent_audit: '🍪 This cookie banner makes refusing harder than accepting. You can still say no.',
+      review_trust: '⭐ The reviews here show signs of manipulation. Don\'t rely on the star rating alone.',
+      subscription_terms: '🔁 The headline price isn\'t what you\'ll pay. Check the 12-month total before signing up.',
+      fine_print: '📄 The policies behind this page contain terms that work against you. Read the quoted clause first.',
+      unit_price: '⚖️ Bigger or newer isn\'t always better value here. Compare the price per unit.'
     };
 
     return warnings[detection.type] || `⚠️ ${detection.description}`;
@@ -98,7 +112,15 @@ export class ContentGenerator {
       social_proof: '💡 Look for verified reviews with photos from real customers.',
       fomo: '💡 Exclusive offers are marketing tactics. Better deals often appear later.',
       bundling: '💡 Always review what\'s in your cart before checkout.',
-      dark_pattern: '💡 Read all options carefully. Don\'t assume defaults are best for you.'
+      dark_pattern: '💡 Read all options carefully. Don\'t assume defaults are best for you.',
+      scarcity_claim: '💡 Revisit the page later - "only 2 left" is often still there next week.',
+      drip_pricing: '💡 Compare stores on the final total, not the headline price.',
+      cancellation_friction: '💡 Check account settings and the help pages for cancellation steps, and note the renewal date.',
+      consent_audit: '💡 Open the banner\'s settings and switch off every purpose and "legitimate interest" before saving.',
+      review_trust: '💡 Sort by most recent and read the 2-4 star reviews - they are the hardest to fake.',
+      subscription_terms: '💡 Set a reminder a few days before the trial ends so you can cancel in time if you don\'t want it.',
+      fine_print: '💡 Check the returns and privacy settings now - opting out is easier before you pay than after.',
+      unit_price: '💡 Divide the price by the weight, volume or count - the shelf-tag unit price is the fairest comparison.'
     };
 
     return tips[detection.type] || '💡 Compare options and take your time with purchasing decisions.';
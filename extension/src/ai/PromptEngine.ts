@@ -2,11 +2,16 @@
  * Chrome Built-in AI Prompt API wrapper for manipulation detection
  */
 
+import { PromptCache, PromptCacheKey } from '../storage/PromptCache';
+import { ResponseSchema, validateResponse } from './ResponseSchema';
+import { ruleEngine } from '../rules/RuleEngine';
+
 export interface PromptRequest {
   prompt: string;
   context?: string;
   temperature?: number;
   maxTokens?: number;
+  cacheKey?: PromptCacheKey;            // Reuse a stored result for the same snippet
 }
 
 export interface PromptResponse {
@@ -17,9 +22,23 @@ export interface PromptResponse {
   detected?: boolean; // Add detected flag
 }
 
+export interface StructuredPromptRequest {
+  prompt: string;
+  schema: ResponseSchema;               // Passed to the session as responseConstraint
+  cacheKey?: PromptCacheKey;
+  signal?: AbortSignal;                 // Aborts the model call, e.g. on navigation
+}
+
+export type StructuredResult<T> =
+  | { ok: true; data: T; fromCache: boolean }
+  | { ok: false; error: string; raw?: string };
+
 export class PromptEngine {
+  private static readonly STRUCTURED_ATTEMPTS = 2;       // First try plus one retry
+
   private baseSession: any = null;
   private isAvailable = false;
+  private cache = new PromptCache();
 
   async initialize(): Promise<void> {
     try {
@@ -62,6 +81,14 @@ export class PromptEngine {
       return this.fallbackDetection(request);
     }
 
+    if (request.cacheKey) {
+      const cached = await this.cache.get<PromptResponse>(request.cacheKey);
+      if (cached) {
+        console.log(`⚡ Prompt cache hit for ${request.cacheKey.detector}`);
+        return cached;
+      }
+    }
+
     try {
       // Clone session for stateless, parallel calls (faster!)
       const session = await this.baseSession.clone();
@@ -78,7 +105,15 @@ export class PromptEngine {
       // Destroy cloned session to free memory
       session.destroy();
       
-      return this.parseResponse(response);
+      const { result, parsed } = this.parseResponse(response);
+      
+      // Only real model output is cached - fallback results are cheap and should
+      // not outlive a session where the model was unavailable or its reply unreadable
+      if (parsed && request.cacheKey) {
+        await this.cache.set(request.cacheKey, result);
+      }
+      
+      return result;
     } catch (error: any) {
       // If quota exceeded or other AI error, fall back to pattern detection
       if (error?.name === 'QuotaExceededError' || error?.message?.includes('too large')) {
@@ -90,24 +125,80 @@ export class PromptEngine {
     }
   }
 
-  async detectBatch(requests: PromptRequest[]): Promise<PromptResponse[]> {
+  /**
+   * Prompt for output matching a JSON schema. The schema is enforced through the
+   * session's responseConstraint and checked again here; malformed output gets one
+   * retry with the validation errors, after which an explicit failure is returned.
+   */
+  async detectStructured<T>(request: StructuredPromptRequest): Promise<StructuredResult<T>> {
+    const cached = await this.getCached<T>(request);
+    if (cached) {
+      return { ok: true, data: cached, fromCache: true };
+    }
+
     if (!this.isAvailable || !this.baseSession) {
-      return requests.map(req => this.fallbackDetection(req));
+      return { ok: false, error: 'Prompt API unavailable' };
     }
 
-    // Process in parallel with a concurrency limit to avoid overwhelming the API
-    const BATCH_SIZE = 2; // Process 2 at a time - sweet spot for speed vs API limits
-    const results: PromptResponse[] = [];
-    
-    for (let i = 0; i < requests.length; i += BATCH_SIZE) {
-      const batch = requests.slice(i, i + BATCH_SIZE);
-      const batchResults = await Promise.all(
-        batch.map(req => this.detect(req))
-      );
-      results.push(...batchResults);
+    let prompt = this.buildStructuredPrompt(request);
+    let lastError = '';
+    let raw: string | undefined;
+
+    for (let attempt = 1; attempt <= PromptEngine.STRUCTURED_ATTEMPTS; attempt++) {
+      let session: any = null;
+      try {
+        session = await this.baseSession.clone({ signal: request.signal });
+        raw = await session.prompt(prompt, { responseConstraint: request.schema, signal: request.signal }) as string;
+
+        const parsed = this.parseJson(raw);
+        const errors = parsed === undefined
+          ? ['response is not valid JSON']
+          : validateResponse(request.schema, parsed);
+
+        if (errors.length === 0) {
+          const data = parsed as T;
+          if (request.cacheKey) {
+            await this.cache.set(request.cacheKey, data);
+          }
+          return { ok: true, data, fromCache: false };
+        }
+
+        lastError = errors.join('; ');
+        console.warn(`Structured response invalid (attempt ${attempt}): ${lastError}`);
+
+        prompt = `${this.buildStructuredPrompt(request)}
+
+Your previous reply was rejected: ${lastError}. Reply again with only the corrected JSON object.`;
+      } catch (error: any) {
+        if (error?.name === 'AbortError') {
+          return { ok: false, error: 'Cancelled' };
+        }
+        // Oversized input or quota errors will not succeed on retry
+        if (error?.name === 'QuotaExceededError' || error?.message?.includes('too large')) {
+          return { ok: false, error: 'Input too large for Prompt API' };
+        }
+        lastError = error?.message || String(error);
+        console.error('Structured prompt failed:', error);
+      } finally {
+        // Aborted or failed prompts must not leave the clone holding model memory
+        session?.destroy();
+      }
     }
-    
-    return results;
+
+    return { ok: false, error: lastError, raw };
+  }
+
+  /**
+   * Previously stored, still valid result for a structured request
+   */
+  async getCached<T>(request: StructuredPromptRequest): Promise<T | null> {
+    if (!request.cacheKey) return null;
+
+    const cached = await this.cache.get<T>(request.cacheKey);
+    if (!cached || validateResponse(request.schema, cached).length > 0) return null;
+
+    console.log(`⚡ Prompt cache hit for ${request.cacheKey.detector}`);
+    return cached;
   }
 
   private buildPrompt(request: PromptRequest): string {
@@ -120,7 +211,40 @@ RESPOND WITH ONLY THIS JSON FORMAT (no other text):
 {"detected": true/false, "score": 0-10, "confidence": 0-1, "reasoning": "one sentence"}`;
   }
 
-  private parseResponse(response: string): PromptResponse {
+  private buildStructuredPrompt(request: StructuredPromptRequest): string {
+    const fields = Object.entries(request.schema.properties)
+      .map(([name, field]) => {
+        const detail = field.type === 'string' && field.enum
+          ? field.enum.join('|')
+          : (field.type === 'number' || field.type === 'integer') && field.maximum !== undefined
+            ? `${field.minimum ?? 0}-${field.maximum}`
+            : field.type;
+        return `"${name}": ${detail}`;
+      })
+      .join(', ');
+
+    return `${request.prompt}
+
+Respond with only a JSON object: {${fields}}`;
+  }
+
+  private parseJson(response: string): unknown {
+    const clean = response.trim().replace(/```(?:json)?/g, '').trim();
+    const candidates = [clean, clean.match(/\{[\s\S]*\}/)?.[0]];
+
+    for (const candidate of candidates) {
+      if (!candidate) continue;
+      try {
+        return JSON.parse(candidate);
+      } catch {
+        // Try the next candidate
+      }
+    }
+
+    return undefined;
+  }
+
+  private parseResponse(response: string): { result: PromptResponse; parsed: boolean } {
     try {
       // Clean the response - remove markdown code blocks if present
       let cleanResponse = response.trim();
@@ -143,11 +267,14 @@ RESPOND WITH ONLY THIS JSON FORMAT (no other text):
       
       // Build response from extracted values (more reliable than JSON.parse)
       return {
-        text: response,
-        detected: detectedMatch ? detectedMatch[1] === 'true' : false,
-        score: scoreMatch ? parseFloat(scoreMatch[1]) : 5,
-        confidence: confidenceMatch ? parseFloat(confidenceMatch[1]) : 0.5,
-        reasoning: reasoningMatch ? reasoningMatch[1].substring(0, 200) : 'AI analysis completed'
+        parsed: true,
+        result: {
+          text: response,
+          detected: detectedMatch ? detectedMatch[1] === 'true' : false,
+          score: scoreMatch ? parseFloat(scoreMatch[1]) : undefined,
+          confidence: confidenceMatch ? parseFloat(confidenceMatch[1]) : 0.5,
+          reasoning: reasoningMatch ? reasoningMatch[1].substring(0, 200) : 'AI analysis completed'
+        }
       };
     } catch (error) {
       console.error('Failed to parse AI response:', error);
@@ -160,9 +287,12 @@ RESPOND WITH ONLY THIS JSON FORMAT (no other text):
                       score > 5;
 
       return {
-        text: response,
-        confidence: detected ? 0.6 : 0.3,
-        reasoning: 'Parsed from unstructured response'
+        parsed: false,
+        result: {
+          text: response,
+          confidence: detected ? 0.6 : 0.3,
+          reasoning: 'Parsed from unstructured response'
+        }
       };
     }
   }
@@ -188,52 +318,15 @@ RESPOND WITH ONLY THIS JSON FORMAT (no other text):
   }
 
   private fallbackDetection(request: PromptRequest): PromptResponse {
-    // Simple heuristic-based detection when AI is unavailable
-    const { prompt } = request;
-    const content = prompt.toLowerCase();
-    
-    const urgencyWords = ['urgent', 'hurry', 'limited time', 'expires', 'countdown'];
-    const anchoringWords = ['was', 'now', 'save', 'discount', 'off', '%'];
-    const socialWords = ['popular', 'trending', 'bought', 'customers', 'reviews'];
-    const fomoWords = ['exclusive', 'limited', 'rare', 'last chance', 'only'];
-
-    let score = 0;
-    const evidence: string[] = [];
-
-    urgencyWords.forEach(word => {
-      if (content.includes(word)) {
-        score += 2;
-        evidence.push(`Urgency: "${word}"`);
-      }
-    });
-
-    anchoringWords.forEach(word => {
-      if (content.includes(word)) {
-        score += 1.5;
-        evidence.push(`Anchoring: "${word}"`);
-      }
-    });
-
-    socialWords.forEach(word => {
-      if (content.includes(word)) {
-        score += 1;
-        evidence.push(`Social proof: "${word}"`);
-      }
-    });
-
-    fomoWords.forEach(word => {
-      if (content.includes(word)) {
-        score += 2;
-        evidence.push(`FOMO: "${word}"`);
-      }
-    });
-
-    const finalScore = Math.min(10, score);
+    // Deterministic ruleset when AI is unavailable - strongest matching tactic wins
+    const evaluation = ruleEngine.evaluateBest(request.prompt);
     
     return {
-      text: `Fallback detection completed. Score: ${finalScore}/10. Evidence: ${evidence.join(', ')}`,
-      confidence: finalScore > 5 ? 0.7 : 0.4,
-      reasoning: `Heuristic analysis found ${evidence.length} manipulation indicators`
+      text: `Fallback detection completed. Score: ${evaluation.score}/10. Evidence: ${evaluation.matches.map(match => match.evidence).join(', ')}`,
+      confidence: evaluation.score > 5 ? 0.7 : 0.4,
+      reasoning: ruleEngine.explain(evaluation),
+      score: evaluation.score,
+      detected: evaluation.score >= 5
     };
   }
 
@@ -0,0 +1,202 @@
+/**
+ * RequestScheduler - Shared queue for on-device AI calls
+ *
+ * Limits how many model calls run at once, serves detections in the visible viewport
+ * before the rest of the page, caps the number of calls per page and cancels
+ * outstanding work when the user navigates away.
+ */
+
+export type SchedulePriority = 'viewport' | 'normal' | 'background';
+
+export interface ScheduleOptions {
+  priority?: SchedulePriority;
+  label?: string;                       // Detector or engine name, used for metrics
+}
+
+export interface SchedulerOptions {
+  concurrency: number;
+  pageBudget: number;                   // Max calls started per page
+}
+
+export interface LabelMetrics {
+  completed: number;
+  failed: number;
+  avgWaitMs: number;
+  avgRunMs: number;
+}
+
+export interface SchedulerMetrics {
+  queued: number;
+  running: number;
+  started: number;
+  completed: number;
+  failed: number;
+  cancelled: number;
+  overBudget: number;
+  budgetRemaining: number;
+  avgWaitMs: number;
+  avgRunMs: number;
+  byLabel: Record<string, LabelMetrics>;
+}
+
+interface QueuedTask {
+  run: (signal: AbortSignal) => Promise<unknown>;
+  resolve: (value: any) => void;
+  reject: (reason: unknown) => void;
+  label: string;
+  enqueuedAt: number;
+}
+
+interface Timing {
+  count: number;
+  failed: number;
+  waitMs: number;
+  runMs: number;
+}
+
+export const DEFAULT_SCHEDULER_OPTIONS: SchedulerOptions = {
+  concurrency: 2,
+  pageBudget: 60
+};
+
+const PRIORITIES: SchedulePriority[] = ['viewport', 'normal', 'background'];
+
+export class RequestScheduler {
+  private options: SchedulerOptions;
+  private lanes: Record<SchedulePriority, QueuedTask[]> = { viewport: [], normal: [], background: [] };
+  private running = new Set<AbortController>();
+
+  private started = 0;
+  private cancelled = 0;
+  private overBudget = 0;
+  private timings = new Map<string, Timing>();
+
+  constructor(options: Partial<SchedulerOptions> = {}) {
+    this.options = { ...DEFAULT_SCHEDULER_OPTIONS, ...options };
+  }
+
+  /**
+   * Queue a call. The task receives an AbortSignal that fires if the page is reset
+   * while it runs. Rejects if the page budget is spent or the task is cancelled.
+   */
+  schedule<T>(task: (signal: AbortSignal) => Promise<T>, options: ScheduleOptions = {}): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      this.lanes[options.priority || 'normal'].push({
+        run: task,
+        resolve,
+        reject,
+        label: options.label || 'unlabelled',
+        enqueuedAt: performance.now()
+      });
+      this.pump();
+    });
+  }
+
+  /**
+   * Cancel queued and running calls and start a fresh budget, e.g. after navigation
+   */
+  resetPage(reason = 'Page changed'): void {
+    const pending = PRIORITIES.flatMap(priority => this.lanes[priority].splice(0));
+    pending.forEach(task => task.reject(new Error(`AI request cancelled: ${reason}`)));
+
+    this.running.forEach(controller => controller.abort());
+    this.cancelled += pending.length + this.running.size;
+    this.running.clear();
+
+    this.started = 0;
+    this.overBudget = 0;
+
+    if (pending.length > 0) {
+      console.log(`🛑 Scheduler: cancelled ${pending.length} queued AI requests (${reason})`);
+    }
+  }
+
+  getMetrics(): SchedulerMetrics {
+    const byLabel: Record<string, LabelMetrics> = {};
+    let count = 0;
+    let failed = 0;
+    let waitMs = 0;
+    let runMs = 0;
+
+    this.timings.forEach((timing, label) => {
+      byLabel[label] = {
+        completed: timing.count - timing.failed,
+        failed: timing.failed,
+        avgWaitMs: Math.round(timing.waitMs / timing.count),
+        avgRunMs: Math.round(timing.runMs / timing.count)
+      };
+      count += timing.count;
+      failed += timing.failed;
+      waitMs += timing.waitMs;
+      runMs += timing.runMs;
+    });
+
+    return {
+      queued: PRIORITIES.reduce((sum, priority) => sum + this.lanes[priority].length, 0),
+      running: this.running.size,
+      started: this.started,
+      completed: count - failed,
+      failed,
+      cancelled: this.cancelled,
+      overBudget: this.overBudget,
+      budgetRemaining: Math.max(0, this.options.pageBudget - this.started),
+      avgWaitMs: count > 0 ? Math.round(waitMs / count) : 0,
+      avgRunMs: count > 0 ? Math.round(runMs / count) : 0,
+      byLabel
+    };
+  }
+
+  private pump(): void {
+    while (this.running.size < this.options.concurrency) {
+      const task = this.next();
+      if (!task) return;
+
+      if (this.started >= this.options.pageBudget) {
+        this.overBudget++;
+        task.reject(new Error('AI request budget for this page is used up'));
+        continue;
+      }
+
+      this.start(task);
+    }
+  }
+
+  private next(): QueuedTask | undefined {
+    for (const priority of PRIORITIES) {
+      const task = this.lanes[priority].shift();
+      if (task) return task;
+    }
+    return undefined;
+  }
+
+  private async start(task: QueuedTask): Promise<void> {
+    const controller = new AbortController();
+    const startedAt = performance.now();
+
+    this.running.add(controller);
+    this.started++;
+
+    let failed = false;
+    try {
+      task.resolve(await task.run(controller.signal));
+    } catch (error) {
+      failed = true;
+      task.reject(error);
+    } finally {
+      // A reset already accounted for this task and may have started new ones
+      if (this.running.delete(controller)) {
+        this.record(task.label, startedAt - task.enqueuedAt, performance.now() - startedAt, failed);
+      }
+      this.pump();
+    }
+  }
+
+  private record(label: string, waitMs: number, runMs: number, failed: boolean): void {
+    const timing = this.timings.get(label) || { count: 0, failed: 0, waitMs: 0, runMs: 0 };
+    timing.count++;
+    timing.waitMs += waitMs;
+    timing.runMs += runMs;
+    if (failed) timing.failed++;
+    this.timings.set(label, timing);
+  }
+}
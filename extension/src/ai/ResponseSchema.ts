@@ -0,0 +1,108 @@
+/**
+ * JSON response schemas for structured Prompt API output
+ *
+ * A small subset of JSON Schema - flat objects of numbers, strings and booleans -
+ * which is what detectors need and what the Prompt API's responseConstraint accepts.
+ */
+
+export type SchemaField =
+  | { type: 'number' | 'integer'; minimum?: number; maximum?: number; description?: string }
+  | { type: 'string'; enum?: readonly string[]; maxLength?: number; description?: string }
+  | { type: 'boolean'; description?: string };
+
+export interface ResponseSchema {
+  type: 'object';
+  properties: Record<string, SchemaField>;
+  required: string[];
+  additionalProperties?: boolean;
+}
+
+/**
+ * The fields every scoring prompt returns
+ */
+export interface ScoredResponse {
+  score: number;                        // 0-10
+  reasoning: string;
+}
+
+/**
+ * Schema for a 0-10 score with a one-sentence reason, plus any detector-specific fields.
+ * All fields are required.
+ */
+export function scoredSchema(extra: Record<string, SchemaField> = {}): ResponseSchema {
+  const properties: Record<string, SchemaField> = {
+    score: { type: 'integer', minimum: 0, maximum: 10 },
+    reasoning: { type: 'string', maxLength: 300, description: 'One sentence' },
+    ...extra
+  };
+
+  return {
+    type: 'object',
+    properties,
+    required: Object.keys(properties),
+    additionalProperties: false
+  };
+}
+
+/**
+ * Check a parsed value against a schema. Returns the list of problems (empty when valid).
+ */
+export function validateResponse(schema: ResponseSchema, value: unknown): string[] {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return ['response is not a JSON object'];
+  }
+
+  const record = value as Record<string, unknown>;
+  const errors: string[] = [];
+
+  for (const field of schema.required) {
+    if (record[field] === undefined || record[field] === null) {
+      errors.push(`missing "${field}"`);
+    }
+  }
+
+  for (const [name, field] of Object.entries(schema.properties)) {
+    const fieldValue = record[name];
+    if (fieldValue === undefined || fieldValue === null) continue;
+
+    switch (field.type) {
+      case 'number':
+      case 'integer':
+        if (typeof fieldValue !== 'number' || Number.isNaN(fieldValue)) {
+          errors.push(`"${name}" must be a number`);
+        } else if (field.type === 'integer' && !Number.isInteger(fieldValue)) {
+          errors.push(`"${name}" must be an integer`);
+        } else if (
+          (field.minimum !== undefined && fieldValue < field.minimum) ||
+          (field.maximum !== undefined && fieldValue > field.maximum)
+        ) {
+          errors.push(`"${name}" must be between ${field.minimum ?? '-∞'} and ${field.maximum ?? '∞'}`);
+        }
+        break;
+
+      case 'string':
+        if (typeof fieldValue !== 'string') {
+          errors.push(`"${name}" must be a string`);
+        } else if (field.enum && !field.enum.includes(fieldValue)) {
+          errors.push(`"${name}" must be one of ${field.enum.join('|')}`);
+        } else if (field.maxLength !== undefined && fieldValue.length > field.maxLength) {
+          errors.push(`"${name}" must be at most ${field.maxLength} characters`);
+        }
+        break;
+
+      case 'boolean':
+        if (typeof fieldValue !== 'boolean') {
+          errors.push(`"${name}" must be true or false`);
+        }
+        break;
+    }
+  }
+
+  if (schema.additionalProperties === false) {
+    Object.keys(record)
+      .filter(key => !(key in schema.properties))
+      .forEach(key => errors.push(`unexpected field "${key}"`));
+  }
+
+  return errors;
+}
@@ -2,6 +2,8 @@
  * Chrome Built-in AI Summarizer API wrapper for content compression
  */
 
+import { PriceExtractor } from '../core/PriceExtractor';
+
 export interface SummaryRequest {
   content: string;
   type?: 'key-points' | 'tl-dr' | 'teaser' | 'headline';
@@ -140,7 +142,7 @@ export class SummarizerEngine {
       }
       
       // Pricing information
-      if (lower.includes('price') || lower.includes('$') || lower.includes('₹') ||
+      if (lower.includes('price') || PriceExtractor.findPrices(line).length > 0 ||
           lower.includes('discount') || lower.includes('save') || 
           lower.includes('was') || lower.includes('now')) {
         pricing.push(line);
@@ -162,6 +164,13 @@ export class SummarizerEngine {
       }
     }
 
+    // Give the summarizer unambiguous amounts regardless of the page's number format
+    const prices = PriceExtractor.findPrices(pricing.join('\n'))
+      .map(price => `${price.amount} ${price.currency}`);
+    if (prices.length > 0) {
+      pricing.unshift(`Prices: ${[...new Set(prices)].join(', ')}`);
+    }
+
     return {
       product: product.join('\n') || 'No product information found',
       pricing: pricing.join('\n') || 'No pricing information found',
@@ -1,29 +1,62 @@
 // Content Script Entry Point for CognitiveSense
 
 import { AgentRegistry } from '../agents/base/AgentRegistry';
+import { Agent } from '../agents/base/Agent';
+import { AgentKey, Detection, PageContext } from '../agents/base/types';
 import { AIEngineManager } from '../ai/AIEngineManager';
 import { ShoppingPersuasionAgent } from '../agents/shopping/ShoppingAgent';
 import { SocialMediaAgent } from '../agents/social/SocialMediaAgent';
+import { NewsBiasAgent } from '../agents/news/NewsBiasAgent';
+import { SocialPulseAgent } from '../agents/pulse/SocialPulseAgent';
 import { OverlayManager } from '../ui/OverlayManager';
 import { PageContextBuilder } from '../core/PageContext';
+import { ScoreAggregator } from '../core/ScoreAggregator';
+import { DomChangeTracker } from '../core/DomChangeTracker';
+import { NavigationWatcher } from '../core/NavigationWatcher';
 import { LocalStorageManager } from '../storage/LocalStorage';
+import { PreselectionDetector } from '../agents/shopping/detectors/PreselectionDetector';
+import { ConsentBannerDetector } from '../agents/shopping/detectors/ConsentBannerDetector';
 
 console.log('CognitiveSense content script loaded');
 
+// Custom toggles have no served default, so watch for the user changing them from the start
+PreselectionDetector.trackInteractions();
+
 class ContentScript {
   private registry: AgentRegistry;
   private contextBuilder: PageContextBuilder;
   private storage: LocalStorageManager;
   private aiManager: AIEngineManager;
   private overlayManager: OverlayManager;
+  private scoreAggregator: ScoreAggregator;
+  private domTracker: DomChangeTracker;
+  private navigationWatcher: NavigationWatcher;
   private isAnalyzing = false;
   
+  // Bumped on every SPA navigation so results from the previous route are discarded
+  private navigationId = 0;
+  private reanalyzeAfterCurrent = false;
+  
+  // State of the last full analysis, extended by incremental passes
+  private lastContext: PageContext | null = null;
+  private activeAgents: Agent[] = [];
+  private agentDetections = new Map<AgentKey, Detection[]>();
+  private lastFullAnalysis = 0;
+  private emptyReanalyses = 0;
+  
+  // Pages with no active agents are re-checked a few times as content loads in
+  private static readonly FULL_REANALYSIS_INTERVAL_MS = 10000;
+  private static readonly MAX_EMPTY_REANALYSES = 3;
+  
   constructor() {
     this.registry = AgentRegistry.getInstance();
     this.contextBuilder = new PageContextBuilder();
     this.storage = new LocalStorageManager();
     this.aiManager = AIEngineManager.getInstance();
     this.overlayManager = new OverlayManager();
+    this.scoreAggregator = new ScoreAggregator();
+    this.domTracker = new DomChangeTracker(roots => this.analyzeAddedContent(roots));
+    this.navigationWatcher = new NavigationWatcher(url => this.handleNavigation(url));
   }
   
   async initialize(): Promise<void> {
@@ -38,6 +71,8 @@ class ContentScript {
       console.log('Registering agents...');
       this.registry.register(new ShoppingPersuasionAgent());
       this.registry.register(new SocialMediaAgent());
+      this.registry.register(new NewsBiasAgent());
+      this.registry.register(new SocialPulseAgent());
       
       // Initialize agent registry
       await this.registry.initialize();
@@ -64,6 +99,7 @@ class ContentScript {
     }
     
     this.isAnalyzing = true;
+    const navigationId = this.navigationId;
     
     // Show loading indicator
     this.overlayManager.showLoading();
@@ -82,8 +118,19 @@ class ContentScript {
       // Get active agents for this page
       const activeAgents = this.registry.getActiveAgents(context, userSettings);
       
+      if (navigationId !== this.navigationId) {
+        console.log('🧭 Page navigated during analysis - discarding stale context');
+        return;
+      }
+      
+      this.lastContext = context;
+      this.activeAgents = activeAgents;
+      this.agentDetections.clear();
+      this.lastFullAnalysis = Date.now();
+      
       if (activeAgents.length === 0) {
         console.log('No active agents for this page');
+        this.overlayManager.clear();
         return;
       }
       
@@ -104,20 +151,17 @@ class ContentScript {
       
       const results = await Promise.all(detectionPromises);
       
+      if (navigationId !== this.navigationId) {
+        console.log('🧭 Page navigated during analysis - discarding stale results');
+        return;
+      }
+      
+      results.forEach(({ agent, detections }) => this.agentDetections.set(agent.key, detections));
+      
       // Collect all detections
       const allDetections = results.flatMap(r => r.detections);
       
-      // Calculate overall analysis
-      let overallScore = 0;
-      const breakdown: Record<string, number> = {};
-      
       if (allDetections.length > 0) {
-        // Use the first agent's analyze method for overall scoring
-        // TODO: Implement cross-agent scoring in future
-        const primaryAgent = activeAgents[0];
-        const analysis = primaryAgent.analyze(allDetections);
-        overallScore = analysis.overallScore;
-        
         // Render overlays for significant detections
         await this.renderOverlays(allDetections, activeAgents);
       } else {
@@ -126,40 +170,15 @@ class ContentScript {
         console.log('✅ Page is clean - no manipulation tactics detected');
       }
       
-      // Save to storage for side panel (per URL)
-      const urlHash = this.hashUrl(window.location.href);
-      const storageData = {
-        [`detections_${urlHash}`]: allDetections,
-        [`score_${urlHash}`]: overallScore,
-        [`timestamp_${urlHash}`]: new Date().toISOString(),
-        // Also keep latest for backward compatibility
-        latestDetections: allDetections,
-        latestScore: overallScore,
-        latestUrl: window.location.href,
-        latestTimestamp: new Date().toISOString()
-      };
-      
-      await chrome.storage.local.set(storageData);
-      
-      console.log(`💾 Saved detections for URL hash: ${urlHash}`);
-      console.log(`📍 URL: ${window.location.href}`);
-      console.log(`🔍 Detections stored: ${allDetections.length}`);
-
-      // Send results to service worker and side panel
-      chrome.runtime.sendMessage({
-        type: 'DETECTION_COMPLETE',
-        data: {
-          detections: allDetections,
-          overallScore,
-          breakdown,
-          url: window.location.href,
-          timestamp: new Date().toISOString()
-        }
-      });
+      await this.saveResults();
       
       const totalTime = performance.now() - startTime;
       console.log(`Page analysis completed in ${totalTime}ms. Found ${allDetections.length} detections.`);
+      console.log('AI scheduler metrics:', this.aiManager.scheduler.getMetrics());
     } catch (error) {
+      // Clear loading indicator on error
+      this.overlayManager.clear();
+      
       // Handle extension context invalidated error gracefully
       if (error instanceof Error && error.message.includes('Extension context invalidated')) {
         console.warn('⚠️ Extension context invalidated - extension was reloaded');
@@ -169,11 +188,212 @@ class ContentScript {
       }
     } finally {
       this.isAnalyzing = false;
-      // Always clear loading indicator on error
-      this.overlayManager.clear();
+      
+      if (this.reanalyzeAfterCurrent) {
+        this.reanalyzeAfterCurrent = false;
+        this.analyzePage();
+      }
+    }
+  }
+  
+  /**
+   * Start over for a client-side route change: the document stays the same,
+   * but everything found so far belongs to the previous URL
+   */
+  private async handleNavigation(url: string): Promise<void> {
+    console.log(`🧭 SPA navigation to ${url} - running fresh analysis`);
+    
+    this.navigationId++;
+    this.aiManager.scheduler.resetPage('navigation');
+    this.overlayManager.clear();
+    this.lastContext = null;
+    this.activeAgents = [];
+    this.agentDetections.clear();
+    this.emptyReanalyses = 0;
+    
+    // Mutations queued for the old route are covered by the fresh analysis
+    this.domTracker.stop();
+    this.domTracker.start();
+    
+    if (this.isAnalyzing) {
+      this.reanalyzeAfterCurrent = true;
+      return;
+    }
+    
+    await this.analyzePage();
+  }
+  
+  /**
+   * Run block-level detectors on content added since the last analysis
+   * and merge what they find into the existing results and overlays
+   */
+  private async analyzeAddedContent(roots: HTMLElement[]): Promise<void> {
+    if (this.isAnalyzing) {
+      this.domTracker.requeue(roots);
+      return;
+    }
+    
+    // Nothing was analyzable yet - the page may have just finished loading its content
+    if (!this.lastContext || this.activeAgents.length === 0) {
+      if (
+        this.emptyReanalyses < ContentScript.MAX_EMPTY_REANALYSES &&
+        Date.now() - this.lastFullAnalysis >= ContentScript.FULL_REANALYSIS_INTERVAL_MS
+      ) {
+        this.emptyReanalyses++;
+        await this.analyzePage();
+      }
+      return;
+    }
+    
+    // A cookie banner injected after the shopping agent passed the page over
+    if (
+      !this.activeAgents.some(agent => agent.key === 'shopping_persuasion') &&
+      this.emptyReanalyses < ContentScript.MAX_EMPTY_REANALYSES &&
+      this.addsConsentBanner(roots)
+    ) {
+      this.emptyReanalyses++;
+      await this.analyzePage();
+      return;
+    }
+    
+    this.isAnalyzing = true;
+    const navigationId = this.navigationId;
+    
+    try {
+      const context = await this.contextBuilder.buildPartial(this.lastContext, roots);
+      if (context.content.blocks.length === 0) {
+        return;
+      }
+      
+      console.log(`🔄 Analyzing ${roots.length} added nodes (${context.content.blocks.length} text blocks)`);
+      
+      const results = await Promise.all(
+        this.activeAgents
+          .filter(agent => agent.detectIncremental)
+          .map(async (agent) => {
+            try {
+              return { agent, detections: await agent.detectIncremental!(context) };
+            } catch (error) {
+              console.error(`Agent ${agent.name} incremental pass failed:`, error);
+              return { agent, detections: [] as Detection[] };
+            }
+          })
+      );
+      
+      if (navigationId !== this.navigationId) {
+        return;
+      }
+      
+      const added: Detection[] = [];
+      const replacedIds: string[] = [];
+      
+      // Drop detections whose element has since been removed from the page
+      this.agentDetections.forEach((detections, key) => {
+        const kept = detections.filter(detection => !detection.element || detection.element.isConnected);
+        detections.filter(detection => !kept.includes(detection)).forEach(detection => replacedIds.push(detection.id));
+        this.agentDetections.set(key, kept);
+      });
+      
+      results.forEach(({ agent, detections }) => {
+        const existing = this.agentDetections.get(agent.key) || [];
+        
+        detections.forEach(detection => {
+          const index = existing.findIndex(e => e.type === detection.type && e.element === detection.element);
+          if (index >= 0) {
+            // Element already flagged for this tactic; page-level findings are refreshed
+            if (detection.element) return;
+            replacedIds.push(existing[index].id);
+            existing.splice(index, 1);
+          }
+          existing.push(detection);
+          added.push(detection);
+        });
+        
+        this.agentDetections.set(agent.key, existing);
+      });
+      
+      if (added.length === 0 && replacedIds.length === 0) {
+        return;
+      }
+      
+      await this.overlayManager.merge(added, replacedIds);
+      await this.saveResults();
+      
+      console.log(`🔄 Incremental analysis added ${added.length} detections`);
+    } catch (error) {
+      console.error('Incremental analysis failed:', error);
+    } finally {
+      this.isAnalyzing = false;
+      
+      if (this.reanalyzeAfterCurrent) {
+        this.reanalyzeAfterCurrent = false;
+        this.analyzePage();
+      }
     }
   }
   
+  /**
+   * Whether the added subtrees hold the page's cookie consent banner
+   */
+  private addsConsentBanner(roots: HTMLElement[]): boolean {
+    const banner = ConsentBannerDetector.findBanner()?.element;
+    return !!banner && roots.some(root => root.contains(banner) || banner.contains(root));
+  }
+  
+  /**
+   * Score the current detections and store them for the side panel
+   */
+  private async saveResults(): Promise<void> {
+    if (!this.lastContext) return;
+    
+    // Key results to the URL that was analyzed, not wherever the page has moved on to
+    const url = this.lastContext.url.href;
+    const allDetections = Array.from(this.agentDetections.values()).flat();
+    
+    // Score each agent's detections with its own analyze(), then combine
+    const analysis = this.scoreAggregator.aggregate(
+      this.activeAgents.map(agent => ({
+        agentKey: agent.key,
+        result: agent.analyze(this.agentDetections.get(agent.key) || [])
+      }))
+    );
+    const { overallScore, breakdown, agentBreakdown } = analysis;
+    
+    // Save to storage for side panel (per URL)
+    const urlHash = this.hashUrl(url);
+    const storageData = {
+      [`detections_${urlHash}`]: allDetections,
+      [`score_${urlHash}`]: overallScore,
+      [`breakdown_${urlHash}`]: { categories: breakdown, agents: agentBreakdown },
+      [`timestamp_${urlHash}`]: new Date().toISOString(),
+      // Also keep latest for backward compatibility
+      latestDetections: allDetections,
+      latestScore: overallScore,
+      latestUrl: url,
+      latestTimestamp: new Date().toISOString()
+    };
+    
+    await chrome.storage.local.set(storageData);
+    
+    console.log(`💾 Saved detections for URL hash: ${urlHash}`);
+    console.log(`📍 URL: ${url}`);
+    console.log(`🔍 Detections stored: ${allDetections.length}`);
+
+    // Send results to service worker and side panel
+    chrome.runtime.sendMessage({
+      type: 'DETECTION_COMPLETE',
+      data: {
+        detections: allDetections,
+        overallScore,
+        riskLevel: analysis.riskLevel,
+        breakdown,
+        agentBreakdown,
+        url,
+        timestamp: new Date().toISOString()
+      }
+    });
+  }
+  
   /**
    * Render overlays for detections
    */
@@ -192,66 +412,19 @@ class ContentScript {
    * Set up observers for dynamic content changes
    */
   private setupObservers(): void {
-    // For social media, add scroll detection to analyze new content
-    // For shopping sites, keep page load only to avoid excessive API calls
+    // Added content (infinite feeds, SPA carts, lazy sections) is analyzed
+    // incrementally instead of re-running every detector on the whole page
+    this.domTracker.start();
     
-    const isSocialMedia = this.isSocialMediaPage();
+    // Client-side route changes get a fresh analysis keyed to the new URL
+    this.navigationWatcher.start();
     
-    if (isSocialMedia) {
-      console.log('📱 Social media detected - enabling scroll-based analysis');
-      this.setupScrollListener();
-    } else {
-      console.log('🛒 Shopping site detected - analysis on page load only');
-    }
+    // Don't keep the model busy for a page the user has left
+    window.addEventListener('pagehide', () => this.aiManager.scheduler.resetPage('page hidden'));
     
     console.log('✅ Observers setup complete');
   }
-
-  /**
-   * Check if current page is a social media platform
-   */
-  private isSocialMediaPage(): boolean {
-    const socialDomains = [
-      'facebook.com',
-      'twitter.com',
-      'x.com',
-      'instagram.com',
-      'tiktok.com',
-      'linkedin.com',
-      'reddit.com',
-      'threads.net',
-      'mastodon.social',
-      'bluesky.social',
-      'youtube.com'
-    ];
-    
-    const domain = window.location.hostname.toLowerCase();
-    return socialDomains.some(d => domain.includes(d));
-  }
-
-  /**
-   * Set up scroll listener for social media feeds
-   */
-  private setupScrollListener(): void {
-    let scrollTimeout: ReturnType<typeof setTimeout> | null = null;
-    const SCROLL_DEBOUNCE_MS = 2000; // Wait 2 seconds after scroll stops
-    
-    window.addEventListener('scroll', () => {
-      // Clear previous timeout
-      if (scrollTimeout) {
-        clearTimeout(scrollTimeout);
-      }
-      
-      // Debounce: only analyze after scroll stops for 2 seconds
-      scrollTimeout = setTimeout(async () => {
-        if (!this.isAnalyzing) {
-          console.log('📜 Scroll detected - re-analyzing page for new content');
-          await this.analyzePage();
-        }
-      }, SCROLL_DEBOUNCE_MS);
-    }, { passive: true });
-  }
-
+  
   /**
    * Simple hash function for URL
    */
@@ -279,6 +452,8 @@ if (document.readyState === 'loading') {
   init();
 }
 
+let contentScript: ContentScript | null = null;
+
 async function init() {
   // Only run on HTTP(S) pages
   if (!window.location.href.startsWith('http')) {
@@ -293,7 +468,7 @@ async function init() {
   (window as any).cognitiveSenseInitialized = true;
   
   try {
-    const contentScript = new ContentScript();
+    contentScript = new ContentScript();
     await contentScript.initialize();
   } catch (error) {
     console.error('Failed to initialize CognitiveSense:', error);
@@ -304,10 +479,19 @@ async function init() {
 chrome.runtime.onMessage.addListener((message, _sender, sendResponse) => {
   switch (message.type) {
     case 'REANALYZE_PAGE':
-      init();
+      // Already running in this document - analyze again instead of re-initializing
+      if (contentScript) {
+        contentScript.analyzePage();
+      } else {
+        init();
+      }
       sendResponse({ success: true });
       break;
       
+    case 'GET_AI_METRICS':
+      sendResponse({ success: true, metrics: AIEngineManager.getInstance().scheduler.getMetrics() });
+      break;
+      
     default:
       console.log('Content script received unknown message:', message.type);
   }
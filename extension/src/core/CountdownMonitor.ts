@@ -0,0 +1,346 @@
+/**
+ * CountdownMonitor - Behavioural checks for countdown timers
+ *
+ * Samples a countdown for a few seconds to confirm it is live, converts it to an
+ * absolute deadline and compares that deadline with earlier sightings of the same
+ * timer (stored in chrome.storage.local, shared by every tab). A real deadline
+ * doesn't move on reload, doesn't differ between tabs and doesn't start again
+ * once it has passed. Timestamps in the site's own cookies and storage only back
+ * up that behaviour: a shop may cache a real, global deadline the same way.
+ */
+
+import { NavigationWatcher } from './NavigationWatcher';
+
+export type TimerFinding =
+  | 'resets_on_reload'
+  | 'differs_across_tabs'
+  | 'restarts_after_zero'
+  | 'visitor_storage';
+
+export interface TimerEvidence {
+  finding: TimerFinding;
+  detail: string;
+}
+
+export interface CountdownInspection {
+  element: HTMLElement;
+  text: string;
+  remainingSeconds: number;
+  deadline: number;                     // Epoch ms the timer claims to end at
+  evidence: TimerEvidence[];
+}
+
+interface CountdownSighting {
+  deadline: number;
+  remainingSeconds: number;
+  observedAt: number;
+  tabId: number | null;
+}
+
+export class CountdownMonitor {
+  static readonly PREFIX = 'countdown:';
+  private static readonly SAMPLE_INTERVAL_MS = 1000;
+  private static readonly WATCH_MS = 4000;
+  // Deadlines are derived from displayed seconds, so allow for drift and page load time
+  private static readonly DEADLINE_TOLERANCE_MS = 60 * 1000;
+  private static readonly TAB_OVERLAP_MS = 30 * 60 * 1000;
+  private static readonly STORAGE_MATCH_MS = 5000;
+  private static readonly MAX_SIGHTINGS = 10;
+  private static readonly SIGHTING_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+  private static readonly MAX_TIMERS = 3;
+
+  private static readonly TIMER_KEY = /countdown|timer|deadline|offer.?end|ends?.?at|first.?visit/i;
+
+  private tabId: Promise<number | null> | null = null;
+
+  /**
+   * Watch candidate elements and return the live countdowns among them,
+   * each with any evidence that its deadline is fake
+   */
+  async inspect(candidates: HTMLElement[], pageUrl: string): Promise<CountdownInspection[]> {
+    const timers = this.selectTimers(candidates);
+    if (timers.length === 0) return [];
+
+    const samples = await this.watch(timers);
+    const tabId = await this.getTabId();
+    const inspections: CountdownInspection[] = [];
+
+    for (const [element, readings] of samples) {
+      const first = readings[0];
+      const last = readings[readings.length - 1];
+      const evidence: TimerEvidence[] = [];
+
+      // A restart seen live: the timer hit zero and jumped back up
+      const restartIndex = readings.findIndex((reading, i) =>
+        i > 0 && readings[i - 1].remaining <= 1 && reading.remaining > readings[i - 1].remaining + 5
+      );
+      if (restartIndex > 0) {
+        evidence.push({
+          finding: 'restarts_after_zero',
+          detail: `Reached zero and restarted at ${CountdownMonitor.formatDuration(readings[restartIndex].remaining)} while watched`
+        });
+      } else if (last.remaining >= first.remaining) {
+        // Static text, not a running countdown
+        continue;
+      }
+
+      const deadline = last.at + last.remaining * 1000;
+      const key = this.storageKey(pageUrl, element);
+      const sightings = await this.getSightings(key);
+
+      evidence.push(...this.compareSightings(deadline, last.remaining, last.at, sightings, tabId));
+      if (evidence.length > 0) evidence.push(...this.findVisitorStorage(deadline));
+
+      await this.saveSightings(key, [
+        ...sightings,
+        { deadline, remainingSeconds: last.remaining, observedAt: last.at, tabId }
+      ]);
+
+      inspections.push({
+        element,
+        text: (element.textContent || '').trim(),
+        remainingSeconds: last.remaining,
+        deadline,
+        evidence
+      });
+    }
+
+    return inspections;
+  }
+
+  /**
+   * Seconds left on a countdown's text, e.g. "02:15:33", "1d 04:10:00",
+   * "2h 15m 3s" or "15 minutes 3 seconds"
+   */
+  static parseRemaining(text: string): number | null {
+    const normalized = text.replace(/\s+/g, ' ');
+
+    const clock = normalized.match(/(?:(\d+)\s*(?:d|days?)\s*,?\s*)?\b(\d{1,2})\s*:\s*(\d{2})(?:\s*:\s*(\d{2}))?\b/i);
+    if (clock) {
+      const [, days, a, b, c] = clock;
+      const seconds = c !== undefined
+        ? Number(a) * 3600 + Number(b) * 60 + Number(c)
+        : Number(a) * 60 + Number(b);
+      return Number(days || 0) * 86400 + seconds;
+    }
+
+    const units: Record<string, number> = { d: 86400, h: 3600, m: 60, s: 1 };
+    const parts = [...normalized.matchAll(/(\d+)\s*(days?|d|hours?|hrs?|h|minutes?|mins?|m|seconds?|secs?|s)(?![a-z])/gi)];
+    if (parts.length < 2) return null;
+
+    return parts.reduce((total, [, value, unit]) => total + Number(value) * units[unit[0].toLowerCase()], 0);
+  }
+
+  static formatDuration(seconds: number): string {
+    const h = Math.floor(seconds / 3600);
+    const m = Math.floor((seconds % 3600) / 60);
+    const s = Math.round(seconds % 60);
+    return h > 0 ? `${h}h ${m}m ${s}s` : `${m}m ${s}s`;
+  }
+
+  /**
+   * Innermost candidates showing a parseable time - a wrapper and its digits
+   * would otherwise count as two timers
+   */
+  private selectTimers(candidates: HTMLElement[]): HTMLElement[] {
+    const parseable = candidates.filter(element =>
+      (element.textContent || '').length < 200 &&
+      CountdownMonitor.parseRemaining(element.textContent || '') !== null
+    );
+
+    return parseable
+      .filter(element => !parseable.some(other =>
+        other !== element &&
+        element.contains(other) &&
+        CountdownMonitor.parseRemaining(other.textContent || '') === CountdownMonitor.parseRemaining(element.textContent || '')
+      ))
+      .slice(0, CountdownMonitor.MAX_TIMERS);
+  }
+
+  private async watch(elements: HTMLElement[]): Promise<Map<HTMLElement, Array<{ remaining: number; at: number }>>> {
+    const samples = new Map(elements.map(element => [element, [] as Array<{ remaining: number; at: number }>]));
+
+    const sample = () => {
+      const at = Date.now();
+      samples.forEach((readings, element) => {
+        const remaining = CountdownMonitor.parseRemaining(element.textContent || '');
+        if (remaining !== null) readings.push({ remaining, at });
+      });
+    };
+
+    sample();
+    for (let waited = 0; waited < CountdownMonitor.WATCH_MS; waited += CountdownMonitor.SAMPLE_INTERVAL_MS) {
+      await new Promise(resolve => setTimeout(resolve, CountdownMonitor.SAMPLE_INTERVAL_MS));
+      sample();
+    }
+
+    samples.forEach((readings, element) => {
+      if (readings.length < 2) samples.delete(element);
+    });
+    return samples;
+  }
+
+  private compareSightings(
+    deadline: number,
+    remaining: number,
+    now: number,
+    sightings: CountdownSighting[],
+    tabId: number | null
+  ): TimerEvidence[] {
+    const evidence: TimerEvidence[] = [];
+    const tolerance = CountdownMonitor.DEADLINE_TOLERANCE_MS;
+    const time = (ms: number) => new Date(ms).toLocaleString();
+
+    const expired = sightings.find(sighting => sighting.deadline < now - tolerance && deadline > sighting.deadline + tolerance);
+    if (expired) {
+      evidence.push({
+        finding: 'restarts_after_zero',
+        detail: `Previously ended at ${time(expired.deadline)}, now counting down again with ${CountdownMonitor.formatDuration(remaining)} left`
+      });
+    }
+
+    const live = sightings.filter(sighting => sighting.deadline >= now - tolerance);
+
+    const reloaded = live.find(sighting =>
+      tabId !== null && sighting.tabId === tabId && Math.abs(sighting.deadline - deadline) > tolerance
+    );
+    if (reloaded) {
+      const sameStart = Math.abs(reloaded.remainingSeconds - remaining) < 120;
+      evidence.push({
+        finding: 'resets_on_reload',
+        detail: `Deadline moved from ${time(reloaded.deadline)} to ${time(deadline)} after reloading` +
+          (sameStart ? ` - restarted at ${CountdownMonitor.formatDuration(remaining)} both times` : '')
+      });
+    }
+
+    const otherTab = live.find(sighting =>
+      sighting.tabId !== tabId &&
+      now - sighting.observedAt < CountdownMonitor.TAB_OVERLAP_MS &&
+      Math.abs(sighting.deadline - deadline) > tolerance
+    );
+    if (otherTab) {
+      evidence.push({
+        finding: 'differs_across_tabs',
+        detail: `Another tab showed this timer ending at ${time(otherTab.deadline)}, this one at ${time(deadline)}`
+      });
+    }
+
+    return evidence;
+  }
+
+  /**
+   * Cookies and web storage holding this visitor's deadline (or when their timer started).
+   * Supporting evidence only - inspect() looks for it once the timer has misbehaved.
+   */
+  private findVisitorStorage(deadline: number): TimerEvidence[] {
+    const entries: Array<[string, string, string]> = [];
+
+    document.cookie.split(';').forEach(cookie => {
+      const [name, ...value] = cookie.trim().split('=');
+      if (name) entries.push(['Cookie', name, value.join('=')]);
+    });
+
+    [['localStorage', window.localStorage], ['sessionStorage', window.sessionStorage]].forEach(([label, storage]) => {
+      try {
+        const store = storage as Storage;
+        for (let i = 0; i < store.length; i++) {
+          const key = store.key(i);
+          if (key) entries.push([label as string, key, store.getItem(key) || '']);
+        }
+      } catch {
+        // Storage can be blocked by site settings
+      }
+    });
+
+    const now = Date.now();
+    const evidence: TimerEvidence[] = [];
+
+    for (const [store, key, value] of entries) {
+      const timestamps = (value.slice(0, 500).match(/\b\d{10}(?:\d{3})?\b/g) || [])
+        .map(raw => (raw.length === 10 ? Number(raw) * 1000 : Number(raw)));
+
+      if (timestamps.some(ts => Math.abs(ts - deadline) < CountdownMonitor.STORAGE_MATCH_MS)) {
+        evidence.push({ finding: 'visitor_storage', detail: `${store} "${key}" stores this visitor's deadline` });
+      } else if (
+        CountdownMonitor.TIMER_KEY.test(key) &&
+        timestamps.some(ts => ts <= now && now - ts < CountdownMonitor.SIGHTING_TTL_MS)
+      ) {
+        evidence.push({ finding: 'visitor_storage', detail: `${store} "${key}" records when this visitor's timer started` });
+      }
+
+      if (evidence.length >= 2) break;
+    }
+
+    return evidence;
+  }
+
+  /**
+   * Drop stored timers with no sighting inside the TTL
+   */
+  async cleanup(): Promise<void> {
+    try {
+      const cutoff = Date.now() - CountdownMonitor.SIGHTING_TTL_MS;
+      const all = await chrome.storage.local.get(null);
+      const stale = Object.entries(all)
+        .filter(([key, sightings]) =>
+          key.startsWith(CountdownMonitor.PREFIX) &&
+          !(sightings as CountdownSighting[]).some(sighting => sighting.observedAt >= cutoff)
+        )
+        .map(([key]) => key);
+
+      if (stale.length > 0) {
+        await chrome.storage.local.remove(stale);
+        console.log(`🧹 Countdown sightings: removed ${stale.length} stale timers`);
+      }
+    } catch (error) {
+      console.error('Failed to clean up countdown sightings:', error);
+    }
+  }
+
+  private storageKey(pageUrl: string, element: HTMLElement): string {
+    const path: string[] = [];
+    let node: HTMLElement | null = element;
+
+    while (node && node !== document.body && path.length < 4) {
+      const id = node.id ? `#${node.id}` : '';
+      const className = typeof node.className === 'string' && node.className.trim()
+        ? `.${node.className.trim().split(/\s+/)[0]}`
+        : '';
+      path.unshift(`${node.tagName.toLowerCase()}${id}${className}`);
+      node = node.parentElement;
+    }
+
+    return `${CountdownMonitor.PREFIX}${NavigationWatcher.routeKey(pageUrl)}|${path.join('>')}`;
+  }
+
+  private async getSightings(key: string): Promise<CountdownSighting[]> {
+    try {
+      const result = await chrome.storage.local.get(key);
+      return result[key] || [];
+    } catch (error) {
+      console.error('Failed to read countdown sightings:', error);
+      return [];
+    }
+  }
+
+  private async saveSightings(key: string, sightings: CountdownSighting[]): Promise<void> {
+    try {
+      const cutoff = Date.now() - CountdownMonitor.SIGHTING_TTL_MS;
+      const kept = sightings
+        .filter(sighting => sighting.observedAt >= cutoff)
+        .slice(-CountdownMonitor.MAX_SIGHTINGS);
+      await chrome.storage.local.set({ [key]: kept });
+    } catch (error) {
+      console.error('Failed to save countdown sightings:', error);
+    }
+  }
+
+  private getTabId(): Promise<number | null> {
+    if (!this.tabId) {
+      this.tabId = chrome.runtime.sendMessage({ type: 'GET_TAB_ID' })
+        .then(response => response?.tabId ?? null)
+        .catch(() => null);
+    }
+    return this.tabId;
+  }
+}
@@ -0,0 +1,101 @@
+/**
+ * DomChangeTracker - Collects subtrees added to the page and hands them over in debounced batches
+ */
+
+export class DomChangeTracker {
+  // Our own overlay roots must never trigger re-analysis. Matched by exact class, since
+  // highlighted page elements carry cs-highlighted-element and their new content still counts
+  private static readonly IGNORE_SELECTOR =
+    'script, style, noscript, template, [id^="cognitive-sense"], .cs-hover-tooltip, .cs-element-highlight';
+  private static readonly MIN_TEXT_LENGTH = 20;
+  private static readonly MAX_BATCH = 100;
+
+  private observer: MutationObserver | null = null;
+  private pending = new Set<HTMLElement>();
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(
+    private onChange: (roots: HTMLElement[]) => void,
+    private debounceMs = 1500
+  ) {}
+
+  start(target: Node = document.body): void {
+    if (this.observer) return;
+
+    this.observer = new MutationObserver(mutations => {
+      for (const mutation of mutations) {
+        mutation.addedNodes.forEach(node => this.collect(node));
+      }
+
+      if (this.pending.size > 0) {
+        this.schedule();
+      }
+    });
+
+    this.observer.observe(target, { childList: true, subtree: true });
+  }
+
+  stop(): void {
+    this.observer?.disconnect();
+    this.observer = null;
+    this.pending.clear();
+
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Put roots back when they could not be processed yet (e.g. a full analysis is running)
+   */
+  requeue(roots: HTMLElement[]): void {
+    roots.forEach(root => this.pending.add(root));
+    this.schedule();
+  }
+
+  private collect(node: Node): void {
+    const element = node.nodeType === Node.TEXT_NODE
+      ? node.parentElement
+      : node instanceof HTMLElement ? node : null;
+
+    if (!element || element.closest(DomChangeTracker.IGNORE_SELECTOR)) return;
+    if ((element.textContent?.trim().length || 0) < DomChangeTracker.MIN_TEXT_LENGTH) return;
+
+    this.pending.add(element);
+  }
+
+  private schedule(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      const roots = this.takePending();
+      if (roots.length > 0) {
+        this.onChange(roots);
+      }
+    }, this.debounceMs);
+  }
+
+  /**
+   * Drain the pending set, dropping detached nodes and nodes nested inside other pending roots
+   */
+  private takePending(): HTMLElement[] {
+    const candidates = Array.from(this.pending).filter(element => element.isConnected);
+    this.pending.clear();
+
+    const roots = candidates.filter(element =>
+      !candidates.some(other => other !== element && other.contains(element))
+    );
+
+    // Anything over the batch size waits for the next round
+    roots.slice(DomChangeTracker.MAX_BATCH).forEach(root => this.pending.add(root));
+    if (this.pending.size > 0) {
+      this.schedule();
+    }
+
+    return roots.slice(0, DomChangeTracker.MAX_BATCH);
+  }
+}
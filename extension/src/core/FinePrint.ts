@@ -0,0 +1,151 @@
+/**
+ * FinePrint - Finds, fetches and scans the policy pages a shop links to
+ *
+ * Only same-origin pages are fetched, so no request leaves the site the user is
+ * already on. Page text is cached per URL for the life of the tab.
+ */
+
+import { PageContext } from '../agents/base/types';
+import { ruleEngine } from '../rules/RuleEngine';
+import { Debug } from '../utils/Debug';
+
+export type PolicyKind = 'terms' | 'refund' | 'shipping' | 'privacy';
+
+export interface PolicyLink {
+  kind: PolicyKind;
+  text: string;
+  url: string;
+}
+
+export interface FinePrintClause {
+  category: string;                     // Rule subtype, e.g. 'arbitration'
+  description: string;
+  weight: number;
+  excerpt: string;                      // Sentence the clause was found in
+  context: string;                      // Excerpt with its neighbouring sentences
+  source: PolicyLink;
+}
+
+export class FinePrint {
+  private static readonly FETCH_TIMEOUT_MS = 5000;
+  private static readonly MAX_TEXT = 60000;
+  private static readonly MAX_EXCERPT = 280;
+
+  private static readonly POLICY_LINKS: Array<{ kind: PolicyKind; pattern: RegExp }> = [
+    { kind: 'refund', pattern: /\b(?:returns?|refunds?|exchanges?)\b/i },
+    { kind: 'shipping', pattern: /\b(?:shipping|delivery)\b/i },
+    { kind: 'terms', pattern: /\bterms\b|\bconditions\b|\bconditions of (?:use|sale)\b|\blegal\b/i },
+    { kind: 'privacy', pattern: /\bprivacy\b|\bdo not sell\b|\bpersonal (?:data|information)\b/i }
+  ];
+
+  // "We do not sell your data" shouldn't count as selling it
+  private static readonly NEGATED = /\b(?:not|never|don'?t|doesn'?t|won'?t)\b[^.]{0,30}\b(?:sell|rent|trade|share)\b/i;
+
+  private static cache = new Map<string, Promise<string>>();
+
+  /**
+   * Same-origin links whose text matches the pattern, deduplicated and without fragments
+   */
+  static findLinks(context: PageContext, pattern: RegExp, limit: number): string[] {
+    const urls = context.content.links
+      .filter(link => pattern.test(link.text))
+      .map(link => this.sameOrigin(link.href, context))
+      .filter((url): url is string => url !== null);
+
+    return Array.from(new Set(urls)).slice(0, limit);
+  }
+
+  /**
+   * One terms, refund, shipping and privacy page each, as linked from this page
+   */
+  static findPolicyLinks(context: PageContext): PolicyLink[] {
+    const found: PolicyLink[] = [];
+    const seen = new Set<string>();
+
+    for (const { kind, pattern } of this.POLICY_LINKS) {
+      for (const link of context.content.links) {
+        if (link.text.length > 60 || !pattern.test(link.text)) continue;
+
+        const url = this.sameOrigin(link.href, context);
+        if (!url || seen.has(url)) continue;
+
+        seen.add(url);
+        found.push({ kind, text: link.text.trim(), url });
+        break;
+      }
+    }
+
+    return found;
+  }
+
+  /**
+   * Visible text of a page, or an empty string when it can't be read in time
+   */
+  static fetchText(url: string): Promise<string> {
+    let text = this.cache.get(url);
+    if (!text) {
+      text = this.download(url);
+      this.cache.set(url, text);
+    }
+    return text;
+  }
+
+  /**
+   * Sentences in the text that match the fine_print rules, one per category
+   */
+  static findClauses(text: string, source: PolicyLink): FinePrintClause[] {
+    const sentences = text.split(/(?<=[.!?])\s+|\n+/).map(sentence => sentence.trim()).filter(sentence => sentence.length > 15);
+    const clauses = new Map<string, FinePrintClause>();
+
+    sentences.forEach((sentence, index) => {
+      for (const match of ruleEngine.evaluate('fine_print', sentence).matches) {
+        if (!match.subtype || clauses.has(match.subtype)) continue;
+        if (match.subtype === 'data_sharing' && this.NEGATED.test(sentence)) continue;
+
+        clauses.set(match.subtype, {
+          category: match.subtype,
+          description: match.description,
+          weight: match.weight,
+          excerpt: this.clip(sentence),
+          context: sentences.slice(Math.max(0, index - 1), index + 2).join(' '),
+          source
+        });
+      }
+    });
+
+    return Array.from(clauses.values());
+  }
+
+  private static sameOrigin(href: string, context: PageContext): string | null {
+    try {
+      const url = new URL(href, context.url.href);
+      url.hash = '';
+      return url.origin === context.url.origin && url.href !== context.url.href ? url.href : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private static async download(url: string): Promise<string> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.FETCH_TIMEOUT_MS);
+
+    try {
+      const response = await fetch(url, { credentials: 'same-origin', signal: controller.signal });
+      if (!response.ok || !/text\/html|text\/plain/.test(response.headers.get('content-type') || '')) return '';
+
+      const doc = new DOMParser().parseFromString(await response.text(), 'text/html');
+      doc.querySelectorAll('script, style, noscript, nav, header, footer').forEach(node => node.remove());
+      return (doc.body?.textContent || '').replace(/[ \t]+/g, ' ').replace(/\s*\n\s*/g, '\n').slice(0, this.MAX_TEXT);
+    } catch (error) {
+      Debug.warning(`⚠️ Couldn't read ${url}: ${error}`);
+      return '';
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private static clip(sentence: string): string {
+    return sentence.length > this.MAX_EXCERPT ? `${sentence.slice(0, this.MAX_EXCERPT - 3)}...` : sentence;
+  }
+}
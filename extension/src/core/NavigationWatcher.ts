@@ -0,0 +1,59 @@
+/**
+ * NavigationWatcher - Detects client-side route changes in single-page apps
+ */
+
+export class NavigationWatcher {
+  // Dispatched by history-hook.js, which patches pushState/replaceState in the page's world
+  private static readonly LOCATION_EVENT = 'cognitive-sense:locationchange';
+
+  private currentKey: string;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private listener = () => this.check();
+
+  constructor(
+    private onNavigate: (url: string) => void,
+    private settleMs = 1500                // Give the new route time to render
+  ) {
+    this.currentKey = NavigationWatcher.routeKey(window.location.href);
+  }
+
+  start(): void {
+    window.addEventListener(NavigationWatcher.LOCATION_EVENT, this.listener);
+    window.addEventListener('popstate', this.listener);
+  }
+
+  stop(): void {
+    window.removeEventListener(NavigationWatcher.LOCATION_EVENT, this.listener);
+    window.removeEventListener('popstate', this.listener);
+
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Routes are compared by host + path, matching how results are keyed in storage,
+   * so query-string tweaks and hash changes don't count as navigation
+   */
+  static routeKey(url: string): string {
+    const { hostname, pathname } = new URL(url);
+    return `${hostname}${pathname}`;
+  }
+
+  private check(): void {
+    const key = NavigationWatcher.routeKey(window.location.href);
+    if (key === this.currentKey) return;
+
+    this.currentKey = key;
+
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.onNavigate(window.location.href);
+    }, this.settleMs);
+  }
+}
@@ -1,9 +1,19 @@
-import { PageContext, PageType, LinkInfo, ImageInfo, FormInfo } from '@/agents/base/types';
+import { PageContext, PageType, LinkInfo, ImageInfo, FormInfo, FormFieldInfo, TextBlock } from '@/agents/base/types';
 
 /**
  * Builds comprehensive page context for agent analysis
  */
 export class PageContextBuilder {
+  // Elements whose text is treated as one block
+  private static readonly BLOCK_TAGS = new Set([
+    'P', 'DIV', 'LI', 'DT', 'DD', 'TD', 'TH', 'CAPTION', 'H1', 'H2', 'H3', 'H4', 'H5', 'H6',
+    'SECTION', 'ARTICLE', 'ASIDE', 'HEADER', 'FOOTER', 'NAV', 'MAIN', 'BLOCKQUOTE', 'PRE',
+    'FIGCAPTION', 'LABEL', 'BUTTON', 'SUMMARY', 'LEGEND', 'OPTION', 'FORM', 'BODY'
+  ]);
+  private static readonly SKIP_SELECTOR =
+    'script, style, noscript, template, [id^="cognitive-sense"], .cs-hover-tooltip, .cs-element-highlight';
+  private static readonly MAX_BLOCKS = 2000;
+  private static readonly MAX_BLOCK_LENGTH = 1000;
   
   async build(): Promise<PageContext> {
     const startTime = performance.now();
@@ -42,12 +52,59 @@ export class PageContextBuilder {
     };
   }
   
+  /**
+   * Build a context covering only the given subtrees, reusing page-level
+   * fields (type, metadata, language) from a previous full build
+   */
+  async buildPartial(base: PageContext, roots: HTMLElement[]): Promise<PageContext> {
+    const startTime = performance.now();
+    
+    const blocks = this.extractTextBlocks(roots);
+    const text = blocks
+      .filter(block => block.visible)
+      .map(block => block.text)
+      .join('\n');
+    
+    const within = <T extends Element>(selector: string): T[] =>
+      roots.flatMap(root => [
+        ...(root.matches(selector) ? [root as unknown as T] : []),
+        ...Array.from(root.querySelectorAll<T>(selector))
+      ]);
+    
+    const content: PageContext['content'] = {
+      text,
+      blocks,
+      headings: within('h1, h2, h3, h4, h5, h6')
+        .map(h => h.textContent?.trim() || '')
+        .filter(Boolean),
+      links: within<HTMLAnchorElement>('a[href]')
+        .map(a => ({ text: a.textContent?.trim() || '', href: a.href }))
+        .filter(link => link.text.length > 0),
+      images: within<HTMLImageElement>('img[src]')
+        .map(img => ({ src: img.src, alt: img.alt || '' })),
+      forms: within<HTMLFormElement>('form').map(form => this.describeForm(form)),
+      roots
+    };
+    
+    return {
+      ...base,
+      content,
+      userState: await this.getUserState(base.domain),
+      timestamp: new Date(),
+      buildTime: performance.now() - startTime
+    };
+  }
+  
   /**
    * Extract all relevant content from the page
    */
   private async extractContent(): Promise<PageContext['content']> {
-    // Extract visible text (excluding scripts, styles)
-    const text = this.getVisibleText();
+    // Extract visible text blocks (excluding scripts, styles)
+    const blocks = this.extractTextBlocks();
+    const text = blocks
+      .filter(block => block.visible)
+      .map(block => block.text)
+      .join('\n');
     
     // Extract headings
     const headings = Array.from(document.querySelectorAll('h1, h2, h3, h4, h5, h6'))
@@ -71,31 +128,137 @@ export class PageContextBuilder {
     
     // Extract forms
     const forms: FormInfo[] = Array.from(document.querySelectorAll('form'))
-      .map(form => ({
-        action: (form as HTMLFormElement).action || '',
-        method: (form as HTMLFormElement).method || 'GET',
-        inputs: form.querySelectorAll('input, select, textarea').length
-      }));
+      .map(form => this.describeForm(form));
+    
+    return { text, blocks, headings, links, images, forms };
+  }
+  
+  private describeForm(form: HTMLFormElement): FormInfo {
+    const fields: FormFieldInfo[] = Array.from(
+      form.querySelectorAll<HTMLInputElement | HTMLSelectElement>('input[type="checkbox"], input[type="radio"], input[type="number"], input[type="hidden"], select')
+    ).map(element => ({
+      element,
+      type: element instanceof HTMLSelectElement ? 'select' : element.type,
+      name: element.name || element.id || '',
+      label: PageContextBuilder.labelFor(element),
+      value: element.value,
+      ...(element instanceof HTMLInputElement && (element.type === 'checkbox' || element.type === 'radio')
+        ? { checked: element.checked, defaultChecked: element.defaultChecked }
+        : {})
+    }));
+    
+    return {
+      action: form.action || '',
+      method: form.method || 'GET',
+      inputs: form.querySelectorAll('input, select, textarea').length,
+      element: form,
+      fields
+    };
+  }
+  
+  /**
+   * Visible label of a form control: <label for>, wrapping label, aria-label(ledby),
+   * then the text of its immediate container
+   */
+  static labelFor(element: HTMLElement): string {
+    const collapse = (text: string | null | undefined) => (text || '').replace(/\s+/g, ' ').trim();
+    
+    const labels = (element as HTMLInputElement).labels;
+    if (labels && labels.length > 0) {
+      return collapse(Array.from(labels).map(label => label.textContent).join(' '));
+    }
+    
+    const ariaLabel = element.getAttribute('aria-label');
+    if (ariaLabel) return collapse(ariaLabel);
+    
+    const labelledBy = element.getAttribute('aria-labelledby');
+    if (labelledBy) {
+      return collapse(labelledBy.split(/\s+/).map(id => document.getElementById(id)?.textContent).join(' '));
+    }
     
-    return { text, headings, links, images, forms };
+    return collapse(element.parentElement?.textContent).slice(0, 200);
   }
   
   /**
-   * Get visible text content, excluding scripts and styles
+   * Group the text nodes under the given roots (the whole body by default)
+   * by their nearest block-level element, in document order, so detectors
+   * can work per block and point overlays at the element the text came from
    */
-  private getVisibleText(): string {
-    // Clone the document to avoid modifying the original
-    const clone = document.cloneNode(true) as Document;
+  private extractTextBlocks(roots: HTMLElement[] = document.body ? [document.body] : []): TextBlock[] {
+    const fragments = new Map<HTMLElement, string[]>();
+    
+    for (const root of roots) {
+      const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT, {
+        acceptNode: node => {
+          const parent = node.parentElement;
+          if (!parent || !node.textContent) return NodeFilter.FILTER_REJECT;
+          if (parent.closest(PageContextBuilder.SKIP_SELECTOR)) return NodeFilter.FILTER_REJECT;
+          return NodeFilter.FILTER_ACCEPT;
+        }
+      });
+      
+      while (walker.nextNode() && fragments.size < PageContextBuilder.MAX_BLOCKS) {
+        const node = walker.currentNode;
+        const block = this.findBlockElement(node.parentElement!);
+        const existing = fragments.get(block);
+        if (existing) {
+          existing.push(node.textContent!);
+        } else if (node.textContent!.trim()) {
+          // Whitespace-only nodes only separate words inside a block that has text
+          fragments.set(block, [node.textContent!]);
+        }
+      }
+    }
+    
+    const blocks: TextBlock[] = [];
+    let currentHeading: string | undefined;
     
-    // Remove script and style elements
-    const elementsToRemove = clone.querySelectorAll('script, style, noscript');
-    elementsToRemove.forEach(el => el.remove());
+    fragments.forEach((parts, element) => {
+      const text = parts.join('').replace(/\s+/g, ' ').trim()
+        .slice(0, PageContextBuilder.MAX_BLOCK_LENGTH);
+      if (!text) return;
+      
+      if (/^H[1-6]$/.test(element.tagName)) {
+        currentHeading = text;
+      }
+      
+      const rect = element.getBoundingClientRect();
+      blocks.push({
+        text,
+        element,
+        bounds: {
+          top: rect.top + window.scrollY,
+          left: rect.left + window.scrollX,
+          width: rect.width,
+          height: rect.height
+        },
+        visible: this.isRendered(element, rect),
+        heading: currentHeading
+      });
+    });
     
-    // Get text content
-    const text = clone.body?.innerText || '';
+    return blocks;
+  }
+  
+  /**
+   * Walk up to the closest element that forms its own text block
+   */
+  private findBlockElement(element: HTMLElement): HTMLElement {
+    let current: HTMLElement | null = element;
+    while (current && !PageContextBuilder.BLOCK_TAGS.has(current.tagName)) {
+      current = current.parentElement;
+    }
+    return current || element;
+  }
+  
+  /**
+   * Check whether an element is actually painted on the page
+   */
+  private isRendered(element: HTMLElement, rect: DOMRect): boolean {
+    if (rect.width === 0 || rect.height === 0) return false;
     
-    // Clean up whitespace
-    return text.replace(/\s+/g, ' ').trim();
+    const style = window.getComputedStyle(element);
+    return style.visibility !== 'hidden' && style.display !== 'none' && style.opacity !== '0';
   }
   
   /**
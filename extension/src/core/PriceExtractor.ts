@@ -0,0 +1,519 @@
+/**
+ * PriceExtractor - Locale-aware price parsing for shopping pages
+ *
+ * Sources are tried in order of reliability: JSON-LD Offer data, then microdata,
+ * then DOM price nodes and short text lines. Every price is normalised to an
+ * amount plus ISO 4217 currency and classified as current, was (strikethrough /
+ * list price) or per-unit.
+ */
+
+import { PageContext, TextBlock } from '../agents/base/types';
+
+export type PriceRole = 'current' | 'was' | 'unit';
+export type PriceSource = 'json-ld' | 'microdata' | 'dom' | 'text';
+
+export interface ParsedPrice {
+  amount: number;
+  currency: string;                     // ISO 4217, e.g. 'EUR'
+  role: PriceRole;
+  source: PriceSource;
+  text: string;                         // Text the price was read from
+  unit?: string;                        // For per-unit prices, e.g. 'kg', '100 ml'
+  element?: HTMLElement;
+}
+
+export interface PriceOffer {
+  current: ParsedPrice;
+  was?: ParsedPrice;
+  unit?: ParsedPrice;
+  discount?: number;                    // was - current, in the offer currency
+  discountPercent?: number;
+  source: PriceSource;
+  text: string;
+  element?: HTMLElement;
+}
+
+interface PriceMatch {
+  amount: number;
+  currency: string;
+  raw: string;
+  index: number;
+}
+
+export class PriceExtractor {
+  // Longest tokens first so 'US$' wins over '$' and 'Rs.' over 'Rs'
+  private static readonly CURRENCY_TOKENS: Array<[string, string]> = [
+    ['US$', 'USD'], ['CA$', 'CAD'], ['C$', 'CAD'], ['AU$', 'AUD'], ['A$', 'AUD'],
+    ['NZ$', 'NZD'], ['HK$', 'HKD'], ['S$', 'SGD'], ['R$', 'BRL'], ['MX$', 'MXN'],
+    ['Rs.', 'INR'], ['Rs', 'INR'], ['CHF', 'CHF'], ['Fr.', 'CHF'], ['zł', 'PLN'],
+    ['kr', 'SEK'], ['RMB', 'CNY'], ['元', 'CNY'],
+    ['$', 'USD'], ['₹', 'INR'], ['€', 'EUR'], ['£', 'GBP'], ['¥', 'JPY'], ['₩', 'KRW'],
+    ['₽', 'RUB'], ['₺', 'TRY'], ['₫', 'VND'], ['₱', 'PHP'], ['₪', 'ILS'], ['฿', 'THB']
+  ];
+
+  private static readonly ISO_CODES = [
+    'USD', 'EUR', 'GBP', 'INR', 'JPY', 'CNY', 'CHF', 'CAD', 'AUD', 'NZD', 'HKD', 'SGD',
+    'SEK', 'NOK', 'DKK', 'PLN', 'CZK', 'BRL', 'MXN', 'KRW', 'RUB', 'TRY', 'ZAR', 'AED'
+  ];
+
+  // Country TLDs that use a local dollar, yen or krona sign
+  private static readonly TLD_CURRENCY: Record<string, Record<string, string>> = {
+    '$': { ca: 'CAD', au: 'AUD', nz: 'NZD', sg: 'SGD', hk: 'HKD', mx: 'MXN' },
+    '¥': { cn: 'CNY' },
+    'kr': { no: 'NOK', dk: 'DKK', se: 'SEK' }
+  };
+
+  // Grouped ("1,23,456", "1 234,56") or plain ("1234.5") amounts, optionally "12,-"
+  private static readonly NUMBER =
+    "(?:\\d{1,3}(?:[,.'\\u00a0\\u202f]\\d{2,3}|\\s\\d{3}(?!\\d))+(?:[.,]\\d{1,2})?|\\d+(?:[.,]\\d{1,2})?)(?:[.,][-–])?";
+
+  private static readonly WAS_LABELS =
+    /\b(was|were|originally|list price|rrp|msrp|m\.?r\.?p\.?|regular|reg\.|compare at|before|typical price|strikethrough)\b/i;
+
+  private static readonly WAS_CLASSES =
+    /(^|[-_ ])(was|old|original|strike|list-?price|regular|compare|mrp|rrp|before|crossed)([-_ ]|$)/i;
+
+  private static readonly UNIT_PATTERN =
+    /(?:\/|\bper\b|\ba\b)\s*(\d+\s*)?(kg|g|gram|lb|oz|l|litre|liter|ml|cl|m|cm|each|ea|unit|item|count|ct|piece|pc|sheet|load|tablet)s?\b/i;
+
+  private static readonly DOM_SELECTOR = [
+    '[class*="price" i]', '[id*="price" i]', '[data-price]', '[class*="amount" i]', '[class*="cost" i]', 's', 'del', 'strike'
+  ].join(', ');
+
+  /**
+   * All offers on the page, best source first. Structured offers are enriched with
+   * the was/unit prices and element of the matching DOM price, since sites rarely
+   * put strikethrough prices in JSON-LD. An incremental context only yields the
+   * prices inside its added subtrees; the page's structured offers were read in full.
+   */
+  static extract(context: PageContext): PriceOffer[] {
+    const { roots } = context.content;
+    let structured: PriceOffer[] = [];
+    if (!roots) {
+      structured = this.extractFromJsonLd(context);
+      if (structured.length === 0) structured = this.extractFromMicrodata(context);
+    }
+
+    const dom = [
+      ...(roots || [document]).flatMap(root => this.extractFromDom(context, root)),
+      ...this.extractFromText(context.content.blocks)
+    ];
+    const used = new Set<PriceOffer>();
+
+    const merged = structured.map(offer => {
+      const match = dom.find(candidate =>
+        !used.has(candidate) &&
+        candidate.current.currency === offer.current.currency &&
+        Math.abs(candidate.current.amount - offer.current.amount) < 0.01
+      );
+      if (!match) return offer;
+
+      used.add(match);
+      return this.withDiscount({
+        ...offer,
+        was: offer.was || match.was,
+        unit: offer.unit || match.unit,
+        text: match.text,
+        element: match.element
+      });
+    });
+
+    const rest = dom.filter(offer => !used.has(offer));
+    return this.deduplicate([...merged, ...rest]);
+  }
+
+  /**
+   * Offers from schema.org Product / Offer / AggregateOffer JSON-LD
+   */
+  static extractFromJsonLd(context: PageContext): PriceOffer[] {
+    const offers: PriceOffer[] = [];
+    const roots: any[] = context.metadata.structured?.jsonLd || [];
+
+    const visit = (node: any): void => {
+      if (!node || typeof node !== 'object') return;
+      if (Array.isArray(node)) {
+        node.forEach(visit);
+        return;
+      }
+
+      const types = ([] as any[]).concat(node['@type'] || []).map(String);
+      if (types.some(type => /^(Offer|AggregateOffer)$/.test(type))) {
+        const offer = this.offerFromSchema(node, 'json-ld');
+        if (offer) offers.push(offer);
+      }
+
+      ['@graph', 'offers', 'itemListElement', 'item', 'mainEntity', 'hasVariant'].forEach(key => visit(node[key]));
+    };
+
+    roots.forEach(visit);
+    return offers;
+  }
+
+  /**
+   * Offers from itemprop="price" microdata
+   */
+  static extractFromMicrodata(context: PageContext): PriceOffer[] {
+    const offers: PriceOffer[] = [];
+
+    document.querySelectorAll<HTMLElement>('[itemprop="price"], [itemprop="lowPrice"]').forEach(element => {
+      const scope = element.closest('[itemscope]') || document;
+      const currencyNode = scope.querySelector('[itemprop="priceCurrency"]');
+      const currency = currencyNode?.getAttribute('content') || currencyNode?.textContent?.trim();
+      const rawAmount = element.getAttribute('content') || element.textContent || '';
+
+      const parsed = currency
+        ? { amount: this.parseAmount(rawAmount), currency: currency.toUpperCase() }
+        : this.parsePrice(rawAmount, context);
+      if (!parsed || parsed.amount === null || !parsed.currency) return;
+
+      offers.push({
+        current: {
+          amount: parsed.amount,
+          currency: parsed.currency,
+          role: 'current',
+          source: 'microdata',
+          text: rawAmount.trim(),
+          element
+        },
+        source: 'microdata',
+        text: rawAmount.trim(),
+        element
+      });
+    });
+
+    return offers;
+  }
+
+  /**
+   * Offers built from visible price nodes, pairing each strikethrough price with
+   * the current price in the same price block
+   */
+  static extractFromDom(context: PageContext, root: ParentNode = document): PriceOffer[] {
+    const prices: ParsedPrice[] = [];
+    const seen = new Set<HTMLElement>();
+
+    // An added subtree can itself be the price node
+    const self = root instanceof HTMLElement && root.matches(this.DOM_SELECTOR) ? [root] : [];
+    [...self, ...Array.from(root.querySelectorAll<HTMLElement>(this.DOM_SELECTOR))].forEach(element => {
+      // Use the innermost node carrying a single price
+      if (element.querySelector(this.DOM_SELECTOR) && element.children.length > 0 && !this.isSplitPrice(element)) return;
+      if ([...seen].some(parent => parent.contains(element))) return;
+
+      const price = this.readPriceElement(element, context);
+      if (!price) return;
+
+      seen.add(element);
+      prices.push(price);
+    });
+
+    const currents = prices.filter(price => price.role === 'current');
+    const offers = new Map<ParsedPrice, PriceOffer>(
+      currents.map(price => [price, { current: price, source: 'dom', text: price.text, element: price.element }])
+    );
+
+    prices.filter(price => price.role !== 'current').forEach(price => {
+      const owner = this.nearest(price, currents);
+      if (!owner) return;
+
+      const offer = offers.get(owner)!;
+      if (price.role === 'was' && !offer.was && price.amount > owner.amount) {
+        offer.was = price;
+        offer.text = `${price.text} ${offer.text}`;
+      } else if (price.role === 'unit' && !offer.unit) {
+        offer.unit = price;
+      }
+    });
+
+    return [...offers.values()].map(offer => this.withDiscount(offer));
+  }
+
+  /**
+   * Was/now pairs written on one line, e.g. "Was £49.99, now £29.99"
+   */
+  static extractFromText(blocks: TextBlock[]): PriceOffer[] {
+    const offers: PriceOffer[] = [];
+
+    for (const block of blocks) {
+      if (!block.visible || block.text.length > 200) continue;
+
+      const matches = this.findPrices(block.text);
+      if (matches.length < 2) continue;
+
+      const wasMatch = matches.find(match =>
+        this.WAS_LABELS.test(block.text.slice(Math.max(0, match.index - 20), match.index))
+      );
+      const currentMatch = matches.find(match => match !== wasMatch && match.currency === wasMatch?.currency);
+      if (!wasMatch || !currentMatch || wasMatch.amount <= currentMatch.amount) continue;
+
+      const toPrice = (match: PriceMatch, role: PriceRole): ParsedPrice => ({
+        amount: match.amount,
+        currency: match.currency,
+        role,
+        source: 'text',
+        text: match.raw,
+        element: block.element
+      });
+
+      offers.push(this.withDiscount({
+        current: toPrice(currentMatch, 'current'),
+        was: toPrice(wasMatch, 'was'),
+        source: 'text',
+        text: block.text,
+        element: block.element
+      }));
+    }
+
+    return offers;
+  }
+
+  /**
+   * Every currency amount in a string
+   */
+  static findPrices(text: string, context?: PageContext): PriceMatch[] {
+    const tokens = this.CURRENCY_TOKENS.map(([token]) => this.caseless(this.escape(token))).join('|');
+    // ISO codes only in capitals, so words like "try" and "cad" aren't read as currencies
+    const codes = `(?<![A-Za-z])(?:${this.ISO_CODES.join('|')})(?![A-Za-z])`;
+    const currency = `(?:${codes}|${tokens})`;
+    const pattern = new RegExp(
+      `(${currency})\\s?(${this.NUMBER})|(${this.NUMBER})\\s?(${currency})(?![A-Za-z])`,
+      'g'
+    );
+
+    const matches: PriceMatch[] = [];
+    for (const match of text.matchAll(pattern)) {
+      const token = match[1] || match[4];
+      const amount = this.parseAmount(match[2] || match[3]);
+      const iso = this.resolveCurrency(token, context);
+
+      // 'a 3' / 'Rs' inside words would otherwise match
+      if (amount === null || !iso || this.isInsideWord(text, match.index!, token, !!match[1])) continue;
+
+      matches.push({ amount, currency: iso, raw: match[0].trim(), index: match.index! });
+    }
+
+    return matches;
+  }
+
+  /**
+   * First price in a string, as amount + ISO currency
+   */
+  static parsePrice(text: string, context?: PageContext): { amount: number; currency: string } | null {
+    const match = this.findPrices(text, context)[0];
+    return match ? { amount: match.amount, currency: match.currency } : null;
+  }
+
+  /**
+   * Parse a number written with any common grouping convention:
+   * 1,234.56 · 1.234,56 · 1 234,56 · 1'234.56 · 1,23,456 · 12,- · 1234
+   */
+  static parseAmount(raw: string): number | null {
+    let value = raw.trim().replace(/[.,][-–]$/, '').replace(/[\s\u00a0\u202f']/g, '');
+    if (!/^\d[\d.,]*$/.test(value)) return null;
+
+    const lastComma = value.lastIndexOf(',');
+    const lastDot = value.lastIndexOf('.');
+
+    let decimal: ',' | '.' | null = null;
+    if (lastComma >= 0 && lastDot >= 0) {
+      decimal = lastComma > lastDot ? ',' : '.';
+    } else if (lastComma >= 0 || lastDot >= 0) {
+      const separator = lastComma >= 0 ? ',' : '.';
+      const occurrences = value.split(separator).length - 1;
+      const digitsAfter = value.length - value.lastIndexOf(separator) - 1;
+      // A single separator followed by exactly three digits is grouping ("1,234")
+      decimal = occurrences === 1 && digitsAfter !== 3 ? separator : null;
+    }
+
+    if (decimal) {
+      const grouping = decimal === ',' ? '.' : ',';
+      value = value.split(grouping).join('').replace(decimal, '.');
+    } else {
+      value = value.replace(/[.,]/g, '');
+    }
+
+    const amount = parseFloat(value);
+    return Number.isFinite(amount) ? amount : null;
+  }
+
+  /**
+   * Display an amount in its currency, e.g. "€1.234,56" style per the browser locale
+   */
+  static format(amount: number, currency: string): string {
+    try {
+      return new Intl.NumberFormat(undefined, { style: 'currency', currency }).format(amount);
+    } catch {
+      return `${currency} ${amount}`;
+    }
+  }
+
+  private static offerFromSchema(node: any, source: PriceSource): PriceOffer | null {
+    const currency = String(node.priceCurrency || node.priceSpecification?.priceCurrency || '').toUpperCase();
+    const rawAmount = node.price ?? node.lowPrice ?? node.priceSpecification?.price;
+    const amount = typeof rawAmount === 'number' ? rawAmount : this.parseAmount(String(rawAmount ?? ''));
+    if (amount === null || !currency) return null;
+
+    const offer: PriceOffer = {
+      current: { amount, currency, role: 'current', source, text: `${amount} ${currency}` },
+      source,
+      text: `${amount} ${currency}`
+    };
+
+    // UnitPriceSpecification entries carry list (was) and per-unit prices
+    ([] as any[]).concat(node.priceSpecification || []).forEach((spec: any) => {
+      const specAmount = typeof spec.price === 'number' ? spec.price : this.parseAmount(String(spec.price ?? ''));
+      if (specAmount === null) return;
+
+      const specCurrency = String(spec.priceCurrency || currency).toUpperCase();
+      const priceType = String(spec.priceType || '');
+
+      if (/ListPrice|StrikethroughPrice|MSRP|SRP/i.test(priceType) && specAmount > amount) {
+        offer.was = { amount: specAmount, currency: specCurrency, role: 'was', source, text: `${specAmount} ${specCurrency}` };
+      } else if (spec.referenceQuantity) {
+        const quantity = spec.referenceQuantity;
+        offer.unit = {
+          amount: specAmount,
+          currency: specCurrency,
+          role: 'unit',
+          source,
+          text: `${specAmount} ${specCurrency}`,
+          unit: `${quantity.value ?? ''} ${quantity.unitText || quantity.unitCode || ''}`.trim()
+        };
+      }
+    });
+
+    return this.withDiscount(offer);
+  }
+
+  private static readPriceElement(element: HTMLElement, context: PageContext): ParsedPrice | null {
+    const rect = element.getBoundingClientRect();
+    if (rect.width === 0 && rect.height === 0 && !/offscreen|sr-only|visually-hidden/i.test(element.className)) return null;
+
+    const text = (element.textContent || '').replace(/\s+/g, ' ').trim();
+    if (!text || text.length > 80) return null;
+
+    const parsed = this.readSplitPrice(element, context) ||
+      this.parsePrice(element.getAttribute('content') || element.getAttribute('data-price') || '', context) ||
+      this.parsePrice(text, context);
+    if (!parsed) return null;
+
+    const unitMatch = text.match(this.UNIT_PATTERN);
+    const role: PriceRole = unitMatch || /unit-?price|price-?per/i.test(element.className)
+      ? 'unit'
+      : this.isStruckThrough(element, text) ? 'was' : 'current';
+
+    return {
+      ...parsed,
+      role,
+      source: 'dom',
+      text,
+      unit: unitMatch ? `${unitMatch[1] || ''}${unitMatch[2]}`.trim() : undefined,
+      element
+    };
+  }
+
+  /**
+   * Prices rendered as separate symbol / whole / fraction spans
+   */
+  private static readSplitPrice(element: HTMLElement, context: PageContext): { amount: number; currency: string } | null {
+    if (!this.isSplitPrice(element)) return null;
+
+    const whole = element.querySelector('[class*="whole" i], [class*="integer" i], [class*="dollars" i], [class*="units" i]');
+    const fraction = element.querySelector('[class*="fraction" i], [class*="cents" i], [class*="decimals" i], sup:last-child');
+    const symbol = element.querySelector('[class*="symbol" i], [class*="currency" i]');
+
+    const wholeDigits = whole?.textContent?.replace(/\D/g, '');
+    const fractionDigits = fraction?.textContent?.replace(/\D/g, '') || '';
+    if (!wholeDigits) return null;
+
+    const currency = this.resolveCurrency(symbol?.textContent?.trim() || '', context) ||
+      this.parsePrice(element.textContent || '', context)?.currency;
+    if (!currency) return null;
+
+    return { amount: parseFloat(`${wholeDigits}.${fractionDigits || '0'}`), currency };
+  }
+
+  private static isSplitPrice(element: HTMLElement): boolean {
+    return !!element.querySelector('[class*="whole" i], [class*="integer" i], [class*="fraction" i], [class*="cents" i]');
+  }
+
+  private static isStruckThrough(element: HTMLElement, text: string): boolean {
+    let node: HTMLElement | null = element;
+
+    for (let depth = 0; node && depth < 3; depth++, node = node.parentElement) {
+      if (/^(S|DEL|STRIKE)$/.test(node.tagName)) return true;
+      if (this.WAS_CLASSES.test(node.className || '')) return true;
+      if (getComputedStyle(node).textDecorationLine.includes('line-through')) return true;
+    }
+
+    return this.WAS_LABELS.test(text);
+  }
+
+  /**
+   * Current price sharing the closest common ancestor with this price
+   */
+  private static nearest(price: ParsedPrice, currents: ParsedPrice[]): ParsedPrice | null {
+    let node = price.element?.parentElement || null;
+
+    for (let depth = 0; node && depth < 5; depth++, node = node.parentElement) {
+      const owner = currents.find(current =>
+        current.currency === price.currency && current.element && node!.contains(current.element)
+      );
+      if (owner) return owner;
+    }
+
+    return null;
+  }
+
+  private static resolveCurrency(token: string, context?: PageContext): string | null {
+    if (!token) return null;
+
+    const upper = token.toUpperCase();
+    if (this.ISO_CODES.includes(upper)) return upper;
+
+    const entry = this.CURRENCY_TOKENS.find(([symbol]) => symbol.toLowerCase() === token.toLowerCase());
+    if (!entry) return null;
+
+    const tld = (context?.domain || location.hostname).split('.').pop() || '';
+    return this.TLD_CURRENCY[entry[0]]?.[tld] || entry[1];
+  }
+
+  private static isInsideWord(text: string, index: number, token: string, tokenFirst: boolean): boolean {
+    if (!/^[a-z]/i.test(token)) return false;
+
+    if (tokenFirst) {
+      return index > 0 && /[a-z]/i.test(text[index - 1]);
+    }
+    return false;
+  }
+
+  private static withDiscount(offer: PriceOffer): PriceOffer {
+    if (offer.was && offer.was.currency === offer.current.currency && offer.was.amount > offer.current.amount) {
+      const discount = offer.was.amount - offer.current.amount;
+      return {
+        ...offer,
+        discount: Math.round(discount * 100) / 100,
+        discountPercent: Math.round((discount / offer.was.amount) * 100)
+      };
+    }
+    return offer;
+  }
+
+  private static deduplicate(offers: PriceOffer[]): PriceOffer[] {
+    const seen = new Set<string>();
+
+    return offers.filter(offer => {
+      const key = `${offer.current.currency}:${offer.current.amount}:${offer.was?.amount ?? ''}`;
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+  }
+
+  private static escape(token: string): string {
+    return token.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  }
+
+  private static caseless(pattern: string): string {
+    return pattern.replace(/[a-z]/gi, letter => `[${letter.toLowerCase()}${letter.toUpperCase()}]`);
+  }
+}
@@ -0,0 +1,148 @@
+/**
+ * QuantityExtractor - Pack size parsing for per-unit price comparisons
+ *
+ * Reads weights (g, kg, oz, lb), volumes (ml, cl, L, fl oz), multipacks
+ * ("6 x 330 ml") and item counts ("pack of 3", "24 ct") from product text.
+ * Sizes are normalised to grams or millilitres so options can be compared.
+ */
+
+import { PageContext } from '../agents/base/types';
+import { PriceExtractor } from './PriceExtractor';
+
+export type QuantityDimension = 'mass' | 'volume' | 'count';
+
+export interface Quantity {
+  packs: number;                        // Items in the pack, 1 for a single item
+  size?: number;                        // Per-item size in grams or millilitres
+  dimension: QuantityDimension;         // 'count' when no per-item size is given
+  text: string;                         // Text the quantity was read from
+}
+
+export class QuantityExtractor {
+  private static readonly UNITS: Array<[RegExp, QuantityDimension, number]> = [
+    [/^fl\.?\s?oz$/i, 'volume', 29.5735],
+    [/^(kg|kilos?|kilograms?)$/i, 'mass', 1000],
+    [/^(g|gr|grams?)$/i, 'mass', 1],
+    [/^(lbs?|pounds?)$/i, 'mass', 453.592],
+    [/^(oz|ounces?)$/i, 'mass', 28.3495],
+    [/^(ml|millilit(?:re|er)s?)$/i, 'volume', 1],
+    [/^cl$/i, 'volume', 10],
+    [/^dl$/i, 'volume', 100],
+    [/^(l|lt|ltr|litres?|liters?)$/i, 'volume', 1000]
+  ];
+
+  private static readonly SIZE =
+    '(\\d+(?:[.,]\\d+)?)\\s?(fl\\.?\\s?oz|kilograms?|kilos?|kg|grams?|gr|g|lbs?|pounds?|ounces?|oz|millilit(?:re|er)s?|ml|cl|dl|litres?|liters?|ltr|lt|l)(?![a-z])';
+  private static readonly SIZE_PATTERN = new RegExp(QuantityExtractor.SIZE, 'gi');
+  private static readonly MULTI_BEFORE = new RegExp(`\\b(\\d{1,3})\\s?[x×]\\s?${QuantityExtractor.SIZE}`, 'gi');
+  private static readonly MULTI_AFTER = new RegExp(`${QuantityExtractor.SIZE}\\s?[x×]\\s?(\\d{1,3})\\b`, 'gi');
+  // "5G" and "4G LTE" are networks; grams take a lowercase g or a space, e.g. "500g", "500 G"
+  private static readonly NETWORK = /\dG(?![A-Za-z])/;
+  private static readonly COUNT =
+    /\b(?:pack|bundle|set|case|box|multipack) of (\d{1,3})\b|\b(\d{1,3})[\s-]?(?:pack|pk|count|ct|pcs?|pieces|tablets|capsules|rolls|pods|sheets|bags|bars|cans|bottles|units)\b|\b(twin|double|triple)[\s-]?pack\b/i;
+  private static readonly PACK_WORDS: Record<string, number> = { twin: 2, double: 2, triple: 3 };
+
+  /**
+   * Pack size written in the text, or null when it gives none
+   */
+  static parse(text: string): Quantity | null {
+    const multi = this.find(text, this.MULTI_BEFORE);
+    if (multi) return this.sized(parseInt(multi[1], 10), multi[2], multi[3], multi[0]);
+
+    const multiAfter = this.find(text, this.MULTI_AFTER);
+    if (multiAfter) return this.sized(parseInt(multiAfter[3], 10), multiAfter[1], multiAfter[2], multiAfter[0]);
+
+    const count = text.match(this.COUNT);
+    const packs = count
+      ? count[1] || count[2] ? parseInt(count[1] || count[2], 10) : this.PACK_WORDS[count[3].toLowerCase()]
+      : 1;
+    if (packs < 1) return null;
+
+    const size = this.find(text, this.SIZE_PATTERN);
+    if (size) {
+      // "Pack of 3 (900 g total)" gives the whole pack, not each item
+      const total = packs > 1 && /^\W{0,3}(?:in )?total\b/i.test(text.slice(size.index! + size[0].length));
+      const quantity = this.sized(packs, size[1], size[2], count ? `${count[0]}, ${size[0]}` : size[0]);
+      if (quantity?.size && total) quantity.size /= packs;
+      return quantity;
+    }
+
+    return count ? { packs, dimension: 'count', text: count[0] } : null;
+  }
+
+  /**
+   * Pack size of the main product, from the page heading or title
+   */
+  static fromProduct(context: PageContext): Quantity | null {
+    const names = [
+      document.querySelector('h1')?.textContent,
+      context.metadata.structured?.openGraph?.title,
+      context.title
+    ];
+
+    for (const name of names) {
+      const quantity = name ? this.parse(name.replace(/\s+/g, ' ')) : null;
+      if (quantity) return quantity;
+    }
+    return null;
+  }
+
+  /**
+   * Dimension two quantities can be compared in: their size if both give one, else item count
+   */
+  static comparable(a: Quantity, b: Quantity): QuantityDimension {
+    return a.size && b.size && a.dimension === b.dimension ? a.dimension : 'count';
+  }
+
+  /**
+   * Total pack quantity in grams, millilitres or items
+   */
+  static measure(quantity: Quantity, dimension: QuantityDimension = quantity.dimension): number {
+    return dimension === 'count' || !quantity.size ? quantity.packs : quantity.packs * quantity.size;
+  }
+
+  /**
+   * Price per 100 g, per 100 ml or per item
+   */
+  static unitPrice(amount: number, quantity: Quantity, dimension: QuantityDimension = quantity.dimension): number {
+    return (amount / this.measure(quantity, dimension)) * (dimension === 'count' ? 1 : 100);
+  }
+
+  static formatUnitPrice(amount: number, currency: string, dimension: QuantityDimension): string {
+    const unit = dimension === 'mass' ? '100 g' : dimension === 'volume' ? '100 ml' : 'item';
+    return `${PriceExtractor.format(amount, currency)} / ${unit}`;
+  }
+
+  static format(quantity: Quantity): string {
+    if (!quantity.size) return `${quantity.packs} item${quantity.packs === 1 ? '' : 's'}`;
+
+    const size = this.formatSize(quantity.size, quantity.dimension);
+    return quantity.packs > 1 ? `${quantity.packs} × ${size}` : size;
+  }
+
+  static formatSize(amount: number, dimension: QuantityDimension): string {
+    if (dimension === 'count') return `${amount} item${amount === 1 ? '' : 's'}`;
+
+    const [small, large] = dimension === 'mass' ? ['g', 'kg'] : ['ml', 'L'];
+    const round = (value: number) => Math.round(value * 100) / 100;
+    return amount >= 1000 ? `${round(amount / 1000)} ${large}` : `${round(amount)} ${small}`;
+  }
+
+  /**
+   * First match that isn't a network generation read as grams
+   */
+  private static find(text: string, pattern: RegExp): RegExpMatchArray | null {
+    for (const match of text.matchAll(pattern)) {
+      if (!this.NETWORK.test(match[0])) return match;
+    }
+    return null;
+  }
+
+  private static sized(packs: number, number: string, unit: string, text: string): Quantity | null {
+    const entry = this.UNITS.find(([pattern]) => pattern.test(unit.trim()));
+    const amount = parseFloat(/^\d{1,3},\d{3}$/.test(number) ? number.replace(',', '') : number.replace(',', '.'));
+    if (!entry || !(amount > 0) || packs < 1) return null;
+
+    return { packs, size: amount * entry[2], dimension: entry[1], text };
+  }
+}
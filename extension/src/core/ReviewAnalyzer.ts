@@ -0,0 +1,602 @@
+/**
+ * ReviewAnalyzer - Local authenticity checks over the individual reviews on a page
+ *
+ * Reviews are read from schema.org Review JSON-LD and microdata, then from
+ * repeated review cards in the DOM. The corpus is checked for an unnatural
+ * rating distribution, bursts of reviews posted together, near-duplicate text
+ * and incentive disclosures. Nothing leaves the device.
+ */
+
+import { PageContext } from '../agents/base/types';
+import { ruleEngine } from '../rules/RuleEngine';
+
+export type ReviewSource = 'json-ld' | 'microdata' | 'dom';
+export type DistributionShape = 'j_shaped' | 'bimodal' | 'top_heavy' | 'unimodal' | 'insufficient';
+
+export interface ExtractedReview {
+  rating?: number;                      // Normalised to 1-5
+  text: string;
+  author?: string;
+  date?: number;                        // ms since epoch
+  age?: number;                         // ms before the page was read, for "3 days ago" style dates
+  source: ReviewSource;
+  element?: HTMLElement;
+}
+
+export interface AggregateRatingInfo {
+  ratingValue: number;                  // Normalised to 1-5
+  reviewCount?: number;
+  ratingCount?: number;
+  source: ReviewSource;
+}
+
+export interface HeadlineRating {
+  ratingValue?: number;                 // Normalised to 1-5
+  count?: number;
+  countKind?: 'ratings' | 'reviews';
+  approximate: boolean;                 // Count shown rounded, e.g. "12K ratings"
+  text: string;
+  element: HTMLElement;
+}
+
+export interface RatingHistogram {
+  values: number[];                     // Per star, index 0 = 1 star; NaN where the row is missing
+  kind: 'percent' | 'count';
+  element?: HTMLElement;
+}
+
+export interface ReviewCorpus {
+  reviews: ExtractedReview[];
+  aggregate?: AggregateRatingInfo;      // From JSON-LD or microdata
+  headline?: HeadlineRating;            // Summary rating rendered on the page
+  histogram?: RatingHistogram;
+  container?: HTMLElement;              // Element holding the review list, when found in the DOM
+}
+
+export interface ReviewBurst {
+  count: number;                        // Reviews inside the busiest window
+  share: number;                        // count / dated reviews
+  start: number;
+  end: number;
+  burstiness: number;                   // (σ - μ) / (σ + μ) of the gaps between reviews, -1 to 1
+}
+
+export interface ReviewTrustReport {
+  trust: number;                        // 0-100, higher is more trustworthy
+  reviewCount: number;
+  ratedCount: number;
+  datedCount: number;
+  distribution: number[];               // Reviews per star, index 0 = 1 star
+  shape: DistributionShape;
+  burst?: ReviewBurst;
+  duplicateGroups: ExtractedReview[][];
+  incentivised: ExtractedReview[];
+  flags: string[];
+}
+
+export class ReviewAnalyzer {
+  private static readonly MAX_REVIEWS = 150;
+  private static readonly DAY_MS = 24 * 60 * 60 * 1000;
+  private static readonly BURST_WINDOW_MS = 3 * ReviewAnalyzer.DAY_MS;
+  private static readonly MIN_RATED = 10;
+  private static readonly MIN_DATED = 8;
+  private static readonly DUPLICATE_SIMILARITY = 0.5;
+
+  private static readonly ITEM_SELECTOR = '[data-hook="review"], [data-review-id], [itemprop="review"]';
+  private static readonly CANDIDATE_SELECTOR = '[class*="review" i], [id*="review" i], [class*="testimonial" i]';
+  private static readonly PART_CLASS = /summary|histogram|breakdown|form|write|filter|sort|pagination|header|title|body|text|content|rating|star|date|author|avatar|photo|image|media|helpful|vote|button/i;
+  private static readonly BODY_SELECTOR =
+    '[itemprop="reviewBody"], [data-hook="review-body"], [class*="body" i], [class*="text" i], [class*="content" i]';
+  private static readonly AUTHOR_SELECTOR = '[itemprop="author"], [class*="author" i], [class*="reviewer" i], [class*="name" i]';
+  private static readonly RATING_TEXT = /(\d+(?:[.,]\d)?)\s*(?:out of|of|\/)\s*(5|10)\b|(\d(?:[.,]\d)?)\s*(?:stars?|★)/i;
+  private static readonly DATE_TEXT =
+    /\b\d{4}-\d{2}-\d{2}\b|\b(?:jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*\.? \d{1,2},? \d{4}\b|\b\d{1,2} (?:jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*\.? \d{4}\b/i;
+  private static readonly RELATIVE_DATE = /\b(\d+|a|an|one) (day|week|month|year)s? ago\b/i;
+
+  private static readonly HEADLINE_SELECTOR =
+    '[class*="rating" i], [class*="review" i], [id*="rating" i], [id*="review" i], [data-hook*="rating" i], [itemprop="aggregateRating"]';
+  private static readonly HEADLINE_RATING = /(\d(?:[.,]\d{1,2})?)\s*(?:out of 5|\/\s*5\b|stars?|★)/i;
+  private static readonly HEADLINE_COUNT =
+    /(\d{1,3}(?:[,.\s]\d{3})+|\d+(?:[.,]\d)?\s*[kK]|\d+)\s*(?:global |customer |verified |product |total )?(ratings?|reviews?)\b/i;
+  private static readonly HISTOGRAM_ROW = /^([1-5])[\s-]*(?:stars?|★)\s*[:\-–]?\s*(\d{1,3}(?:[,.]\d{3})*)\s*(%)?$/i;
+  private static readonly HISTOGRAM_LABEL = /^([1-5])[\s-]*(?:stars?|★)$/i;
+  private static readonly HISTOGRAM_VALUE = /^\(?(\d{1,3}(?:[,.]\d{3})*)\s*(%)?\)?$/;
+  private static readonly HISTOGRAM_ARIA = /(\d{1,3})\s*(?:%|percent) of (?:reviews|ratings) have ([1-5]) stars?/i;
+
+  /**
+   * All reviews on the page, structured data first. A review found by more than
+   * one source is kept once; repeats within one source are real and kept.
+   */
+  static extract(context: PageContext): ReviewCorpus {
+    const corpus: ReviewCorpus = { reviews: [] };
+
+    this.visitJsonLd(context.metadata.structured?.jsonLd || [], corpus);
+    this.extractMicrodata(corpus);
+
+    const dom = this.extractFromDom();
+    corpus.reviews.push(...dom.reviews);
+    corpus.container = dom.container;
+    corpus.headline = this.extractHeadline();
+    corpus.histogram = this.extractHistogram(context);
+
+    corpus.reviews = this.deduplicate(corpus.reviews).slice(0, this.MAX_REVIEWS);
+    return corpus;
+  }
+
+  static analyze(corpus: ReviewCorpus, now = Date.now()): ReviewTrustReport {
+    const reviews = corpus.reviews;
+    const rated = reviews.filter(review => review.rating !== undefined);
+    const dated = reviews
+      .map(review => review.date ?? (review.age !== undefined ? now - review.age : undefined))
+      .filter((date): date is number => date !== undefined && date <= now);
+
+    const distribution = [0, 0, 0, 0, 0];
+    rated.forEach(review => distribution[Math.min(5, Math.max(1, Math.round(review.rating!))) - 1]++);
+
+    const shape = rated.length >= this.MIN_RATED ? this.classifyShape(distribution, rated.length) : 'insufficient';
+    const burst = dated.length >= this.MIN_DATED ? this.findBurst(dated) : undefined;
+    const duplicateGroups = this.findNearDuplicates(reviews);
+    const incentivised = reviews.filter(review => ruleEngine.evaluate('incentivised_review', review.text).score > 0);
+
+    const flags: string[] = [];
+    let penalty = 0;
+
+    if (shape === 'top_heavy') {
+      penalty += 25;
+      flags.push('almost no critical reviews');
+    } else if (shape === 'bimodal') {
+      penalty += 20;
+      flags.push('ratings split between 1 and 5 stars with an empty middle');
+    }
+
+    const isBurst = !!burst && burst.count >= 5 && burst.share >= 0.4;
+    if (isBurst) {
+      penalty += 20;
+      const days = Math.max(1, Math.round((burst!.end - burst!.start) / this.DAY_MS));
+      flags.push(`${burst!.count} reviews posted within ${days === 1 ? 'a day' : `${days} days`}`);
+    }
+
+    const duplicates = duplicateGroups.reduce((sum, group) => sum + group.length, 0);
+    if (duplicates > 0) {
+      penalty += Math.min(30, duplicateGroups.length * 10 + duplicates * 2);
+      flags.push(`${duplicates} reviews with near-identical wording`);
+    }
+
+    if (incentivised.length > 0) {
+      const share = incentivised.length / reviews.length;
+      penalty += share >= 0.1 ? 15 : 5;
+      flags.push(`${incentivised.length} ${incentivised.length === 1 ? 'review discloses' : 'reviews disclose'} a free or discounted product`);
+    }
+
+    return {
+      trust: Math.max(0, 100 - penalty),
+      reviewCount: reviews.length,
+      ratedCount: rated.length,
+      datedCount: dated.length,
+      distribution,
+      shape,
+      burst: isBurst ? burst : undefined,
+      duplicateGroups,
+      incentivised,
+      flags
+    };
+  }
+
+  /**
+   * Plain-text summary for alerts
+   */
+  static describe(report: ReviewTrustReport): string {
+    const lines = [
+      `Review trust: ${report.trust}/100 (${report.reviewCount} reviews checked on this page)`,
+      `Ratings: ${this.formatDistribution(report)}`
+    ];
+    if (report.flags.length > 0) {
+      lines.push('', 'Red flags:', ...report.flags.map(flag => `• ${flag}`));
+    } else {
+      lines.push('', 'No red flags in the reviews visible on this page.');
+    }
+    return lines.join('\n');
+  }
+
+  static formatDistribution(report: ReviewTrustReport): string {
+    if (report.ratedCount === 0) return 'no star ratings found';
+    return report.distribution
+      .map((count, i) => `${i + 1}★ ${Math.round((count / report.ratedCount) * 100)}%`)
+      .reverse()
+      .join(' · ');
+  }
+
+  private static classifyShape(distribution: number[], total: number): DistributionShape {
+    const [p1, p2, p3, p4, p5] = distribution.map(count => count / total);
+
+    if (p5 >= 0.9 && p1 + p2 + p3 <= 0.03) return 'top_heavy';
+    if (p1 >= 0.2 && p5 >= 0.3 && p2 + p3 + p4 <= 0.25) return 'bimodal';
+    // Many 5s, a bump at 1 and few in between is how honest online reviews usually look
+    if (p5 >= Math.max(p1, p2, p3, p4) && p1 > p2 && p1 >= p3) return 'j_shaped';
+    return 'unimodal';
+  }
+
+  /**
+   * Busiest BURST_WINDOW_MS stretch, only meaningful when reviews span at least a month
+   */
+  private static findBurst(dates: number[]): ReviewBurst | undefined {
+    const sorted = [...dates].sort((a, b) => a - b);
+    if (sorted[sorted.length - 1] - sorted[0] < 30 * this.DAY_MS) return undefined;
+
+    let best = { count: 0, start: 0, end: 0 };
+    let left = 0;
+    for (let right = 0; right < sorted.length; right++) {
+      while (sorted[right] - sorted[left] > this.BURST_WINDOW_MS) left++;
+      if (right - left + 1 > best.count) {
+        best = { count: right - left + 1, start: sorted[left], end: sorted[right] };
+      }
+    }
+
+    const gaps = sorted.slice(1).map((date, i) => date - sorted[i]);
+    const mean = gaps.reduce((sum, gap) => sum + gap, 0) / gaps.length;
+    const deviation = Math.sqrt(gaps.reduce((sum, gap) => sum + (gap - mean) ** 2, 0) / gaps.length);
+
+    return {
+      ...best,
+      share: best.count / sorted.length,
+      burstiness: deviation + mean > 0 ? (deviation - mean) / (deviation + mean) : 0
+    };
+  }
+
+  /**
+   * Groups of reviews whose word 3-grams overlap by DUPLICATE_SIMILARITY or more
+   */
+  private static findNearDuplicates(reviews: ExtractedReview[]): ExtractedReview[][] {
+    const shingled = reviews
+      .map(review => ({ review, shingles: this.shingles(review.text) }))
+      .filter(entry => entry.shingles.size >= 4);
+
+    const parent = shingled.map((_, i) => i);
+    const find = (i: number): number => parent[i] === i ? i : (parent[i] = find(parent[i]));
+
+    for (let i = 0; i < shingled.length; i++) {
+      for (let j = i + 1; j < shingled.length; j++) {
+        if (this.jaccard(shingled[i].shingles, shingled[j].shingles) >= this.DUPLICATE_SIMILARITY) {
+          parent[find(j)] = find(i);
+        }
+      }
+    }
+
+    const groups = new Map<number, ExtractedReview[]>();
+    shingled.forEach((entry, i) => {
+      const root = find(i);
+      groups.set(root, [...(groups.get(root) || []), entry.review]);
+    });
+
+    return Array.from(groups.values()).filter(group => group.length > 1);
+  }
+
+  private static shingles(text: string): Set<string> {
+    const words = this.normalize(text).split(' ').filter(Boolean);
+    const shingles = new Set<string>();
+    for (let i = 0; i + 3 <= words.length; i++) {
+      shingles.add(words.slice(i, i + 3).join(' '));
+    }
+    return shingles;
+  }
+
+  private static jaccard(a: Set<string>, b: Set<string>): number {
+    let shared = 0;
+    a.forEach(shingle => { if (b.has(shingle)) shared++; });
+    return shared / (a.size + b.size - shared);
+  }
+
+  private static normalize(text: string): string {
+    return text.toLowerCase().replace(/[^\p{L}\p{N}\s]/gu, ' ').replace(/\s+/g, ' ').trim();
+  }
+
+  /**
+   * Drop reviews another source already supplied, by text or by element. Copy-pasted
+   * reviews within one source stay, since findNearDuplicates needs them.
+   */
+  private static deduplicate(reviews: ExtractedReview[]): ExtractedReview[] {
+    const bySource = new Map<ReviewSource, ExtractedReview[]>();
+    reviews.forEach(review => bySource.set(review.source, [...(bySource.get(review.source) || []), review]));
+
+    const texts = new Set<string>();
+    const elements = new Set<HTMLElement>();
+    const kept: ExtractedReview[] = [];
+
+    for (const group of bySource.values()) {
+      const fresh = group.filter(review => {
+        const key = this.normalize(review.text);
+        return key && !texts.has(key) && !(review.element && elements.has(review.element));
+      });
+
+      // The DOM pass can reach one review element through more than one route
+      const own = new Set<HTMLElement>();
+      fresh.forEach(review => {
+        if (review.element && own.has(review.element)) return;
+        if (review.element) own.add(review.element);
+        kept.push(review);
+      });
+
+      fresh.forEach(review => {
+        texts.add(this.normalize(review.text));
+        if (review.element) elements.add(review.element);
+      });
+    }
+
+    return kept;
+  }
+
+  private static visitJsonLd(node: any, corpus: ReviewCorpus): void {
+    if (!node || typeof node !== 'object') return;
+    if (Array.isArray(node)) {
+      node.forEach(child => this.visitJsonLd(child, corpus));
+      return;
+    }
+
+    const types = ([] as any[]).concat(node['@type'] || []).map(String);
+    if (types.includes('Review')) {
+      const text = [node.reviewBody, node.description, node.name].find(value => typeof value === 'string');
+      if (text) {
+        corpus.reviews.push({
+          rating: this.normalizeRating(node.reviewRating?.ratingValue, node.reviewRating?.bestRating),
+          text: text.trim(),
+          author: typeof node.author === 'string' ? node.author : node.author?.name,
+          date: this.parseDate(node.datePublished),
+          source: 'json-ld'
+        });
+      }
+    }
+
+    if (types.includes('AggregateRating') && !corpus.aggregate) {
+      corpus.aggregate = this.aggregateFrom(node);
+    }
+
+    ['@graph', 'review', 'reviews', 'aggregateRating', 'mainEntity', 'itemListElement', 'item', 'hasVariant']
+      .forEach(key => this.visitJsonLd(node[key], corpus));
+  }
+
+  private static aggregateFrom(node: any): AggregateRatingInfo | undefined {
+    const ratingValue = this.normalizeRating(node.ratingValue, node.bestRating);
+    if (ratingValue === undefined) return undefined;
+
+    const count = (value: any) => {
+      const parsed = parseInt(String(value ?? '').replace(/[^\d]/g, ''), 10);
+      return Number.isFinite(parsed) ? parsed : undefined;
+    };
+
+    return {
+      ratingValue,
+      reviewCount: count(node.reviewCount),
+      ratingCount: count(node.ratingCount),
+      source: 'json-ld'
+    };
+  }
+
+  private static extractMicrodata(corpus: ReviewCorpus): void {
+    const prop = (root: Element, name: string): string | undefined => {
+      const element = root.querySelector(`[itemprop="${name}"]`);
+      return element?.getAttribute('content') || element?.getAttribute('datetime') || element?.textContent?.trim() || undefined;
+    };
+
+    document.querySelectorAll<HTMLElement>('[itemtype*="schema.org/Review" i]').forEach(element => {
+      const text = prop(element, 'reviewBody') || prop(element, 'description');
+      if (!text) return;
+
+      corpus.reviews.push({
+        rating: this.normalizeRating(prop(element, 'ratingValue'), prop(element, 'bestRating')),
+        text,
+        author: prop(element, 'author')?.slice(0, 60),
+        date: this.parseDate(prop(element, 'datePublished')),
+        source: 'microdata',
+        element
+      });
+    });
+
+    if (!corpus.aggregate) {
+      const aggregate = document.querySelector('[itemtype*="schema.org/AggregateRating" i]');
+      if (aggregate) {
+        const info = this.aggregateFrom({
+          ratingValue: prop(aggregate, 'ratingValue'),
+          bestRating: prop(aggregate, 'bestRating'),
+          reviewCount: prop(aggregate, 'reviewCount'),
+          ratingCount: prop(aggregate, 'ratingCount')
+        });
+        if (info) corpus.aggregate = { ...info, source: 'microdata' };
+      }
+    }
+  }
+
+  /**
+   * Review cards: known review markup, or the largest set of sibling elements
+   * sharing a review-like class
+   */
+  private static extractFromDom(): { reviews: ExtractedReview[]; container?: HTMLElement } {
+    let items = Array.from(document.querySelectorAll<HTMLElement>(this.ITEM_SELECTOR))
+      .filter(element => !element.matches('[itemtype*="schema.org/Review" i]'));
+
+    if (items.length < 2) {
+      const groups = new Map<string, HTMLElement[]>();
+      const parentIds = new WeakMap<HTMLElement, number>();
+      let nextParentId = 0;
+
+      document.querySelectorAll<HTMLElement>(this.CANDIDATE_SELECTOR).forEach(element => {
+        const parent = element.parentElement;
+        const text = element.textContent || '';
+        const className = element.getAttribute('class') || '';
+        if (!parent || text.length < 30 || text.length > 4000) return;
+        if (this.PART_CLASS.test(className) || element.closest('[id^="cognitive-sense"]')) return;
+
+        if (!parentIds.has(parent)) parentIds.set(parent, nextParentId++);
+        const key = `${parentIds.get(parent)}|${element.tagName}|${className}`;
+        groups.set(key, [...(groups.get(key) || []), element]);
+      });
+
+      items = Array.from(groups.values())
+        .filter(group => group.length >= 2)
+        .sort((a, b) => b.length - a.length)[0] || [];
+    }
+
+    const reviews = items
+      .map(element => this.reviewFromElement(element))
+      .filter((review): review is ExtractedReview => review !== null);
+
+    return { reviews, container: items[0]?.parentElement || undefined };
+  }
+
+  /**
+   * First summary like "4.8 out of 5 - 12,000 ratings" outside the individual reviews
+   */
+  private static extractHeadline(): HeadlineRating | undefined {
+    const candidates = Array.from(document.querySelectorAll<HTMLElement>(this.HEADLINE_SELECTOR))
+      .filter(element => !element.closest(this.ITEM_SELECTOR) && !element.closest('[id^="cognitive-sense"]'));
+
+    for (const element of candidates) {
+      const text = (element.textContent || '').replace(/\s+/g, ' ').trim();
+      if (text.length === 0 || text.length > 150) continue;
+
+      const label = element.getAttribute('aria-label') || element.querySelector('[aria-label*="star" i], [title*="out of" i]')
+        ?.getAttribute('aria-label') || '';
+      const rating = text.match(this.HEADLINE_RATING) || label.match(this.HEADLINE_RATING);
+      const count = text.match(this.HEADLINE_COUNT);
+      if (!rating || !count) continue;
+
+      const approximate = /k$/i.test(count[1].trim());
+      const value = approximate
+        ? parseFloat(count[1].replace(',', '.')) * 1000
+        : parseInt(count[1].replace(/[,.\s]/g, ''), 10);
+
+      return {
+        ratingValue: this.normalizeRating(rating[1]),
+        count: Number.isFinite(value) ? value : undefined,
+        countKind: /rating/i.test(count[2]) ? 'ratings' : 'reviews',
+        approximate,
+        text,
+        element
+      };
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Star breakdown rows, as "5 star 78%" text (in one block or split across two)
+   * or as "78 percent of reviews have 5 stars" labels
+   */
+  private static extractHistogram(context: PageContext): RatingHistogram | undefined {
+    const values = [NaN, NaN, NaN, NaN, NaN];
+    let kind: RatingHistogram['kind'] | null = null;
+    let element: HTMLElement | undefined;
+
+    const record = (star: number, raw: string, percent: boolean, source: HTMLElement) => {
+      const rowKind = percent ? 'percent' : 'count';
+      if (kind && kind !== rowKind) return;
+      if (!Number.isNaN(values[star - 1])) return;
+
+      kind = rowKind;
+      values[star - 1] = parseInt(raw.replace(/[,.]/g, ''), 10);
+      element = element || source.parentElement || source;
+    };
+
+    document.querySelectorAll<HTMLElement>('[aria-label*="stars" i]').forEach(node => {
+      const match = (node.getAttribute('aria-label') || '').match(this.HISTOGRAM_ARIA);
+      if (match) record(parseInt(match[2], 10), match[1], true, node);
+    });
+
+    const blocks = context.content.blocks.filter(block => block.visible && block.text.length <= 40);
+    blocks.forEach((block, i) => {
+      const row = block.text.match(this.HISTOGRAM_ROW);
+      if (row) {
+        record(parseInt(row[1], 10), row[2], !!row[3], block.element);
+        return;
+      }
+
+      const label = block.text.match(this.HISTOGRAM_LABEL);
+      const value = label && blocks.slice(i + 1, i + 3).map(next => next.text.match(this.HISTOGRAM_VALUE)).find(Boolean);
+      if (label && value) record(parseInt(label[1], 10), value[1], !!value[2], block.element);
+    });
+
+    const present = values.filter(value => !Number.isNaN(value));
+    if (!kind || present.length < 3) return undefined;
+
+    if (kind === 'percent') {
+      const total = present.reduce((sum, value) => sum + value, 0);
+      if (present.length === 5 && (total < 97 || total > 103)) return undefined;
+    }
+
+    return { values, kind, element };
+  }
+
+  private static reviewFromElement(element: HTMLElement): ExtractedReview | null {
+    const body = element.querySelector<HTMLElement>(this.BODY_SELECTOR);
+    const text = (body?.textContent || element.textContent || '').replace(/\s+/g, ' ').trim();
+    if (text.length < 10) return null;
+
+    const author = element.querySelector(this.AUTHOR_SELECTOR)?.textContent?.replace(/\s+/g, ' ').trim();
+
+    return {
+      rating: this.ratingFromElement(element),
+      text: text.slice(0, 2000),
+      author: author && author.length <= 60 ? author : undefined,
+      ...this.dateFromElement(element),
+      source: 'dom',
+      element
+    };
+  }
+
+  private static ratingFromElement(element: HTMLElement): number | undefined {
+    const attributed = element.querySelector('[data-rating], [data-score], [itemprop="ratingValue"]');
+    if (attributed) {
+      const value = attributed.getAttribute('data-rating') || attributed.getAttribute('data-score') ||
+        attributed.getAttribute('content') || attributed.textContent;
+      const rating = this.normalizeRating(value);
+      if (rating !== undefined) return rating;
+    }
+
+    const labelled = Array.from(element.querySelectorAll('[aria-label], [title], img[alt]'))
+      .map(node => node.getAttribute('aria-label') || node.getAttribute('title') || node.getAttribute('alt') || '');
+    for (const text of [...labelled, element.textContent || '']) {
+      const match = text.match(this.RATING_TEXT);
+      if (match) {
+        return match[1]
+          ? this.normalizeRating(match[1], match[2])
+          : this.normalizeRating(match[3]);
+      }
+    }
+
+    return undefined;
+  }
+
+  private static dateFromElement(element: HTMLElement): Pick<ExtractedReview, 'date' | 'age'> {
+    const time = element.querySelector('time[datetime], [itemprop="datePublished"]');
+    const attributed = this.parseDate(time?.getAttribute('datetime') || time?.getAttribute('content'));
+    if (attributed !== undefined) return { date: attributed };
+
+    const text = element.textContent || '';
+    const absolute = text.match(this.DATE_TEXT);
+    if (absolute) return { date: this.parseDate(absolute[0]) };
+
+    // "2 months ago" covers a whole month of reviews with one timestamp, which would
+    // read as a burst. Only day-relative dates are precise enough to time
+    const relative = text.match(this.RELATIVE_DATE);
+    if (relative && relative[2].toLowerCase() === 'day') {
+      const amount = /^\d+$/.test(relative[1]) ? parseInt(relative[1], 10) : 1;
+      return { age: amount * this.DAY_MS };
+    }
+
+    return {};
+  }
+
+  private static normalizeRating(value: unknown, best?: unknown): number | undefined {
+    const rating = parseFloat(String(value ?? '').replace(',', '.'));
+    if (!Number.isFinite(rating) || rating <= 0) return undefined;
+
+    const scale = parseFloat(String(best ?? '5')) || 5;
+    const normalised = scale === 5 ? rating : (rating / scale) * 5;
+    return normalised <= 5 ? normalised : undefined;
+  }
+
+  private static parseDate(value: unknown): number | undefined {
+    if (typeof value !== 'string' || !value.trim()) return undefined;
+    const parsed = Date.parse(value.trim());
+    return Number.isFinite(parsed) ? parsed : undefined;
+  }
+}
@@ -0,0 +1,189 @@
+import { AgentKey, AnalysisResult, Detection } from '@/agents/base/types';
+
+export interface AggregationWeights {
+  agents: Partial<Record<AgentKey, number>>;    // Multiplier per agent (default 1)
+  categories: Record<string, number>;           // Multiplier per detection type (default 1)
+  severity: Record<Detection['severity'], number>;
+}
+
+export interface AgentAnalysis {
+  agentKey: AgentKey;
+  result: AnalysisResult;
+}
+
+export interface AggregatedResult extends AnalysisResult {
+  agentBreakdown: Partial<Record<AgentKey, number>>;  // Each agent's own 0-100 score
+  categoryCounts: Record<string, number>;              // Detections per type
+}
+
+export const DEFAULT_AGGREGATION_WEIGHTS: AggregationWeights = {
+  agents: {
+    shopping_persuasion: 1,
+    social_media: 1,
+    news_bias: 1,
+    social_pulse: 0.5
+  },
+  categories: {},
+  severity: { low: 1, medium: 2, high: 3 }
+};
+
+/**
+ * Combines the AnalysisResults of every active agent into one page-level
+ * result, so the score no longer depends on which agent was registered first
+ */
+export class ScoreAggregator {
+  private weights: AggregationWeights;
+
+  constructor(weights: Partial<AggregationWeights> = {}) {
+    this.weights = this.mergeWeights(weights);
+  }
+
+  /**
+   * Replace some or all of the configured weights
+   */
+  setWeights(weights: Partial<AggregationWeights>): void {
+    this.weights = this.mergeWeights(weights);
+  }
+
+  getWeights(): AggregationWeights {
+    return this.weights;
+  }
+
+  aggregate(analyses: AgentAnalysis[]): AggregatedResult {
+    const detections = analyses.flatMap(a => a.result.detections);
+
+    const agentBreakdown: Partial<Record<AgentKey, number>> = {};
+    analyses.forEach(({ agentKey, result }) => {
+      agentBreakdown[agentKey] = result.overallScore;
+    });
+
+    if (detections.length === 0) {
+      return {
+        detections,
+        overallScore: 0,
+        riskLevel: 'safe',
+        breakdown: {},
+        agentBreakdown,
+        categoryCounts: {},
+        recommendations: {
+          primary: 'No manipulation tactics detected. This appears to be a trustworthy page.',
+          actions: []
+        }
+      };
+    }
+
+    const overallScore = this.calculateOverallScore(detections);
+
+    return {
+      detections,
+      overallScore,
+      riskLevel: this.getRiskLevel(overallScore),
+      breakdown: this.calculateCategoryBreakdown(detections),
+      agentBreakdown,
+      categoryCounts: this.countCategories(detections),
+      recommendations: this.mergeRecommendations(analyses)
+    };
+  }
+
+  /**
+   * Weighted average of detection scores, scaled to 0-100. Each detection is
+   * weighted by its severity, the agent that produced it and its category.
+   */
+  private calculateOverallScore(detections: Detection[]): number {
+    let weightedSum = 0;
+    let totalWeight = 0;
+
+    detections.forEach(detection => {
+      const weight = this.getDetectionWeight(detection);
+      weightedSum += detection.score * weight;
+      totalWeight += weight;
+    });
+
+    if (totalWeight === 0) return 0;
+
+    return Math.min(100, Math.round((weightedSum / totalWeight) * 10));
+  }
+
+  /**
+   * Average score (0-10) per detection type, scaled by category weight
+   */
+  private calculateCategoryBreakdown(detections: Detection[]): Record<string, number> {
+    const categoryScores: Record<string, number[]> = {};
+
+    detections.forEach(detection => {
+      if (!categoryScores[detection.type]) {
+        categoryScores[detection.type] = [];
+      }
+      categoryScores[detection.type].push(detection.score);
+    });
+
+    const breakdown: Record<string, number> = {};
+    Object.entries(categoryScores).forEach(([category, scores]) => {
+      const average = scores.reduce((sum, score) => sum + score, 0) / scores.length;
+      const weight = this.weights.categories[category] ?? 1;
+      breakdown[category] = Math.min(10, Math.round(average * weight));
+    });
+
+    return breakdown;
+  }
+
+  private countCategories(detections: Detection[]): Record<string, number> {
+    const counts: Record<string, number> = {};
+    detections.forEach(detection => {
+      counts[detection.type] = (counts[detection.type] || 0) + 1;
+    });
+    return counts;
+  }
+
+  /**
+   * Lead with the recommendation of the highest-scoring agent and keep
+   * every agent's actions, dropping duplicates by label
+   */
+  private mergeRecommendations(analyses: AgentAnalysis[]): AnalysisResult['recommendations'] {
+    const ranked = analyses
+      .filter(a => a.result.detections.length > 0)
+      .sort((a, b) => this.getAgentWeight(b.agentKey) * b.result.overallScore -
+                      this.getAgentWeight(a.agentKey) * a.result.overallScore);
+
+    const actions: AnalysisResult['recommendations']['actions'] = [];
+    const seenLabels = new Set<string>();
+
+    ranked.forEach(({ result }) => {
+      result.recommendations.actions.forEach(action => {
+        if (seenLabels.has(action.label)) return;
+        seenLabels.add(action.label);
+        actions.push(action);
+      });
+    });
+
+    return {
+      primary: ranked[0]?.result.recommendations.primary || '',
+      actions
+    };
+  }
+
+  private getDetectionWeight(detection: Detection): number {
+    return (this.weights.severity[detection.severity] ?? 1) *
+           this.getAgentWeight(detection.agentKey) *
+           (this.weights.categories[detection.type] ?? 1);
+  }
+
+  private getAgentWeight(agentKey: AgentKey): number {
+    return this.weights.agents[agentKey] ?? 1;
+  }
+
+  private getRiskLevel(score: number): AnalysisResult['riskLevel'] {
+    if (score >= 70) return 'danger';
+    if (score >= 50) return 'warning';
+    if (score >= 30) return 'caution';
+    return 'safe';
+  }
+
+  private mergeWeights(weights: Partial<AggregationWeights>): AggregationWeights {
+    return {
+      agents: { ...DEFAULT_AGGREGATION_WEIGHTS.agents, ...weights.agents },
+      categories: { ...DEFAULT_AGGREGATION_WEIGHTS.categories, ...weights.categories },
+      severity: { ...DEFAULT_AGGREGATION_WEIGHTS.severity, ...weights.severity }
+    };
+  }
+}
@@ -0,0 +1,227 @@
+/**
+ * SubscriptionTerms - Deterministic parsing of trial and recurring-billing terms
+ *
+ * Reads trial length, introductory pricing, the price charged afterwards and its
+ * billing cadence, auto-renew wording and cancellation deadlines from plain text,
+ * and projects what the subscription costs over the first months.
+ */
+
+import { PageContext } from '../agents/base/types';
+import { PriceExtractor } from './PriceExtractor';
+
+export type BillingCadence = 'week' | 'month' | 'quarter' | 'year';
+
+export interface RecurringPrice {
+  amount: number;
+  currency: string;
+  cadence?: BillingCadence;             // Missing for one-off introductory prices
+  text: string;                         // Sentence the price was read from
+}
+
+export interface IntroOffer extends RecurringPrice {
+  months: number;                       // How long the introductory price lasts
+}
+
+export interface SubscriptionTerms {
+  trialDays?: number;
+  intro?: IntroOffer;
+  price?: RecurringPrice;               // Charged once any trial or intro period ends
+  autoRenew?: string;
+  cancellation?: string;                // Deadline for cancelling without being charged
+  noRefunds?: string;
+}
+
+export interface CostProjection {
+  months: number;
+  total: number;
+  currency: string;
+  charges: number;
+  firstChargeMonth: number;             // Months from today until the first payment
+  breakdown: Array<{ label: string; count: number; amount: number }>;
+}
+
+export class SubscriptionTermsExtractor {
+  private static readonly DAYS_PER_MONTH = 30;
+  private static readonly CADENCE_MONTHS: Record<BillingCadence, number> = { week: 12 / 52, month: 1, quarter: 3, year: 12 };
+  private static readonly NUMBER_WORDS: Record<string, number> = {
+    a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7,
+    ten: 10, twelve: 12, fourteen: 14, thirty: 30
+  };
+
+  private static readonly COUNT = '(\\d{1,3}|a|an|one|two|three|four|five|six|seven|ten|twelve|fourteen|thirty)';
+  private static readonly TRIAL = new RegExp(
+    `\\b${SubscriptionTermsExtractor.COUNT}[\\s-]*(day|week|month)s?[\\s-]+(?:free[\\s-]+)?trial\\b` +
+    `|\\bfree (?:for )?(?:the first )?${SubscriptionTermsExtractor.COUNT} (day|week|month)s?\\b` +
+    `|\\b${SubscriptionTermsExtractor.COUNT} (day|week|month)s? (?:for )?free\\b` +
+    `|\\b(?:first|1st) (month|week) (?:is )?free\\b`,
+    'i'
+  );
+  private static readonly CADENCE_AFTER =
+    /^\s*(?:(?:\/|per|a|an|each|every)\s*(week|wk|month|mo|year|yr|quarter)\b|(weekly|monthly|yearly|annually|quarterly)\b|(?:billed|charged|paid)\s+(weekly|monthly|yearly|annually|quarterly))/i;
+  private static readonly INTRO_AFTER = new RegExp(
+    `^\\s*(?:(?:\\/|per|a)\\s*(?:week|wk|month|mo|year|yr)\\s*)?for (?:the |your )?(?:first |1st )?${SubscriptionTermsExtractor.COUNT}? ?(week|month|year)s?\\b`,
+    'i'
+  );
+  private static readonly INTRO_BEFORE = new RegExp(
+    `\\b(?:first |1st )?${SubscriptionTermsExtractor.COUNT}? ?(week|month|year)s? (?:for|at)(?: just| only)?\\s*$`,
+    'i'
+  );
+  private static readonly AFTER_TRIAL_BEFORE =
+    /\b(then|after(?:wards)?|thereafter|renews? (?:at|for)|auto-?renews? at|regular(?:ly)?(?: price| rate)?|(?:will|you'?ll) be (?:charged|billed)|billed at|standard (?:price|rate))\b[^.]{0,40}$/i;
+  private static readonly AUTO_RENEW =
+    /\bauto(?:matically)?[\s-]*renew|\brenews? automatically\b|\bwill (?:automatically )?(?:be (?:charged|billed)|continue)\b|\bcontinuous(?:ly)? (?:billed|charged)\b|\buntil (?:you )?cancel/i;
+  private static readonly CANCELLATION =
+    /\bcancel\w*\b[^.]{0,40}\b(?:at least \d+ (?:hours?|days?) before|before (?:the |your )?(?:trial|free period|renewal|billing date|next (?:billing|payment))[^.]{0,20}|(?:within|during) (?:the )?(?:first )?\d+ (?:hours?|days?))/i;
+  private static readonly NO_REFUNDS = /\bnon[-\s]?refundable\b|\bno (?:partial )?refunds?\b|\brefunds? (?:are|will) not\b/i;
+
+  /**
+   * Terms found in the text, or null when it mentions no trial, intro price or recurring price
+   */
+  static parse(text: string, context?: PageContext): SubscriptionTerms | null {
+    const sentences = text.split(/(?<=[.!?])\s+|\n+/).map(sentence => sentence.trim()).filter(Boolean);
+    const terms: SubscriptionTerms = {};
+
+    for (const sentence of sentences) {
+      if (terms.trialDays === undefined) {
+        const trial = sentence.match(this.TRIAL);
+        if (trial) terms.trialDays = this.trialDays(trial);
+      }
+
+      for (const price of PriceExtractor.findPrices(sentence, context)) {
+        const after = sentence.slice(price.index + price.raw.length);
+        const before = sentence.slice(0, price.index);
+        const cadence = this.cadence(after);
+
+        const intro = after.match(this.INTRO_AFTER) || before.match(this.INTRO_BEFORE);
+        if (intro && !terms.intro && !this.AFTER_TRIAL_BEFORE.test(before)) {
+          const count = intro[1] ? this.count(intro[1]) : 1;
+          const unitMonths = intro[2].toLowerCase() === 'week' ? 12 / 52 : intro[2].toLowerCase() === 'year' ? 12 : 1;
+          terms.intro = { amount: price.amount, currency: price.currency, cadence, months: count * unitMonths, text: sentence };
+          continue;
+        }
+
+        if (!cadence) continue;
+        const recurring = { amount: price.amount, currency: price.currency, cadence, text: sentence };
+
+        // A "then ..." price beats an earlier plain recurring price, e.g. a plan list
+        if (!terms.price || (this.AFTER_TRIAL_BEFORE.test(before) && !this.AFTER_TRIAL_BEFORE.test(this.beforePrice(terms.price)))) {
+          terms.price = recurring;
+        }
+      }
+
+      if (!terms.autoRenew && this.AUTO_RENEW.test(sentence)) terms.autoRenew = sentence;
+      if (!terms.cancellation && this.CANCELLATION.test(sentence)) terms.cancellation = sentence;
+      if (!terms.noRefunds && this.NO_REFUNDS.test(sentence)) terms.noRefunds = sentence;
+    }
+
+    if (terms.trialDays === undefined && !terms.intro && !terms.price) return null;
+    return terms;
+  }
+
+  /**
+   * What the subscription costs over the next `months` if it's never cancelled
+   */
+  static project(terms: SubscriptionTerms, months = 12): CostProjection | null {
+    if (!terms.price?.cadence) return null;
+
+    const end = months - 1e-6;
+    const trialEnd = (terms.trialDays || 0) / this.DAYS_PER_MONTH;
+    const breakdown: CostProjection['breakdown'] = [];
+    let regularStart = trialEnd;
+
+    if (terms.intro && terms.intro.currency === terms.price.currency) {
+      const introEnd = trialEnd + terms.intro.months;
+      const step = terms.intro.cadence ? this.CADENCE_MONTHS[terms.intro.cadence] : terms.intro.months;
+      let count = 0;
+      for (let t = trialEnd; t < Math.min(introEnd, end) - 1e-6; t += step) count++;
+      if (count > 0) breakdown.push({ label: 'intro', count, amount: terms.intro.amount });
+      regularStart = introEnd;
+    }
+
+    let count = 0;
+    for (let t = regularStart; t < end; t += this.CADENCE_MONTHS[terms.price.cadence]) count++;
+    if (count > 0) breakdown.push({ label: 'regular', count, amount: terms.price.amount });
+
+    return {
+      months,
+      total: Math.round(breakdown.reduce((sum, line) => sum + line.count * line.amount, 0) * 100) / 100,
+      currency: terms.price.currency,
+      charges: breakdown.reduce((sum, line) => sum + line.count, 0),
+      firstChargeMonth: trialEnd,
+      breakdown
+    };
+  }
+
+  /**
+   * Plain-language "what you'll actually pay" summary
+   */
+  static describe(terms: SubscriptionTerms, projection: CostProjection | null): string {
+    const parts: string[] = [];
+    const format = (price: RecurringPrice) => PriceExtractor.format(price.amount, price.currency);
+
+    if (terms.trialDays) parts.push(`Free for ${this.formatDays(terms.trialDays)}`);
+    if (terms.intro) {
+      parts.push(`${parts.length > 0 ? 'then ' : ''}${format(terms.intro)}${terms.intro.cadence ? ` a ${terms.intro.cadence}` : ''} for ${this.formatMonths(terms.intro.months)}`);
+    }
+    if (terms.price?.cadence) {
+      parts.push(`${parts.length > 0 ? 'then ' : ''}${format(terms.price)} every ${terms.price.cadence}`);
+    }
+
+    let summary = parts.length > 0 ? `${parts.join(', ')}.` : '';
+    summary = summary.charAt(0).toUpperCase() + summary.slice(1);
+
+    if (projection) {
+      summary += ` Over ${projection.months} months you'd pay ${PriceExtractor.format(projection.total, projection.currency)}` +
+        ` in ${projection.charges} payment${projection.charges === 1 ? '' : 's'}` +
+        (terms.trialDays ? `, starting in ${this.formatDays(terms.trialDays)}` : '') + '.';
+    }
+    if (terms.autoRenew) summary += ' It renews automatically until you cancel.';
+    if (terms.noRefunds) summary += ' Payments are not refunded.';
+
+    return summary.trim();
+  }
+
+  static formatDays(days: number): string {
+    if (days % 7 === 0 && days < 28) return `${days / 7} week${days === 7 ? '' : 's'}`;
+    if (days >= 28 && Math.abs(days / this.DAYS_PER_MONTH - Math.round(days / this.DAYS_PER_MONTH)) < 0.1) {
+      const months = Math.round(days / this.DAYS_PER_MONTH);
+      return `${months} month${months === 1 ? '' : 's'}`;
+    }
+    return `${days} day${days === 1 ? '' : 's'}`;
+  }
+
+  private static formatMonths(months: number): string {
+    if (months < 1) return this.formatDays(Math.round(months * this.DAYS_PER_MONTH));
+    const rounded = Math.round(months);
+    return `${rounded} month${rounded === 1 ? '' : 's'}`;
+  }
+
+  private static trialDays(match: RegExpMatchArray): number {
+    const [count, unit] = match[1] ? [match[1], match[2]]
+      : match[3] ? [match[3], match[4]]
+      : match[5] ? [match[5], match[6]]
+      : ['1', match[7]];
+    const days = { day: 1, week: 7, month: 30 }[unit.toLowerCase() as 'day' | 'week' | 'month'];
+    return this.count(count) * days;
+  }
+
+  private static cadence(after: string): BillingCadence | undefined {
+    const match = after.match(this.CADENCE_AFTER);
+    if (!match) return undefined;
+
+    const word = (match[1] || match[2] || match[3]).toLowerCase();
+    if (/^(week|wk|weekly)$/.test(word)) return 'week';
+    if (/^(month|mo|monthly)$/.test(word)) return 'month';
+    if (/^(quarter|quarterly)$/.test(word)) return 'quarter';
+    return 'year';
+  }
+
+  private static count(word: string): number {
+    return /^\d+$/.test(word) ? parseInt(word, 10) : this.NUMBER_WORDS[word.toLowerCase()] ?? 1;
+  }
+
+  private static beforePrice(price: RecurringPrice): string {
+    const match = PriceExtractor.findPrices(price.text).find(found => found.amount === price.amount);
+    return match ? price.text.slice(0, match.index) : price.text;
+  }
+}
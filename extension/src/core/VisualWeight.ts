@@ -0,0 +1,78 @@
+/**
+ * VisualWeight - How prominent a clickable element looks, from its computed style
+ */
+
+export interface VisualWeightInfo {
+  element: HTMLElement;
+  text: string;
+  area: number;                         // px², from the bounding box
+  fontSize: number;                     // px
+  fontWeight: number;
+  contrast: number;                     // WCAG ratio of text against its effective background
+  filled: boolean;                      // Has its own background or border, i.e. looks like a button
+}
+
+export class VisualWeight {
+  /**
+   * Measure a visible element, or null if it is hidden or has no usable text
+   */
+  static measure(element: HTMLElement): VisualWeightInfo | null {
+    const text = (element.textContent || (element as HTMLInputElement).value || element.getAttribute('aria-label') || '')
+      .replace(/\s+/g, ' ')
+      .trim();
+    const rect = element.getBoundingClientRect();
+    if (!text || text.length > 80 || rect.width === 0 || rect.height === 0) return null;
+
+    const style = getComputedStyle(element);
+    if (style.visibility === 'hidden' || style.display === 'none') return null;
+
+    const background = this.parseColor(style.backgroundColor);
+    const hasBorder = parseFloat(style.borderTopWidth) > 0 && style.borderTopStyle !== 'none' &&
+      this.parseColor(style.borderTopColor)[3] > 0;
+
+    return {
+      element,
+      text,
+      area: rect.width * rect.height,
+      fontSize: parseFloat(style.fontSize) || 0,
+      fontWeight: parseInt(style.fontWeight, 10) || 400,
+      contrast: this.contrastRatio(this.parseColor(style.color), this.effectiveBackground(element)),
+      filled: background[3] > 0.1 || hasBorder
+    };
+  }
+
+  /**
+   * Background actually painted behind an element - the first mostly opaque ancestor
+   */
+  static effectiveBackground(element: HTMLElement): number[] {
+    let node: HTMLElement | null = element;
+    while (node) {
+      const color = this.parseColor(getComputedStyle(node).backgroundColor);
+      if (color[3] > 0.5) return color;
+      node = node.parentElement;
+    }
+    return [255, 255, 255, 1];
+  }
+
+  /**
+   * [r, g, b, alpha] from an rgb()/rgba() string
+   */
+  static parseColor(value: string): number[] {
+    const parts = value.match(/[\d.]+/g)?.map(Number) || [];
+    if (parts.length < 3) return [0, 0, 0, 0];
+    return [parts[0], parts[1], parts[2], parts[3] ?? 1];
+  }
+
+  static contrastRatio(foreground: number[], background: number[]): number {
+    const luminance = ([r, g, b]: number[]) => {
+      const [lr, lg, lb] = [r, g, b].map(channel => {
+        const c = channel / 255;
+        return c <= 0.03928 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+      });
+      return 0.2126 * lr + 0.7152 * lg + 0.0722 * lb;
+    };
+
+    const [lighter, darker] = [luminance(foreground), luminance(background)].sort((a, b) => b - a);
+    return (lighter + 0.05) / (darker + 0.05);
+  }
+}
@@ -0,0 +1,21 @@
+// Runs in the page's main world so SPA route changes made through the history API
+// reach the isolated content script as a window event
+(function() {
+  if (window.__cognitiveSenseHistoryHooked) {
+    return;
+  }
+  window.__cognitiveSenseHistoryHooked = true;
+
+  const notify = function() {
+    window.dispatchEvent(new Event('cognitive-sense:locationchange'));
+  };
+
+  ['pushState', 'replaceState'].forEach(function(method) {
+    const original = history[method];
+    history[method] = function() {
+      const result = original.apply(this, arguments);
+      notify();
+      return result;
+    };
+  });
+})();
@@ -0,0 +1,38 @@
+interface CancellationFrictionMeterProps {
+  detection: {
+    metrics?: Record<string, number>;
+    details?: Array<{ label: string; value: string }>;
+  };
+}
+
+/**
+ * 0-100 bar for how hard the page makes cancelling, with the factors behind it
+ */
+export function CancellationFrictionMeter({ detection }: CancellationFrictionMeterProps) {
+  const friction = Math.max(0, Math.min(100, detection.metrics?.friction ?? 0));
+  const factors = (detection.details || []).filter(detail => detail.label !== 'Friction Score');
+
+  const color = friction >= 70 ? 'cs-bg-red-500' : friction >= 50 ? 'cs-bg-orange-500' : 'cs-bg-yellow-400';
+  const label = friction >= 70 ? 'Hard to cancel' : friction >= 50 ? 'Awkward to cancel' : 'Some friction';
+
+  return (
+    <div className="cs-bg-gray-50 cs-rounded-lg cs-p-3">
+      <div className="cs-flex cs-items-center cs-justify-between cs-mb-1">
+        <span className="cs-text-xs cs-font-medium cs-text-gray-700">{label}</span>
+        <span className="cs-text-xs cs-font-bold cs-text-gray-900">{friction}/100</span>
+      </div>
+      <div className="cs-w-full cs-h-2 cs-bg-gray-200 cs-rounded-full cs-overflow-hidden cs-mb-2">
+        <div className={`cs-h-2 ${color}`} style={{ width: `${friction}%` }} />
+      </div>
+      {factors.length > 0 && (
+        <ul className="cs-space-y-1">
+          {factors.map((factor, i) => (
+            <li key={i} className="cs-text-xs cs-text-gray-600">
+              <span className="cs-font-medium cs-text-gray-700">{factor.label}:</span> {factor.value}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -1,5 +1,11 @@
 import React, { useState, useEffect } from 'react';
 import { multiLanguageManager, SUPPORTED_LANGUAGES } from '../utils/MultiLanguageManager';
+import { PriceHistory, PriceHistoryStore } from '../storage/PriceHistoryStore';
+import { PriceHistoryChart } from './PriceHistoryChart';
+import { CancellationFrictionMeter } from './CancellationFrictionMeter';
+import { SubscriptionCostSummary } from './SubscriptionCostSummary';
+
+const priceHistoryStore = new PriceHistoryStore();
 
 interface PanelState {
   loading: boolean;
@@ -10,6 +16,7 @@ interface PanelState {
   detectedLanguage: string;
   preferredLanguage: string;
   isTranslating?: boolean;
+  priceHistory: PriceHistory | null;
 }
 
 export function Panel() {
@@ -19,7 +26,8 @@ export function Panel() {
     detections: [],
     overallScore: 0,
     detectedLanguage: 'en',
-    preferredLanguage: multiLanguageManager.getPreferredLanguage()
+    preferredLanguage: multiLanguageManager.getPreferredLanguage(),
+    priceHistory: null
   });
   
   const prevUrlRef = React.useRef<string>('');
@@ -71,6 +79,9 @@ export function Panel() {
       console.log(`📊 Panel loaded: ${detections.length} detections, score: ${overallScore}`);
       console.log(`✅ Using URL-specific data for: ${currentUrl}`);
 
+      // Price history is read straight from IndexedDB - the panel shares the extension origin
+      const priceHistory = await loadPriceHistory(currentUrl);
+
       // Detect page language
       const pageText = detections.map((d: any) => d.description).join(' ');
       const detectedLang = multiLanguageManager.detectPageLanguage(pageText);
@@ -83,7 +94,8 @@ export function Panel() {
         overallScore,
         detectedLanguage: detectedLang,
         preferredLanguage: 'en', // Always start with English for new page
-        isTranslating: false
+        isTranslating: false,
+        priceHistory
       });
     } catch (error) {
       console.error('Failed to initialize panel:', error);
@@ -95,6 +107,11 @@ export function Panel() {
     }
   };
 
+  const loadPriceHistory = async (url: string): Promise<PriceHistory | null> => {
+    if (!/^https?:/.test(url)) return null;
+    return priceHistoryStore.getHistoryForUrl(url);
+  };
+
   /**
    * Simple hash function for URL (same as content script)
    */
@@ -125,6 +142,10 @@ export function Panel() {
           detections: message.data.detections || [],
           overallScore: message.data.overallScore || 0
         }));
+        
+        // The shopping agent records the page's price before detecting
+        loadPriceHistory(message.data.url || '')
+          .then(priceHistory => setState(prev => ({ ...prev, priceHistory })));
       }
     };
 
@@ -288,6 +309,30 @@ export function Panel() {
           </div>
         </section>
 
+        {/* Price History */}
+        {state.priceHistory && (
+          <section className="cs-mb-6">
+            <h2 className="cs-text-sm cs-font-medium cs-text-gray-700 cs-mb-2">📊 Price History</h2>
+            <PriceHistoryChart history={state.priceHistory} />
+          </section>
+        )}
+
+        {/* Cancellation Friction */}
+        {state.detections.some((d: any) => d.type === 'cancellation_friction') && (
+          <section className="cs-mb-6">
+            <h2 className="cs-text-sm cs-font-medium cs-text-gray-700 cs-mb-2">🚪 Cancellation Friction</h2>
+            <CancellationFrictionMeter detection={state.detections.find((d: any) => d.type === 'cancellation_friction')} />
+          </section>
+        )}
+
+        {/* Subscription Cost */}
+        {state.detections.some((d: any) => d.type === 'subscription_terms') && (
+          <section className="cs-mb-6">
+            <h2 className="cs-text-sm cs-font-medium cs-text-gray-700 cs-mb-2">🔁 Subscription Cost</h2>
+            <SubscriptionCostSummary detection={state.detections.find((d: any) => d.type === 'subscription_terms')} />
+          </section>
+        )}
+
         {/* Status */}
         <section className="cs-mb-6">
           {state.detections.length === 0 ? (
@@ -321,7 +366,7 @@ export function Panel() {
           <section className="cs-mb-6">
             <h2 className="cs-text-sm cs-font-medium cs-text-gray-700 cs-mb-3">Detector Breakdown</h2>
             <div className="cs-grid cs-grid-cols-2 cs-gap-2">
-              {['urgency', 'anchoring', 'social_proof', 'fomo', 'bundling', 'dark_pattern'].map(type => {
+              {['urgency', 'anchoring', 'social_proof', 'fomo', 'bundling', 'dark_pattern', 'scarcity_claim', 'drip_pricing', 'cancellation_friction', 'consent_audit', 'review_trust', 'subscription_terms', 'fine_print', 'unit_price'].map(type => {
                 const count = state.detections.filter((d: any) => d.type === type).length;
                 const labels: Record<string, string> = {
                   urgency: '⏰ Urgency',
@@ -329,7 +374,15 @@ export function Panel() {
                   social_proof: '⭐ Social Proof',
                   fomo: '🎁 FOMO',
                   bundling: '📦 Bundling',
-                  dark_pattern: '🎮 Dark Pattern'
+                  dark_pattern: '🎮 Dark Pattern',
+                  scarcity_claim: '📉 Scarcity Claims',
+                  drip_pricing: '🧾 Drip Pricing',
+                  cancellation_friction: '🚪 Cancellation',
+                  consent_audit: '🍪 Cookie Consent',
+                  review_trust: '⭐ Review Trust',
+                  subscription_terms: '🔁 Subscription',
+                  fine_print: '📄 Fine Print',
+                  unit_price: '⚖️ Unit Price'
                 };
                 return (
                   <div key={type} className="cs-bg-gray-50 cs-rounded-lg cs-p-3 cs-text-center">
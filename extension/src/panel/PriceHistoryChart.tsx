@@ -0,0 +1,82 @@
+import { PriceHistory, PriceHistoryStore } from '../storage/PriceHistoryStore';
+
+interface PriceHistoryChartProps {
+  history: PriceHistory;
+}
+
+const WIDTH = 280;
+const HEIGHT = 90;
+const PADDING = 6;
+
+/**
+ * Line chart of the prices this device has seen for one product
+ */
+export function PriceHistoryChart({ history }: PriceHistoryChartProps) {
+  const observations = history.observations.filter(observation => observation.currency === history.currency);
+  const latest = observations[observations.length - 1];
+  const assessment = PriceHistoryStore.assess(latest, history);
+
+  const format = (amount: number) => {
+    try {
+      return new Intl.NumberFormat(undefined, { style: 'currency', currency: history.currency }).format(amount);
+    } catch {
+      return `${history.currency} ${amount.toFixed(2)}`;
+    }
+  };
+
+  const start = observations[0].observedAt;
+  const span = Math.max(1, latest.observedAt - start);
+  const range = Math.max(0.01, history.highest - history.lowest);
+  const x = (time: number) => PADDING + ((time - start) / span) * (WIDTH - PADDING * 2);
+  const y = (amount: number) => HEIGHT - PADDING - ((amount - history.lowest) / range) * (HEIGHT - PADDING * 2);
+
+  const points = observations.map(observation => `${x(observation.observedAt)},${y(observation.amount)}`).join(' ');
+  const claimedDiscount = latest.wasAmount !== undefined && latest.wasAmount > latest.amount;
+
+  return (
+    <div className="cs-bg-gray-50 cs-rounded-lg cs-p-3">
+      {history.name && (
+        <div className="cs-text-xs cs-font-medium cs-text-gray-700 cs-truncate cs-mb-2">{history.name}</div>
+      )}
+
+      {observations.length > 1 ? (
+        <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="cs-w-full" role="img" aria-label="Price history chart">
+          <line
+            x1={PADDING} x2={WIDTH - PADDING}
+            y1={y(history.lowest)} y2={y(history.lowest)}
+            stroke="#d1d5db" strokeDasharray="3 3"
+          />
+          <polyline points={points} fill="none" stroke="#2563eb" strokeWidth={2} />
+          {observations.map(observation => (
+            <circle
+              key={observation.id ?? observation.observedAt}
+              cx={x(observation.observedAt)}
+              cy={y(observation.amount)}
+              r={2.5}
+              fill="#2563eb"
+            >
+              <title>{`${new Date(observation.observedAt).toLocaleString()}: ${format(observation.amount)}`}</title>
+            </circle>
+          ))}
+        </svg>
+      ) : (
+        <div className="cs-text-xs cs-text-gray-500">
+          First visit recorded - revisit this product to build its price history.
+        </div>
+      )}
+
+      <div className="cs-flex cs-justify-between cs-text-xs cs-text-gray-600 cs-mt-2">
+        <span>Low {format(history.lowest)}</span>
+        <span>Now {format(latest.amount)}</span>
+        <span>High {format(history.highest)}</span>
+      </div>
+
+      {claimedDiscount && assessment.notLower && assessment.lowestPrior && (
+        <div className="cs-bg-orange-50 cs-border cs-border-orange-200 cs-rounded cs-p-2 cs-mt-2 cs-text-xs cs-text-orange-700">
+          ⚠️ Shown as a discount, but you saw it for {format(assessment.lowestPrior.amount)} on{' '}
+          {new Date(assessment.lowestPrior.observedAt).toLocaleDateString()}.
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,40 @@
+interface SubscriptionCostSummaryProps {
+  detection: {
+    description?: string;
+    details?: Array<{ label: string; value: string }>;
+  };
+}
+
+const HIDDEN_DETAILS = ['Type', '12-Month Cost', 'Payments'];
+
+/**
+ * What a trial or subscription actually costs over its first year, with the terms behind it
+ */
+export function SubscriptionCostSummary({ detection }: SubscriptionCostSummaryProps) {
+  const details = detection.details || [];
+  const annualCost = details.find(detail => detail.label === '12-Month Cost')?.value;
+  const payments = details.find(detail => detail.label === 'Payments')?.value;
+  const terms = details.filter(detail => !HIDDEN_DETAILS.includes(detail.label));
+
+  return (
+    <div className="cs-bg-gray-50 cs-rounded-lg cs-p-3">
+      <div className="cs-flex cs-items-baseline cs-justify-between cs-mb-1">
+        <span className="cs-text-xs cs-font-medium cs-text-gray-700">What you'll pay in 12 months</span>
+        <span className="cs-text-lg cs-font-bold cs-text-gray-900">{annualCost}</span>
+      </div>
+      {payments && <div className="cs-text-xs cs-text-gray-500 cs-mb-2">{payments}</div>}
+      {detection.description && (
+        <p className="cs-text-xs cs-text-gray-700 cs-mb-2">{detection.description}</p>
+      )}
+      {terms.length > 0 && (
+        <ul className="cs-space-y-1">
+          {terms.map((term, i) => (
+            <li key={i} className="cs-text-xs cs-text-gray-600">
+              <span className="cs-font-medium cs-text-gray-700">{term.label}:</span> {term.value}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,168 @@
+/**
+ * RuleEngine - Deterministic, explainable detection from a versioned JSON ruleset
+ *
+ * Used by detectors whenever the Prompt API is unavailable or its response is
+ * unusable, so every tactic still produces a score with the evidence behind it.
+ */
+
+import defaultRuleset from './ruleset.json';
+
+export interface RuleDefinition {
+  id: string;
+  pattern: string;                      // Regular expression source
+  flags?: string;                       // Defaults to case-insensitive
+  weight: number;                       // Points added to the 0-10 score
+  subtype?: string;                     // Tactic-specific type, e.g. 'scarcity'
+  description: string;
+}
+
+export interface TacticDefinition {
+  description: string;
+  rules: RuleDefinition[];
+}
+
+export interface Ruleset {
+  schema?: number;                      // Layout of this file, 1 when absent
+  version: number;                      // Bumped whenever rules are added or changed
+  updated?: string;
+  tactics: Record<string, TacticDefinition>;
+}
+
+export interface RuleMatch {
+  ruleId: string;
+  description: string;
+  weight: number;
+  subtype?: string;
+  evidence: string;                     // Matched text with a little surrounding context
+}
+
+export interface RuleEvaluation {
+  tactic: string;
+  score: number;                        // 0-10
+  subtype?: string;                     // From the heaviest matching rule
+  matches: RuleMatch[];
+  rulesetVersion: number;
+}
+
+interface CompiledRule extends RuleDefinition {
+  regex: RegExp;
+}
+
+export class RuleEngine {
+  static readonly SUPPORTED_VERSION = 1;               // Ruleset schema this engine reads
+  private static readonly EVIDENCE_CONTEXT = 30;     // Characters either side of a match
+
+  private version: number;
+  private tactics = new Map<string, CompiledRule[]>();
+
+  constructor(ruleset: Ruleset = defaultRuleset as Ruleset) {
+    const schema = ruleset.schema ?? 1;
+    if (schema > RuleEngine.SUPPORTED_VERSION) {
+      console.warn(`⚠️ Ruleset schema v${schema} is newer than supported v${RuleEngine.SUPPORTED_VERSION} - unknown fields are ignored`);
+    }
+
+    this.version = ruleset.version;
+
+    Object.entries(ruleset.tactics).forEach(([tactic, definition]) => {
+      const compiled: CompiledRule[] = [];
+
+      definition.rules.forEach(rule => {
+        try {
+          compiled.push({ ...rule, regex: new RegExp(rule.pattern, rule.flags ?? 'i') });
+        } catch (error) {
+          console.warn(`⚠️ Skipping invalid rule ${rule.id}:`, error);
+        }
+      });
+
+      this.tactics.set(tactic, compiled);
+    });
+  }
+
+  getVersion(): number {
+    return this.version;
+  }
+
+  hasTactic(tactic: string): boolean {
+    return this.tactics.has(tactic);
+  }
+
+  /**
+   * Score text against one tactic's rules. Each rule counts once.
+   */
+  evaluate(tactic: string, text: string): RuleEvaluation {
+    const rules = this.tactics.get(tactic) || [];
+    const matches: RuleMatch[] = [];
+
+    for (const rule of rules) {
+      const match = rule.regex.exec(text);
+      if (!match) continue;
+
+      matches.push({
+        ruleId: rule.id,
+        description: rule.description,
+        weight: rule.weight,
+        subtype: rule.subtype,
+        evidence: this.extractEvidence(text, match.index, match[0].length)
+      });
+    }
+
+    const score = Math.min(10, matches.reduce((sum, match) => sum + match.weight, 0));
+    const heaviest = [...matches].sort((a, b) => b.weight - a.weight).find(match => match.subtype);
+
+    return {
+      tactic,
+      score,
+      subtype: heaviest?.subtype,
+      matches,
+      rulesetVersion: this.version
+    };
+  }
+
+  /**
+   * Evaluate every tactic and return the highest-scoring one
+   */
+  evaluateBest(text: string): RuleEvaluation {
+    let best: RuleEvaluation = { tactic: 'none', score: 0, matches: [], rulesetVersion: this.version };
+
+    this.tactics.forEach((_rules, tactic) => {
+      const evaluation = this.evaluate(tactic, text);
+      if (evaluation.score > best.score) best = evaluation;
+    });
+
+    return best;
+  }
+
+  /**
+   * One-line explanation suitable for a Detection's reasoning
+   */
+  explain(evaluation: RuleEvaluation): string {
+    if (evaluation.matches.length === 0) {
+      return `No rules matched (ruleset v${evaluation.rulesetVersion})`;
+    }
+
+    const reasons = evaluation.matches
+      .map(match => `${match.description} (+${match.weight})`)
+      .join(', ');
+
+    return `Rule-based analysis (ruleset v${evaluation.rulesetVersion}): ${reasons}`;
+  }
+
+  /**
+   * Detection detail rows listing each piece of matched evidence
+   */
+  evidenceDetails(evaluation: RuleEvaluation): Array<{ label: string; value: string }> {
+    return evaluation.matches.slice(0, 3).map(match => ({
+      label: match.description,
+      value: `"${match.evidence}"`
+    }));
+  }
+
+  private extractEvidence(text: string, index: number, length: number): string {
+    const start = Math.max(0, index - RuleEngine.EVIDENCE_CONTEXT);
+    const end = Math.min(text.length, index + length + RuleEngine.EVIDENCE_CONTEXT);
+
+    return `${start > 0 ? '…' : ''}${text.slice(start, end).trim()}${end < text.length ? '…' : ''}`;
+  }
+}
+
+export const ruleEngine = new RuleEngine();
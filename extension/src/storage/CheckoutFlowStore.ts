@@ -0,0 +1,103 @@
+/**
+ * CheckoutFlowStore - Prices seen while shopping on one store, from product page to checkout
+ *
+ * A flow is keyed by store hostname and ends after a long pause, so the price a
+ * product was first shown at can be compared with the checkout total later.
+ */
+
+export interface FlowProduct {
+  productId: string;
+  name?: string;
+  amount: number;
+  currency: string;
+  url: string;
+  firstSeenAt: number;
+}
+
+export interface CartAddition {
+  name: string;                         // Product name near the add-to-cart control
+  addedAt: number;
+}
+
+export interface CheckoutFlow {
+  domain: string;
+  products: FlowProduct[];              // In the order they were first seen
+  added?: CartAddition[];               // Add-to-cart clicks during this trip
+  startedAt: number;
+  updatedAt: number;
+}
+
+export class CheckoutFlowStore {
+  static readonly PREFIX = 'checkoutflow:';
+  // A new shopping trip starts after this long without visiting the store
+  private static readonly IDLE_MS = 3 * 60 * 60 * 1000;
+  private static readonly MAX_PRODUCTS = 20;
+
+  async getFlow(domain: string): Promise<CheckoutFlow | null> {
+    try {
+      const key = CheckoutFlowStore.key(domain);
+      const result = await chrome.storage.local.get(key);
+      const flow = result[key] as CheckoutFlow | undefined;
+
+      if (!flow || Date.now() - flow.updatedAt > CheckoutFlowStore.IDLE_MS) return null;
+      return flow;
+    } catch (error) {
+      console.error('Failed to read checkout flow:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Remember the first price a product was shown at during this trip
+   */
+  async recordProduct(domain: string, product: Omit<FlowProduct, 'firstSeenAt'>): Promise<void> {
+    try {
+      const now = Date.now();
+      const flow = await this.getFlow(domain) || { domain, products: [], startedAt: now, updatedAt: now };
+
+      if (!flow.products.some(existing => existing.productId === product.productId)) {
+        flow.products = [...flow.products, { ...product, firstSeenAt: now }].slice(-CheckoutFlowStore.MAX_PRODUCTS);
+      }
+      flow.updatedAt = now;
+
+      await chrome.storage.local.set({ [CheckoutFlowStore.key(domain)]: flow });
+    } catch (error) {
+      console.error('Failed to record checkout flow product:', error);
+    }
+  }
+
+  /**
+   * Remember that the user added a product to the cart
+   */
+  async recordAddition(domain: string, name: string): Promise<void> {
+    try {
+      const now = Date.now();
+      const flow = await this.getFlow(domain) || { domain, products: [], startedAt: now, updatedAt: now };
+
+      flow.added = [...(flow.added || []), { name, addedAt: now }].slice(-CheckoutFlowStore.MAX_PRODUCTS);
+      flow.updatedAt = now;
+
+      await chrome.storage.local.set({ [CheckoutFlowStore.key(domain)]: flow });
+    } catch (error) {
+      console.error('Failed to record cart addition:', error);
+    }
+  }
+
+  /**
+   * Keep the trip alive while the user moves through cart and checkout pages
+   */
+  async touch(domain: string): Promise<void> {
+    try {
+      const flow = await this.getFlow(domain);
+      if (!flow) return;
+
+      await chrome.storage.local.set({ [CheckoutFlowStore.key(domain)]: { ...flow, updatedAt: Date.now() } });
+    } catch (error) {
+      console.error('Failed to update checkout flow:', error);
+    }
+  }
+
+  private static key(domain: string): string {
+    return `${this.PREFIX}${domain.replace(/^www\./, '')}`;
+  }
+}
@@ -0,0 +1,135 @@
+/**
+ * ClaimHistoryStore - Numeric scarcity / activity claims recorded per product
+ *
+ * "Only 3 left" or "12 people viewing" is only meaningful if it tracks reality.
+ * Each page load records the number shown, so claims that never move (or jump
+ * around on every reload) can be spotted across visits and sessions.
+ */
+
+export type ClaimKind = 'stock' | 'viewers' | 'in_cart';
+
+export interface ClaimSighting {
+  value: number;
+  text: string;
+  observedAt: number;                   // Epoch ms
+  pageLoad: number;                     // performance.timeOrigin of the load that saw it
+}
+
+export type ClaimVerdict = 'never_changes' | 'changes_every_reload';
+
+export interface ClaimAssessment {
+  verdict: ClaimVerdict;
+  loads: number;
+  spanDays: number;
+  summary: string;
+}
+
+export class ClaimHistoryStore {
+  static readonly PREFIX = 'claims:';
+  private static readonly MAX_SIGHTINGS = 50;
+  private static readonly DAY_MS = 24 * 60 * 60 * 1000;
+  // A frozen claim needs this many visits over this many days before it's flagged
+  private static readonly MIN_STATIC_LOADS = 3;
+  private static readonly MIN_STATIC_SPAN_MS = 7 * ClaimHistoryStore.DAY_MS;
+  // Loads this close together count as reloads of the same situation
+  private static readonly RELOAD_WINDOW_MS = 30 * 60 * 1000;
+  private static readonly MIN_RELOAD_PAIRS = 3;
+  // Products not seen again within this long are dropped on startup
+  private static readonly HISTORY_TTL_MS = 90 * ClaimHistoryStore.DAY_MS;
+
+  /**
+   * Add this page load's value (once per load) and return the full history, oldest first
+   */
+  async record(productId: string, kind: ClaimKind, sighting: ClaimSighting): Promise<ClaimSighting[]> {
+    const key = ClaimHistoryStore.key(productId, kind);
+
+    try {
+      const result = await chrome.storage.local.get(key);
+      const sightings: ClaimSighting[] = result[key] || [];
+
+      if (sightings.some(existing => existing.pageLoad === sighting.pageLoad)) {
+        return sightings;
+      }
+
+      const updated = [...sightings, sighting].slice(-ClaimHistoryStore.MAX_SIGHTINGS);
+      await chrome.storage.local.set({ [key]: updated });
+      return updated;
+    } catch (error) {
+      console.error('Failed to record claim sighting:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Drop claim histories whose latest sighting is older than the TTL
+   */
+  async cleanup(): Promise<void> {
+    try {
+      const cutoff = Date.now() - ClaimHistoryStore.HISTORY_TTL_MS;
+      const all = await chrome.storage.local.get(null);
+      const stale = Object.entries(all)
+        .filter(([key, sightings]) =>
+          key.startsWith(ClaimHistoryStore.PREFIX) &&
+          !(sightings as ClaimSighting[]).some(sighting => sighting.observedAt >= cutoff)
+        )
+        .map(([key]) => key);
+
+      if (stale.length > 0) {
+        await chrome.storage.local.remove(stale);
+        console.log(`🧹 Claim history: removed ${stale.length} stale claims`);
+      }
+    } catch (error) {
+      console.error('Failed to clean up claim history:', error);
+    }
+  }
+
+  /**
+   * Flag a claim that hasn't moved across visits spanning a week or more, or one
+   * that changes up and down between reloads minutes apart
+   */
+  static assess(kind: ClaimKind, sightings: ClaimSighting[]): ClaimAssessment | null {
+    if (sightings.length < 2) return null;
+
+    const first = sightings[0];
+    const last = sightings[sightings.length - 1];
+    const span = last.observedAt - first.observedAt;
+    const spanDays = Math.round(span / this.DAY_MS);
+    const noun = kind === 'stock' ? 'stock count' : kind === 'viewers' ? 'viewer count' : 'in-cart count';
+
+    const values = new Set(sightings.map(sighting => sighting.value));
+    if (values.size === 1 && sightings.length >= this.MIN_STATIC_LOADS && span >= this.MIN_STATIC_SPAN_MS) {
+      return {
+        verdict: 'never_changes',
+        loads: sightings.length,
+        spanDays,
+        summary: `The ${noun} showed ${last.value} on all ${sightings.length} visits over ${spanDays} days`
+      };
+    }
+
+    const reloads = sightings
+      .slice(1)
+      .map((sighting, i) => [sightings[i], sighting] as const)
+      .filter(([before, after]) => after.observedAt - before.observedAt <= this.RELOAD_WINDOW_MS);
+
+    const changes = reloads.filter(([before, after]) => before.value !== after.value);
+    const wentUp = changes.some(([before, after]) => after.value > before.value);
+    const wentDown = changes.some(([before, after]) => after.value < before.value);
+
+    if (reloads.length >= this.MIN_RELOAD_PAIRS && changes.length / reloads.length >= 0.75 && wentUp && wentDown) {
+      const seen = reloads.flatMap(([before, after]) => [before.value, after.value]);
+      return {
+        verdict: 'changes_every_reload',
+        loads: sightings.length,
+        spanDays,
+        summary: `The ${noun} changed on ${changes.length} of ${reloads.length} quick reloads, ` +
+          `moving between ${Math.min(...seen)} and ${Math.max(...seen)}`
+      };
+    }
+
+    return null;
+  }
+
+  private static key(productId: string, kind: ClaimKind): string {
+    return `${this.PREFIX}${productId}|${kind}`;
+  }
+}
@@ -104,7 +104,7 @@ export class LocalStorageManager {
       agents: {
         shopping_persuasion: true,
         social_media: true,    // ✅ Social media agent enabled
-        news_bias: false,      // Future agents disabled by default
+        news_bias: false,      // Opt-in until enabled in settings
         social_pulse: false
       },
       sensitivity: 0.7,
@@ -0,0 +1,387 @@
+/**
+ * PriceHistoryStore - Local per-product price observations in IndexedDB
+ *
+ * The database lives on the extension origin, so only the service worker and
+ * the side panel open it. Content scripts go through the RECORD_PRICE_OBSERVATION
+ * and GET_PRICE_HISTORY messages.
+ */
+
+import { PageContext } from '../agents/base/types';
+import { QuantityDimension } from '../core/QuantityExtractor';
+
+export interface PriceObservation {
+  id?: number;                          // Assigned by IndexedDB
+  productId: string;
+  page: string;                         // hostname + pathname the price was seen on
+  name?: string;
+  amount: number;
+  wasAmount?: number;                   // Strikethrough / list price shown alongside
+  currency: string;                     // ISO 4217
+  quantity?: number;                    // Pack size in grams, millilitres or items
+  quantityDimension?: QuantityDimension;
+  observedAt: number;                   // Epoch ms
+}
+
+export interface PriceHistory {
+  productId: string;
+  name?: string;
+  currency: string;
+  observations: PriceObservation[];     // Oldest first
+  lowest: number;
+  highest: number;
+  median: number;
+}
+
+export interface PriceHistoryAssessment {
+  priorObservations: number;
+  lowestPrior?: PriceObservation;
+  notLower: boolean;                    // Current price is no lower than one seen before
+}
+
+export type ReferenceVerdict =
+  | 'insufficient_history'              // Not tracked long enough to judge
+  | 'never_observed'                    // Claimed original price never seen as an actual price
+  | 'short_window'                      // Only charged briefly before the sale started
+  | 'established';                      // Charged long enough to be a real reference
+
+export interface ReferencePriceCheck {
+  verdict: ReferenceVerdict;
+  observedMin: number;
+  observedMedian: number;
+  firstSeen: number;
+  lastSeen: number;
+  observations: number;
+  referenceFirstSeen?: number;          // When the claimed original was actually charged
+  referenceUntil?: number;              // When it was last charged before dropping
+}
+
+export interface PackSizeCheck {
+  before: PriceObservation;             // Last observation at the larger size
+  sizeChangePercent: number;            // Negative when the pack shrank
+  priceChangePercent: number;
+  unitPriceChangePercent: number;
+}
+
+export interface ProductIdentity {
+  productId: string;
+  name?: string;
+}
+
+export class PriceHistoryStore {
+  private static readonly DB_NAME = 'cognitivesense';
+  private static readonly DB_VERSION = 1;
+  private static readonly STORE = 'priceObservations';
+  private static readonly DEDUPE_WINDOW_MS = 6 * 60 * 60 * 1000;
+  private static readonly MAX_PER_PRODUCT = 200;
+  // Observations newer than this are from the current visit, not "before"
+  private static readonly MIN_PRIOR_AGE_MS = 60 * 60 * 1000;
+  private static readonly DAY_MS = 24 * 60 * 60 * 1000;
+  // A reference price must be charged this long to count, and history must span
+  // at least this long, over this many visits, before a missing reference means anything
+  private static readonly MIN_REFERENCE_MS = 7 * PriceHistoryStore.DAY_MS;
+  private static readonly MIN_TRACKED_MS = 14 * PriceHistoryStore.DAY_MS;
+  private static readonly MIN_TRACKED_OBSERVATIONS = 5;
+
+  private db: Promise<IDBDatabase> | null = null;
+
+  /**
+   * Store an observation unless the same price was already seen recently.
+   * Returns the product's history including it.
+   */
+  async record(observation: PriceObservation): Promise<PriceHistory | null> {
+    try {
+      const existing = await this.getObservations(observation.productId);
+      const last = existing[existing.length - 1];
+      const unchanged = last &&
+        last.amount === observation.amount &&
+        last.wasAmount === observation.wasAmount &&
+        last.currency === observation.currency &&
+        last.quantity === observation.quantity &&
+        observation.observedAt - last.observedAt < PriceHistoryStore.DEDUPE_WINDOW_MS;
+
+      if (!unchanged) {
+        // IndexedDB assigns the id
+        const record = { ...observation };
+        delete record.id;
+        await this.request(store => store.add(record), 'readwrite');
+
+        const excess = existing.length + 1 - PriceHistoryStore.MAX_PER_PRODUCT;
+        for (const old of existing.slice(0, Math.max(0, excess))) {
+          await this.request(store => store.delete(old.id!), 'readwrite');
+        }
+      }
+
+      return this.getHistory(observation.productId);
+    } catch (error) {
+      console.error('Failed to record price observation:', error);
+      return null;
+    }
+  }
+
+  async getHistory(productId: string): Promise<PriceHistory | null> {
+    try {
+      return PriceHistoryStore.summarize(await this.getObservations(productId));
+    } catch (error) {
+      console.error('Failed to read price history:', error);
+      return null;
+    }
+  }
+
+  /**
+   * History of the product last seen at a URL, for callers that only know the page
+   */
+  async getHistoryForUrl(url: string): Promise<PriceHistory | null> {
+    try {
+      const page = PriceHistoryStore.pageKey(url);
+      const seen = await this.request<PriceObservation[]>(store => store.index('page').getAll(page));
+      if (seen.length === 0) return null;
+
+      const latest = seen.reduce((a, b) => (b.observedAt > a.observedAt ? b : a));
+      return this.getHistory(latest.productId);
+    } catch (error) {
+      console.error('Failed to read price history:', error);
+      return null;
+    }
+  }
+
+  async clear(): Promise<void> {
+    try {
+      await this.request(store => store.clear(), 'readwrite');
+    } catch (error) {
+      console.error('Failed to clear price history:', error);
+    }
+  }
+
+  /**
+   * Compare a current price against earlier observations in the same currency
+   */
+  static assess(
+    current: { amount: number; currency: string },
+    history: PriceHistory | null,
+    now: number = Date.now()
+  ): PriceHistoryAssessment {
+    const prior = (history?.observations || []).filter(observation =>
+      observation.currency === current.currency &&
+      now - observation.observedAt >= this.MIN_PRIOR_AGE_MS
+    );
+
+    const lowestPrior = prior.reduce<PriceObservation | undefined>(
+      (lowest, observation) => (!lowest || observation.amount < lowest.amount ? observation : lowest),
+      undefined
+    );
+
+    return {
+      priorObservations: prior.length,
+      lowestPrior,
+      notLower: !!lowestPrior && current.amount >= lowestPrior.amount - 0.005
+    };
+  }
+
+  /**
+   * Check a claimed original price against what was actually charged. A reference
+   * only holds up if it was observed as the selling price for a sustained period.
+   */
+  static verifyReference(
+    reference: { amount: number; currency: string },
+    history: PriceHistory | null,
+    now: number = Date.now()
+  ): ReferencePriceCheck | null {
+    const observations = (history?.observations || []).filter(observation => observation.currency === reference.currency);
+    if (observations.length === 0) return null;
+
+    const amounts = observations.map(observation => observation.amount);
+    const check: ReferencePriceCheck = {
+      verdict: 'insufficient_history',
+      observedMin: Math.min(...amounts),
+      observedMedian: this.median(amounts),
+      firstSeen: observations[0].observedAt,
+      lastSeen: observations[observations.length - 1].observedAt,
+      observations: observations.length
+    };
+
+    const tracked = now - check.firstSeen >= this.MIN_TRACKED_MS &&
+      observations.length >= this.MIN_TRACKED_OBSERVATIONS;
+
+    // 1% tolerance for rounding in the displayed reference
+    const atReference = (amount: number) => amount >= reference.amount * 0.99;
+    const firstIndex = observations.findIndex(observation => atReference(observation.amount));
+
+    if (firstIndex === -1) {
+      if (tracked) check.verdict = 'never_observed';
+      return check;
+    }
+
+    // Longest unbroken run at the reference price, ended by the first lower observation
+    let longest = 0;
+    for (let i = firstIndex; i < observations.length; i++) {
+      if (!atReference(observations[i].amount) || (i > 0 && atReference(observations[i - 1].amount))) continue;
+
+      const end = observations.slice(i).find(observation => !atReference(observation.amount))?.observedAt ?? now;
+      if (end - observations[i].observedAt > longest) {
+        longest = end - observations[i].observedAt;
+        check.referenceFirstSeen = observations[i].observedAt;
+        check.referenceUntil = end;
+      }
+    }
+
+    if (longest >= this.MIN_REFERENCE_MS) {
+      check.verdict = 'established';
+    } else if (tracked) {
+      check.verdict = 'short_window';
+    }
+
+    return check;
+  }
+
+  /**
+   * Look for shrinkflation: an earlier, larger pack sold at the same price or less.
+   * Returns null unless the pack shrank while the price held or rose.
+   */
+  static checkPackSize(
+    current: { amount: number; currency: string; quantity: number; quantityDimension: QuantityDimension },
+    history: PriceHistory | null,
+    now: number = Date.now()
+  ): PackSizeCheck | null {
+    const before = (history?.observations || [])
+      .filter(observation =>
+        observation.currency === current.currency &&
+        observation.quantityDimension === current.quantityDimension &&
+        observation.quantity !== undefined &&
+        now - observation.observedAt >= this.MIN_PRIOR_AGE_MS
+      )
+      .reverse()
+      // 2% tolerance for rounding between unit systems
+      .find(observation => observation.quantity! > current.quantity * 1.02);
+
+    if (!before || current.amount < before.amount * 0.98) return null;
+
+    const unitBefore = before.amount / before.quantity!;
+    const unitNow = current.amount / current.quantity;
+    return {
+      before,
+      sizeChangePercent: Math.round((current.quantity / before.quantity! - 1) * 100),
+      priceChangePercent: Math.round((current.amount / before.amount - 1) * 100),
+      unitPriceChangePercent: Math.round((unitNow / unitBefore - 1) * 100)
+    };
+  }
+
+  /**
+   * Stable product key from JSON-LD Product identifiers, falling back to the
+   * product URL. Returns null on pages that aren't product pages.
+   */
+  static identify(context: PageContext): ProductIdentity | null {
+    const product = this.findProduct(context.metadata.structured?.jsonLd || []);
+    const host = context.domain || context.url.hostname;
+
+    if (product) {
+      const name = typeof product.name === 'string' ? product.name : undefined;
+      const identifier = ['sku', 'gtin13', 'gtin12', 'gtin14', 'gtin8', 'gtin', 'mpn', 'productID']
+        .map(key => [key, product[key]] as const)
+        .find(([, value]) => typeof value === 'string' || typeof value === 'number');
+
+      if (identifier) {
+        return { productId: `${host}#${identifier[0]}:${String(identifier[1]).trim()}`, name };
+      }
+
+      if (typeof product.url === 'string') {
+        try {
+          return { productId: this.pageKey(new URL(product.url, context.url.href).href), name };
+        } catch {
+          // Fall through to the page URL
+        }
+      }
+    }
+
+    if (!product && context.metadata.type !== 'product') return null;
+
+    const canonical = document.querySelector<HTMLLinkElement>('link[rel="canonical"]')?.href;
+    return {
+      productId: this.pageKey(canonical || context.url.href),
+      name: context.metadata.structured?.openGraph?.title || context.title
+    };
+  }
+
+  static pageKey(url: string): string {
+    const parsed = new URL(url);
+    return `${parsed.hostname}${parsed.pathname}`;
+  }
+
+  private static summarize(observations: PriceObservation[]): PriceHistory | null {
+    if (observations.length === 0) return null;
+
+    const latest = observations[observations.length - 1];
+    const sameCurrency = observations.filter(observation => observation.currency === latest.currency);
+    const amounts = sameCurrency.map(observation => observation.amount);
+
+    return {
+      productId: latest.productId,
+      name: [...observations].reverse().find(observation => observation.name)?.name,
+      currency: latest.currency,
+      observations,
+      lowest: Math.min(...amounts),
+      highest: Math.max(...amounts),
+      median: this.median(amounts)
+    };
+  }
+
+  private static median(values: number[]): number {
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+  }
+
+  private static findProduct(nodes: any): any | null {
+    if (!nodes || typeof nodes !== 'object') return null;
+    if (Array.isArray(nodes)) {
+      for (const node of nodes) {
+        const found = this.findProduct(node);
+        if (found) return found;
+      }
+      return null;
+    }
+
+    const types = ([] as any[]).concat(nodes['@type'] || []).map(String);
+    if (types.some(type => /^(Product|ProductGroup|IndividualProduct)$/.test(type))) {
+      return nodes;
+    }
+
+    return this.findProduct(nodes['@graph'] || nodes.mainEntity || null);
+  }
+
+  private async getObservations(productId: string): Promise<PriceObservation[]> {
+    const observations = await this.request<PriceObservation[]>(store => store.index('productId').getAll(productId));
+    return observations.sort((a, b) => a.observedAt - b.observedAt);
+  }
+
+  private request<T>(
+    operation: (store: IDBObjectStore) => IDBRequest,
+    mode: IDBTransactionMode = 'readonly'
+  ): Promise<T> {
+    return this.open().then(db => new Promise<T>((resolve, reject) => {
+      const request = operation(db.transaction(PriceHistoryStore.STORE, mode).objectStore(PriceHistoryStore.STORE));
+      request.onsuccess = () => resolve(request.result as T);
+      request.onerror = () => reject(request.error);
+    }));
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = new Promise((resolve, reject) => {
+        const request = indexedDB.open(PriceHistoryStore.DB_NAME, PriceHistoryStore.DB_VERSION);
+
+        request.onupgradeneeded = () => {
+          const store = request.result.createObjectStore(PriceHistoryStore.STORE, { keyPath: 'id', autoIncrement: true });
+          store.createIndex('productId', 'productId');
+          store.createIndex('page', 'page');
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          this.db = null;
+          reject(request.error);
+        };
+      });
+    }
+
+    return this.db;
+  }
+}
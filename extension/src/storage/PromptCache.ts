@@ -0,0 +1,254 @@
+/**
+ * PromptCache - Persists parsed Prompt API results keyed by a content fingerprint
+ *
+ * An index key lists every entry, so cleanup and stats read only the cache rather
+ * than the whole of chrome.storage.local.
+ */
+
+export interface PromptCacheKey {
+  detector: string;                     // Detector that owns the prompt
+  snippet: string;                      // Candidate page text the prompt was built from
+  version: number;                      // Bump when the detector's prompt changes
+}
+
+export interface PromptCacheOptions {
+  ttlMs: number;
+  maxEntries: number;
+  maxBytes: number;
+}
+
+export interface PromptCacheFilter {
+  detector?: string;
+  olderThan?: number;                   // Epoch ms - drop entries stored before this
+}
+
+export interface PromptCacheStats {
+  entries: number;
+  bytes: number;
+  byDetector: Record<string, number>;
+}
+
+interface PromptCacheEntry {
+  response: unknown;                    // Parsed result, as returned by the engine
+  detector: string;
+  storedAt: number;
+  expiresAt: number;
+  lastAccess: number;
+  size: number;
+}
+
+export const DEFAULT_PROMPT_CACHE_OPTIONS: PromptCacheOptions = {
+  ttlMs: 7 * 24 * 60 * 60 * 1000,
+  maxEntries: 500,
+  maxBytes: 2 * 1024 * 1024
+};
+
+export class PromptCache {
+  static readonly PREFIX = 'promptcache:';
+  static readonly INDEX_KEY = 'promptcache-index';
+  private static readonly CLEANUP_DELAY_MS = 5000;
+
+  private options: PromptCacheOptions;
+  private cleanupTimer: ReturnType<typeof setTimeout> | null = null;
+  // Index writes are chained so parallel detectors don't drop each other's keys
+  private indexUpdate: Promise<void> = Promise.resolve();
+
+  constructor(options: Partial<PromptCacheOptions> = {}) {
+    this.options = { ...DEFAULT_PROMPT_CACHE_OPTIONS, ...options };
+  }
+
+  async get<T>(key: PromptCacheKey): Promise<T | null> {
+    try {
+      const storageKey = PromptCache.PREFIX + PromptCache.fingerprint(key);
+      const result = await chrome.storage.local.get(storageKey);
+      const entry = result[storageKey] as PromptCacheEntry | undefined;
+
+      if (!entry) return null;
+
+      if (entry.expiresAt <= Date.now()) {
+        await chrome.storage.local.remove(storageKey);
+        await this.updateIndex(keys => keys.delete(storageKey));
+        return null;
+      }
+
+      // Touch for LRU eviction
+      await chrome.storage.local.set({ [storageKey]: { ...entry, lastAccess: Date.now() } });
+      return entry.response as T;
+    } catch (error) {
+      console.error('Failed to read prompt cache:', error);
+      return null;
+    }
+  }
+
+  async set(key: PromptCacheKey, response: unknown): Promise<void> {
+    try {
+      const now = Date.now();
+      const entry: PromptCacheEntry = {
+        response,
+        detector: key.detector,
+        storedAt: now,
+        expiresAt: now + this.options.ttlMs,
+        lastAccess: now,
+        size: JSON.stringify(response).length
+      };
+
+      const storageKey = PromptCache.PREFIX + PromptCache.fingerprint(key);
+      await chrome.storage.local.set({ [storageKey]: entry });
+      await this.updateIndex(keys => keys.add(storageKey));
+      this.scheduleCleanup();
+    } catch (error) {
+      console.error('Failed to write prompt cache:', error);
+    }
+  }
+
+  /**
+   * Remove cached results, optionally only for one detector or those stored before a time.
+   * Returns the number of entries removed.
+   */
+  async invalidate(filter: PromptCacheFilter = {}): Promise<number> {
+    try {
+      const entries = await this.getEntries();
+      const keys = Object.entries(entries)
+        .filter(([, entry]) =>
+          (!filter.detector || entry.detector === filter.detector) &&
+          (!filter.olderThan || entry.storedAt < filter.olderThan)
+        )
+        .map(([key]) => key);
+
+      if (keys.length > 0) {
+        await chrome.storage.local.remove(keys);
+        await this.updateIndex(indexed => keys.forEach(key => indexed.delete(key)));
+      }
+
+      console.log(`🗑️ Prompt cache: invalidated ${keys.length} entries`);
+      return keys.length;
+    } catch (error) {
+      console.error('Failed to invalidate prompt cache:', error);
+      return 0;
+    }
+  }
+
+  async getStats(): Promise<PromptCacheStats> {
+    const entries = Object.values(await this.getEntries());
+    const byDetector: Record<string, number> = {};
+
+    entries.forEach(entry => {
+      byDetector[entry.detector] = (byDetector[entry.detector] || 0) + 1;
+    });
+
+    return {
+      entries: entries.length,
+      bytes: entries.reduce((sum, entry) => sum + entry.size, 0),
+      byDetector
+    };
+  }
+
+  /**
+   * Drop expired entries, then evict least recently used ones until within limits
+   */
+  async cleanup(): Promise<void> {
+    try {
+      const now = Date.now();
+      const entries = Object.entries(await this.getEntries());
+
+      const expired = entries.filter(([, entry]) => entry.expiresAt <= now).map(([key]) => key);
+      const live = entries
+        .filter(([, entry]) => entry.expiresAt > now)
+        .sort((a, b) => b[1].lastAccess - a[1].lastAccess);
+
+      const evicted: string[] = [];
+      let bytes = 0;
+
+      live.forEach(([key, entry], index) => {
+        bytes += entry.size;
+        if (index >= this.options.maxEntries || bytes > this.options.maxBytes) {
+          evicted.push(key);
+        }
+      });
+
+      const removed = [...expired, ...evicted];
+      if (removed.length > 0) {
+        await chrome.storage.local.remove(removed);
+        await this.updateIndex(keys => removed.forEach(key => keys.delete(key)));
+        console.log(`🧹 Prompt cache: removed ${expired.length} expired, ${evicted.length} evicted`);
+      }
+    } catch (error) {
+      console.error('Failed to clean up prompt cache:', error);
+    }
+  }
+
+  /**
+   * Stable hash of the normalized snippet, detector name and prompt version
+   */
+  static fingerprint(key: PromptCacheKey): string {
+    const input = `${key.detector}|v${key.version}|${key.snippet.replace(/\s+/g, ' ').trim()}`;
+
+    // cyrb53 - two independent 32-bit lanes for a 53-bit hash
+    let h1 = 0xdeadbeef;
+    let h2 = 0x41c6ce57;
+    for (let i = 0; i < input.length; i++) {
+      const char = input.charCodeAt(i);
+      h1 = Math.imul(h1 ^ char, 2654435761);
+      h2 = Math.imul(h2 ^ char, 1597334677);
+    }
+    h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+    h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+
+    return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+  }
+
+  private async getEntries(): Promise<Record<string, PromptCacheEntry>> {
+    const keys = await this.getIndex();
+    if (keys.length === 0) return {};
+
+    const stored = await chrome.storage.local.get(keys);
+    const entries: Record<string, PromptCacheEntry> = {};
+    keys.forEach(key => {
+      if (stored[key]) entries[key] = stored[key] as PromptCacheEntry;
+    });
+
+    // Keys whose entry has gone (removed by another tab or a data wipe)
+    if (Object.keys(entries).length < keys.length) {
+      await this.updateIndex(indexed => keys.forEach(key => {
+        if (!entries[key]) indexed.delete(key);
+      }));
+    }
+
+    return entries;
+  }
+
+  /**
+   * Storage keys of all cached entries. Caches written before the index existed
+   * are scanned for once to build it.
+   */
+  private async getIndex(): Promise<string[]> {
+    const result = await chrome.storage.local.get(PromptCache.INDEX_KEY);
+    const index = result[PromptCache.INDEX_KEY] as string[] | undefined;
+    if (index) return index;
+
+    const all = await chrome.storage.local.get(null);
+    const keys = Object.keys(all).filter(key => key.startsWith(PromptCache.PREFIX));
+    await chrome.storage.local.set({ [PromptCache.INDEX_KEY]: keys });
+    return keys;
+  }
+
+  private updateIndex(change: (keys: Set<string>) => void): Promise<void> {
+    this.indexUpdate = this.indexUpdate
+      .then(async () => {
+        const keys = new Set(await this.getIndex());
+        change(keys);
+        await chrome.storage.local.set({ [PromptCache.INDEX_KEY]: [...keys] });
+      })
+      .catch(error => console.error('Failed to update prompt cache index:', error));
+    return this.indexUpdate;
+  }
+
+  private scheduleCleanup(): void {
+    if (this.cleanupTimer) return;
+
+    this.cleanupTimer = setTimeout(() => {
+      this.cleanupTimer = null;
+      this.cleanup();
+    }, PromptCache.CLEANUP_DELAY_MS);
+  }
+}
@@ -2,12 +2,20 @@
 
 import { AgentRegistry } from '@/agents/base/AgentRegistry';
 import { LocalStorageManager } from '@/storage/LocalStorage';
+import { PromptCache } from '@/storage/PromptCache';
+import { PriceHistoryStore } from '@/storage/PriceHistoryStore';
+import { CountdownMonitor } from '@/core/CountdownMonitor';
+import { ClaimHistoryStore } from '@/storage/ClaimHistoryStore';
 import { ShoppingPersuasionAgent } from '@/agents/shopping/ShoppingAgent';
 // Note: MultiLanguageManager is only used in content script and panel, not in service worker
 
 console.log('CognitiveSense Service Worker starting...');
 
 const storage = new LocalStorageManager();
+const promptCache = new PromptCache();
+const priceHistory = new PriceHistoryStore();
+const countdownMonitor = new CountdownMonitor();
+const claimHistory = new ClaimHistoryStore();
 
 // Initialize extension on install
 chrome.runtime.onInstalled.addListener(async (details) => {
@@ -49,6 +57,11 @@ chrome.runtime.onStartup.addListener(async () => {
     registry.register(new ShoppingPersuasionAgent());
     
     await registry.initialize();
+    
+    // Drop expired prompt results, countdown sightings and claim histories left over from previous sessions
+    await promptCache.cleanup();
+    await countdownMonitor.cleanup();
+    await claimHistory.cleanup();
   } catch (error) {
     console.error('Failed to start CognitiveSense:', error);
   }
@@ -78,6 +91,11 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
         .catch(error => sendResponse({ error: error.message }));
       return true; // Keep message channel open for async response
       
+    case 'GET_TAB_ID':
+      // Content scripts can't read their own tab id
+      sendResponse({ tabId: sender.tab?.id ?? null });
+      break;
+      
     case 'UPDATE_BADGE':
       updateBadge(message.data, sender.tab?.id);
       break;
@@ -94,6 +112,35 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
         .catch(error => sendResponse({ error: error.message }));
       return true;
       
+    case 'INVALIDATE_PROMPT_CACHE':
+      // data: { detector?: string; olderThan?: number } - omit both to clear everything
+      promptCache.invalidate(message.data)
+        .then(removed => sendResponse({ success: true, removed }))
+        .catch(error => sendResponse({ error: error.message }));
+      return true;
+      
+    case 'GET_PROMPT_CACHE_STATS':
+      promptCache.getStats()
+        .then(sendResponse)
+        .catch(error => sendResponse({ error: error.message }));
+      return true;
+      
+    case 'RECORD_PRICE_OBSERVATION':
+      // data: PriceObservation - responds with the product's history including it
+      priceHistory.record(message.data)
+        .then(history => sendResponse({ history }))
+        .catch(error => sendResponse({ error: error.message }));
+      return true;
+      
+    case 'GET_PRICE_HISTORY':
+      // data: { productId?: string; url?: string }
+      (message.data.productId
+        ? priceHistory.getHistory(message.data.productId)
+        : priceHistory.getHistoryForUrl(message.data.url))
+        .then(history => sendResponse({ history }))
+        .catch(error => sendResponse({ error: error.message }));
+      return true;
+      
     default:
       console.warn('Unknown message type:', message.type);
   }
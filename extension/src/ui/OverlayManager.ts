@@ -8,6 +8,7 @@ export class OverlayManager {
   private overlays: Map<string, HTMLElement> = new Map();
   private tooltips: Map<string, HTMLElement> = new Map();
   private floatingBadge: HTMLElement | null = null;
+  private detections: Detection[] = [];
 
   /**
    * Show loading indicator while detection is in progress
@@ -51,6 +52,8 @@ export class OverlayManager {
       return;
     }
 
+    this.detections = [...detections];
+
     // Create floating summary badge
     this.createFloatingBadge(detections);
 
@@ -62,6 +65,72 @@ export class OverlayManager {
     console.log(`✨ Rendered ${detections.length} visual overlays`);
   }
 
+  /**
+   * Add detections to what is already on the page without redrawing existing highlights.
+   * A new detection replaces any rendered one listed in `replacedIds`.
+   */
+  async merge(added: Detection[], replacedIds: string[] = []): Promise<void> {
+    if (added.length === 0 && replacedIds.length === 0) {
+      return;
+    }
+
+    this.remove(replacedIds);
+    this.detections.push(...added);
+
+    for (const detection of added) {
+      this.highlightDetection(detection);
+    }
+
+    // Only the summary badge is rebuilt, keeping its panel open if it was
+    const wasOpen = (this.floatingBadge?.querySelector('.cs-badge-panel') as HTMLElement | null)?.style.display === 'block';
+    this.floatingBadge?.remove();
+    this.floatingBadge = null;
+
+    if (this.detections.length > 0) {
+      this.createFloatingBadge(this.detections);
+      if (wasOpen) {
+        const panel = this.floatingBadge!.querySelector('.cs-badge-panel') as HTMLElement | null;
+        if (panel) panel.style.display = 'block';
+      }
+    }
+
+    console.log(`✨ Merged ${added.length} overlays (${this.detections.length} total)`);
+  }
+
+  /**
+   * Remove the overlays of specific detections, e.g. when their element left the page
+   */
+  remove(detectionIds: string[]): void {
+    if (detectionIds.length === 0) return;
+
+    const ids = new Set(detectionIds);
+    this.detections = this.detections.filter(detection => !ids.has(detection.id));
+
+    ids.forEach(id => {
+      const overlay = this.overlays.get(`cs-highlight-${id}`);
+      if (overlay) {
+        if ((overlay as any).__cleanup) {
+          (overlay as any).__cleanup();
+        }
+        overlay.remove();
+        this.overlays.delete(`cs-highlight-${id}`);
+      }
+
+      const tooltip = this.tooltips.get(`cs-tooltip-${id}`);
+      if (tooltip) {
+        tooltip.remove();
+        this.tooltips.delete(`cs-tooltip-${id}`);
+      }
+
+      const element = document.querySelector(`[data-cs-detection-id="${id}"]`);
+      if (element) {
+        element.classList.remove('cs-highlighted-element');
+        element.removeAttribute('data-cs-detection-id');
+        element.removeAttribute('data-cs-severity');
+      }
+    });
+  }
+
   /**
    * Create floating badge showing detection count
    */
@@ -290,6 +359,8 @@ export class OverlayManager {
    * Clear all overlays
    */
   clear(): void {
+    this.detections = [];
+
     // Remove floating badge
     if (this.floatingBadge) {
       this.floatingBadge.remove();